@@ -3,7 +3,107 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement, svg } from 'lit';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement, property, query, queryAll, state } from 'lit/decorators.js';
+
+import './EditTools';
+import { RECORDING_FORMATS } from '../utils/AudioRecorder';
+import { createEditCommand, renderPreview } from '../utils/AudioEdits';
+import type { EditOperation } from '../utils/AudioEdits';
+import type { Stem } from '../utils/AudioRecorder';
+import { keyToFilenamePart } from '../utils/KeyDetector';
+import type { DetectedKey } from '../utils/KeyDetector';
+import type { RecordingMetadata } from '../utils/LiveMusicHelper';
+import { channelsOf, createBufferLike, CutCommand, EditHistory } from '../utils/EditHistory';
+import type { EditCommand, Tracks } from '../utils/EditHistory';
+import { LOOP_SNAPS, snapLoopPoints } from '../utils/LoopPoints';
+import { markerCues, MarkerTrackingCommand } from '../utils/markers';
+import type { Marker } from '../utils/markers';
+import type { LoopSnap } from '../utils/LoopPoints';
+import { invalidatePeaks, peaksOf } from '../utils/PeakCache';
+import { getStemSeparators } from '../utils/StemSeparator';
+import type { StemSeparator } from '../utils/StemSeparator';
+import { formatDuration } from '../utils/time';
+import { encodeWav } from '../utils/wav';
+import { createZip } from '../utils/zip';
+
+/** A recorded stem, edited along with the mix. */
+interface Lane {
+    name: string;
+    buffer: AudioBuffer;
+}
+
+/** A loop cut from the take, for the sequencer to play under its drums. */
+export interface SendLoopEventDetail {
+    buffer: AudioBuffer;
+    key: DetectedKey | null;
+    /** The tempo of the take, if known, which the loop's length is a whole number of bars at. */
+    bpm: number | null;
+}
+
+/** The stretch of the take on screen, in seconds. */
+interface View {
+    start: number;
+    duration: number;
+}
+
+type SnapDivision = 'off' | 'bar' | 'beat' | 'eighth' | 'sixteenth';
+
+/** Grid sizes in beats. Bars are 4/4, counted from the start of the take. */
+const SNAP_DIVISIONS: { id: SnapDivision; label: string; beats: number }[] = [
+    { id: 'off', label: 'Off', beats: 0 },
+    { id: 'bar', label: 'Bar', beats: 4 },
+    { id: 'beat', label: 'Beat', beats: 1 },
+    { id: 'eighth', label: '1/8', beats: 0.5 },
+    { id: 'sixteenth', label: '1/16', beats: 0.25 },
+];
+
+const BEATS_PER_BAR = 4;
+const SNAP_KEY = 'editor_snap';
+const LOOP_SNAP_KEY = 'editor_loop_snap';
+/** The closest the view zooms in, in seconds. */
+const MIN_VIEW_DURATION = 0.01;
+/** Zoom per pixel of wheel movement. Trackpad pinches arrive as ctrl+wheel, with smaller deltas. */
+const WHEEL_ZOOM_RATE = 0.002;
+const PINCH_ZOOM_RATE = 0.01;
+/** Zoom per click of the zoom buttons. */
+const ZOOM_STEP = 2;
+/** Ruler labels are at least this many pixels apart. */
+const MIN_LABEL_SPACING = 70;
+/** Jumping back from just past a marker goes to the one before, as it would otherwise stick. */
+const MARKER_JUMP_TOLERANCE = 0.5;
+/** Longest marker label in split filenames. */
+const MAX_FILENAME_LABEL = 40;
+/** Seconds between ruler labels; the closest that leaves room for them is used. */
+const RULER_STEPS = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+function filenamePart(name: string) {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/** The last snap picked in the editor. */
+function loadSnap(): SnapDivision {
+    const saved = localStorage.getItem(SNAP_KEY);
+    return SNAP_DIVISIONS.find(({ id }) => id === saved)?.id ?? 'off';
+}
+
+function loadLoopSnap(): LoopSnap {
+    const saved = localStorage.getItem(LOOP_SNAP_KEY);
+    return LOOP_SNAPS.find(({ id }) => id === saved)?.id ?? 'zero-crossing';
+}
+
+const timeToX = (view: View, time: number, width: number) => ((time - view.start) / view.duration) * width;
+const xToTime = (view: View, x: number, width: number) => view.start + (x / width) * view.duration;
+
+/** m:ss, with as many decimals as labels `step` seconds apart need. */
+function formatRulerTime(seconds: number, step: number) {
+    const decimals = Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+    if (decimals === 0) return formatDuration(Math.round(seconds));
+    const scale = 10 ** decimals;
+    const total = Math.round(seconds * scale);
+    const minutes = Math.floor(total / (60 * scale));
+    const rest = (total - minutes * 60 * scale) / scale;
+    return `${minutes}:${rest.toFixed(decimals).padStart(decimals + 3, '0')}`;
+}
 
 @customElement('audio-editor')
 // FIX: The `AudioEditor` class must extend `LitElement` to be a valid custom element.
@@ -36,7 +136,10 @@ export class AudioEditor extends LitElement {
     }
     .editor-container {
         width: clamp(300px, 90vw, 1200px);
-        height: clamp(200px, 60vh, 500px);
+        height: clamp(360px, 80vh, 700px);
+        &.multitrack {
+            height: clamp(360px, 90vh, 900px);
+        }
         background: var(--bg-color);
         border-radius: 20px;
         box-shadow: var(--neumorph-shadow-outset);
@@ -57,6 +160,79 @@ export class AudioEditor extends LitElement {
         margin: 0;
         font-weight: 500;
     }
+    .take-info {
+        margin-left: 15px;
+        margin-right: auto;
+        font-size: 13px;
+        opacity: 0.6;
+    }
+    .view-bar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        color: #fff;
+        font-size: 13px;
+        button, select, input {
+            font: inherit;
+            color: inherit;
+            background: #2a2a2a;
+            border: 1px solid #444;
+            border-radius: 6px;
+            padding: 2px 10px;
+        }
+        button {
+            cursor: pointer;
+            &:hover:not(:disabled) {
+                border-color: var(--primary-color);
+            }
+        }
+        input[type='number'] {
+            width: 60px;
+        }
+        label {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            opacity: 0.8;
+        }
+        .snap {
+            margin-left: auto;
+        }
+    }
+    .timeline {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+    }
+    .minimap, .ruler {
+        position: relative;
+        background: #111;
+        border-radius: 6px;
+    }
+    .minimap {
+        height: 32px;
+        canvas {
+            cursor: grab;
+        }
+    }
+    .ruler {
+        height: 18px;
+        &.bars {
+            height: 34px;
+        }
+        canvas {
+            cursor: default;
+        }
+    }
+    .tracks {
+        flex-grow: 1;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        min-height: 0;
+        /* Pinches zoom the waveform rather than the page. */
+        touch-action: none;
+    }
     .waveform-container {
         flex-grow: 1;
         position: relative;
@@ -64,7 +240,23 @@ export class AudioEditor extends LitElement {
         border-radius: 10px;
         box-shadow: var(--neumorph-shadow-inset);
     }
-    #waveform-canvas {
+    .lane {
+        flex: 0 0 56px;
+        position: relative;
+        background: #111;
+        border-radius: 6px;
+        box-shadow: var(--neumorph-shadow-inset);
+        .lane-name {
+            position: absolute;
+            top: 4px;
+            left: 8px;
+            color: #fff;
+            font-size: 11px;
+            opacity: 0.7;
+            pointer-events: none;
+        }
+    }
+    canvas {
         position: absolute;
         top: 0;
         left: 0;
@@ -74,6 +266,7 @@ export class AudioEditor extends LitElement {
     }
     .controls {
         display: flex;
+        flex-wrap: wrap;
         justify-content: center;
         align-items: center;
         gap: 15px;
@@ -95,9 +288,12 @@ export class AudioEditor extends LitElement {
     .controls button:hover {
         color: var(--primary-color);
     }
-    .controls button:active {
+    .controls button:active, .controls button.active {
         box-shadow: var(--neumorph-shadow-inset);
     }
+    .controls button.active {
+        color: var(--primary-color);
+    }
     .controls button:disabled {
         opacity: 0.5;
         cursor: not-allowed;
@@ -146,6 +342,7 @@ export class AudioEditor extends LitElement {
     .stem-modal-buttons button {
         min-width: 80px;
         height: 40px;
+        padding: 0 15px;
         border-radius: 10px;
         border: none;
         background: var(--bg-color);
@@ -165,14 +362,32 @@ export class AudioEditor extends LitElement {
     `;
 
     @property({ type: Object }) audioBlob: Blob | null = null;
+    @property({ type: Object }) metadata: RecordingMetadata | null = null;
+    /** Tracks recorded alongside the mix, shown as lanes below it. */
+    @property({ type: Array }) stems: Stem[] = [];
     @query('#waveform-canvas') private canvas!: HTMLCanvasElement;
+    @queryAll('.lane canvas') private laneCanvases!: NodeListOf<HTMLCanvasElement>;
+    @query('#minimap-canvas') private minimap!: HTMLCanvasElement;
+    @query('#ruler-canvas') private ruler!: HTMLCanvasElement;
     
     @state() private audioBuffer: AudioBuffer | null = null;
+    @state() private lanes: Lane[] = [];
     @state() private isPlaying = false;
     @state() private selectionStart: number | null = null;
     @state() private selectionEnd: number | null = null;
     @state() private isLoading = true;
     @state() private isStemModalOpen = false;
+    @state() private isSeparating = false;
+    /** For the bar ruler and snapping. From the session, or typed in. */
+    @state() private bpm: number | null = null;
+    @state() private snap: SnapDivision = loadSnap();
+    /** Start and end of the loop, in seconds. */
+    @state() private loopRegion: [number, number] | null = null;
+    /** Whether playback repeats the loop rather than running through the take. */
+    @state() private isLooping = false;
+    @state() private loopSnap: LoopSnap = loadLoopSnap();
+    /** From the recording, moved along by edits. */
+    @state() private markers: Marker[] = [];
 
     private audioContext!: AudioContext;
     private sourceNode: AudioBufferSourceNode | null = null;
@@ -182,14 +397,26 @@ export class AudioEditor extends LitElement {
     private animationFrameId: number | null = null;
 
     private isDragging = false;
+    private view: View = { start: 0, duration: 0 };
+    /** Restored if a touch selection turns out to be a pinch. */
+    private selectionBeforeDrag: [number | null, number | null] = [null, null];
+    /** Client x of each finger on the waveform. */
+    private touches = new Map<number, number>();
+    private pinch: { distance: number; center: number } | null = null;
+    /** Where in the view the mini-map was grabbed, in seconds, while it's dragged. */
+    private minimapGrab: number | null = null;
+    private previewSource: AudioBufferSourceNode | null = null;
+    private history = new EditHistory();
 
     override connectedCallback(): void {
         super.connectedCallback();
         this.audioContext = new AudioContext();
+        window.addEventListener('keydown', this.handleKeyDown);
     }
     
     override disconnectedCallback(): void {
         super.disconnectedCallback();
+        window.removeEventListener('keydown', this.handleKeyDown);
         this.audioContext.close();
         if (this.animationFrameId) {
             cancelAnimationFrame(this.animationFrameId);
@@ -201,12 +428,22 @@ export class AudioEditor extends LitElement {
             this.isLoading = true;
             const arrayBuffer = await this.audioBlob.arrayBuffer();
             this.audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+            this.lanes = await Promise.all(this.stems.map(async ({ name, blob }) => ({
+                name,
+                buffer: await this.audioContext.decodeAudioData(await blob.arrayBuffer()),
+            })));
             this.isLoading = false;
+            this.bpm = this.metadata?.bpm ?? null;
+            this.markers = this.metadata?.markers ?? [];
+            this.view = this.wholeView;
+            this.history.clear();
             this.resetPlayback();
             this.requestUpdate();
             // Timeout to allow canvas to be rendered
             setTimeout(() => this.draw(), 0);
+            return;
         }
+        this.draw();
     }
 
     private handleClose() {
@@ -215,76 +452,210 @@ export class AudioEditor extends LitElement {
 
     private draw() {
         if (!this.canvas || !this.audioContext) return;
-        const ctx = this.canvas.getContext('2d');
-        if (!ctx) return;
+        this.drawRuler();
+        this.drawMinimap();
 
-        this.canvas.width = this.canvas.clientWidth;
-        this.canvas.height = this.canvas.clientHeight;
-        
-        ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-        
-        if (!this.audioBuffer) return;
-
-        this.drawWaveform(ctx, this.audioBuffer);
-        this.drawSelection(ctx);
-        this.drawPlayhead(ctx);
+        const buffers = this.tracks;
+        [this.canvas, ...this.laneCanvases].forEach((canvas, i) => {
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return;
+            canvas.width = canvas.clientWidth;
+            canvas.height = canvas.clientHeight;
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            if (!buffers[i]) return;
+            this.drawGrid(ctx);
+            this.drawWaveform(ctx, buffers[i], this.view);
+            this.drawLoopRegion(ctx, this.view);
+            this.drawMarkers(ctx, this.view, i === 0);
+            this.drawSelection(ctx, this.view);
+            this.drawPlayhead(ctx, this.view);
+        });
     }
 
-    private drawWaveform(ctx: CanvasRenderingContext2D, buffer: AudioBuffer) {
-        const width = this.canvas.width;
-        const height = this.canvas.height;
+    /** Draws a column per pixel from the buffer's cached peaks, so it's as quick zoomed out as in. */
+    private drawWaveform(ctx: CanvasRenderingContext2D, buffer: AudioBuffer, view: View) {
+        const { width, height } = ctx.canvas;
         const halfHeight = height / 2;
-        const data = buffer.getChannelData(0);
-        const step = Math.ceil(data.length / width);
-        const amp = height / 2;
+        const peaks = peaksOf(buffer);
+        const startFrame = view.start * buffer.sampleRate;
+        const framesPerPixel = (view.duration * buffer.sampleRate) / width;
 
-        ctx.strokeStyle = getComputedStyle(this).getPropertyValue('--primary-color').trim();
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        
+        ctx.fillStyle = getComputedStyle(this).getPropertyValue('--primary-color').trim();
         for (let i = 0; i < width; i++) {
-            let min = 1.0;
-            let max = -1.0;
-            for (let j = 0; j < step; j++) {
-                const datum = data[(i * step) + j];
-                if (datum < min) min = datum;
-                if (datum > max) max = datum;
-            }
-            ctx.moveTo(i + 0.5, halfHeight + min * amp);
-            ctx.lineTo(i + 0.5, halfHeight + max * amp);
+            const range = peaks.range(startFrame + i * framesPerPixel, startFrame + (i + 1) * framesPerPixel);
+            if (!range) continue;
+            const [min, max] = range;
+            const top = halfHeight - max * halfHeight;
+            ctx.fillRect(i, top, 1, Math.max(1, (max - min) * halfHeight));
         }
-        ctx.stroke();
     }
     
-    private drawSelection(ctx: CanvasRenderingContext2D) {
+    private drawSelection(ctx: CanvasRenderingContext2D, view: View) {
         if (this.selectionStart === null || this.selectionEnd === null || !this.audioBuffer) return;
         
-        const startX = (this.selectionStart / this.audioBuffer.duration) * this.canvas.width;
-        const endX = (this.selectionEnd / this.audioBuffer.duration) * this.canvas.width;
+        const startX = timeToX(view, this.selectionStart, ctx.canvas.width);
+        const endX = timeToX(view, this.selectionEnd, ctx.canvas.width);
         
         ctx.fillStyle = 'rgba(61, 255, 171, 0.3)';
-        ctx.fillRect(Math.min(startX, endX), 0, Math.abs(endX - startX), this.canvas.height);
+        ctx.fillRect(Math.min(startX, endX), 0, Math.abs(endX - startX), ctx.canvas.height);
     }
 
-    private drawPlayhead(ctx: CanvasRenderingContext2D) {
+    private drawLoopRegion(ctx: CanvasRenderingContext2D, view: View) {
+        if (!this.loopRegion) return;
+        const [startX, endX] = this.loopRegion.map((time) => timeToX(view, time, ctx.canvas.width));
+        ctx.fillStyle = 'rgba(255, 177, 61, 0.12)';
+        ctx.fillRect(startX, 0, endX - startX, ctx.canvas.height);
+        ctx.fillStyle = 'rgba(255, 177, 61, 0.8)';
+        ctx.fillRect(startX, 0, 1, ctx.canvas.height);
+        ctx.fillRect(endX - 1, 0, 1, ctx.canvas.height);
+    }
+
+    /** A line at each marker, numbered and labelled if `labelled`. */
+    private drawMarkers(ctx: CanvasRenderingContext2D, view: View, labelled: boolean) {
+        const { width, height } = ctx.canvas;
+        ctx.font = '11px sans-serif';
+        ctx.textBaseline = 'top';
+        this.markers.forEach(({ time, label }, i) => {
+            const x = Math.round(timeToX(view, time, width));
+            if (x < 0 || x > width) return;
+            ctx.fillStyle = '#ff5ec4';
+            ctx.fillRect(x, 0, 1, height);
+            if (!labelled) return;
+            const text = `${i + 1} ${label}`;
+            // Clipped at the next marker so labels don't run into each other.
+            const next = this.markers[i + 1];
+            const room = (next ? timeToX(view, next.time, width) : width) - x - 8;
+            if (room < 16) return;
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(x, 0, room + 6, 18);
+            ctx.clip();
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            ctx.fillRect(x + 1, 2, Math.min(room, ctx.measureText(text).width + 8), 15);
+            ctx.fillStyle = '#ff5ec4';
+            ctx.fillText(text, x + 5, 4);
+            ctx.restore();
+        });
+    }
+
+    private drawPlayhead(ctx: CanvasRenderingContext2D, view: View) {
         if (!this.audioBuffer) return;
-        const x = (this.playheadPosition / this.audioBuffer.duration) * this.canvas.width;
+        const x = timeToX(view, this.playheadPosition, ctx.canvas.width);
         ctx.fillStyle = '#fff';
-        ctx.fillRect(x, 0, 1, this.canvas.height);
+        ctx.fillRect(x, 0, 1, ctx.canvas.height);
     }
-    
+
+    /** Faint lines at each beat and stronger ones at each bar, while they're far enough apart to tell. */
+    private drawGrid(ctx: CanvasRenderingContext2D) {
+        if (!this.bpm) return;
+        const { width, height } = ctx.canvas;
+        const beat = 60 / this.bpm;
+        const beatWidth = (beat / this.view.duration) * width;
+        if (beatWidth * BEATS_PER_BAR < 6) return;
+        const end = this.view.start + this.view.duration;
+        for (let i = Math.ceil(this.view.start / beat); i * beat <= end; i++) {
+            const isBar = i % BEATS_PER_BAR === 0;
+            if (!isBar && beatWidth < 6) continue;
+            ctx.fillStyle = isBar ? 'rgba(255, 255, 255, 0.18)' : 'rgba(255, 255, 255, 0.07)';
+            ctx.fillRect(Math.round(timeToX(this.view, i * beat, width)), 0, 1, height);
+        }
+    }
+
+    /** Seconds along the top, and bars and beats below them when the tempo is known. */
+    private drawRuler() {
+        const ctx = this.ruler?.getContext('2d');
+        if (!ctx) return;
+        const { canvas } = ctx;
+        canvas.width = canvas.clientWidth;
+        canvas.height = canvas.clientHeight;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (!this.audioBuffer) return;
+
+        const rowHeight = this.bpm ? canvas.height / 2 : canvas.height;
+        const pixelsPerSecond = canvas.width / this.view.duration;
+        ctx.font = '10px sans-serif';
+        ctx.textBaseline = 'top';
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+
+        const step = RULER_STEPS.find((s) => s * pixelsPerSecond >= MIN_LABEL_SPACING) ?? RULER_STEPS.at(-1)!;
+        this.drawTicks(ctx, step, 0, rowHeight, (time) => formatRulerTime(time, step));
+
+        if (!this.bpm) return;
+        const beat = 60 / this.bpm;
+        // Beats are labelled once there's room; until then bars, doubling up when zoomed far out.
+        let beatsPerLabel = 1;
+        if (beat * pixelsPerSecond < MIN_LABEL_SPACING / 2) {
+            beatsPerLabel = BEATS_PER_BAR;
+            while (beatsPerLabel * beat * pixelsPerSecond < MIN_LABEL_SPACING / 2) beatsPerLabel *= 2;
+        }
+        this.drawTicks(ctx, beatsPerLabel * beat, rowHeight, rowHeight, (time) => {
+            const index = Math.round(time / beat);
+            const bar = Math.floor(index / BEATS_PER_BAR) + 1;
+            return beatsPerLabel < BEATS_PER_BAR ? `${bar}.${(index % BEATS_PER_BAR) + 1}` : String(bar);
+        });
+    }
+
+    /** A labelled tick every `step` seconds across the view, in a row of the ruler. */
+    private drawTicks(ctx: CanvasRenderingContext2D, step: number, top: number, height: number, label: (time: number) => string) {
+        const end = this.view.start + this.view.duration;
+        for (let i = Math.ceil(this.view.start / step); i * step <= end; i++) {
+            const x = Math.round(timeToX(this.view, i * step, ctx.canvas.width));
+            ctx.fillRect(x, top, 1, height);
+            ctx.fillText(label(i * step), x + 3, top + 2);
+        }
+    }
+
+    /** The whole mix, with the part on screen outlined. */
+    private drawMinimap() {
+        const ctx = this.minimap?.getContext('2d');
+        if (!ctx) return;
+        const { canvas } = ctx;
+        canvas.width = canvas.clientWidth;
+        canvas.height = canvas.clientHeight;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (!this.audioBuffer) return;
+
+        const whole = this.wholeView;
+        ctx.globalAlpha = 0.6;
+        this.drawWaveform(ctx, this.audioBuffer, whole);
+        ctx.globalAlpha = 1;
+        this.drawLoopRegion(ctx, whole);
+        this.drawMarkers(ctx, whole, false);
+        this.drawSelection(ctx, whole);
+        this.drawPlayhead(ctx, whole);
+
+        const startX = timeToX(whole, this.view.start, canvas.width);
+        const width = Math.max(2, timeToX(whole, this.view.start + this.view.duration, canvas.width) - startX);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
+        ctx.fillRect(startX, 0, width, canvas.height);
+        ctx.strokeStyle = '#fff';
+        ctx.strokeRect(startX + 0.5, 0.5, width - 1, canvas.height - 1);
+    }
+
     private loop() {
         if (this.isPlaying && this.audioBuffer) {
-            const elapsedTime = this.audioContext.currentTime - this.playbackStartTime;
-            this.playheadPosition = this.playbackTime + elapsedTime;
+            this.playheadPosition = this.playbackPosition;
             if (this.playheadPosition >= this.audioBuffer.duration) {
                 this.stop();
             }
+            // Pages along with the playhead.
+            const { start, duration } = this.view;
+            if (this.playheadPosition < start || this.playheadPosition > start + duration) {
+                this.setView(this.playheadPosition, duration);
+            }
         }
         this.draw();
         this.animationFrameId = requestAnimationFrame(() => this.loop());
     }
 
+    /** Where playback has got to, wrapping round the loop while it loops. */
+    private get playbackPosition() {
+        const position = this.playbackTime + this.audioContext.currentTime - this.playbackStartTime;
+        if (!this.sourceNode?.loop) return position;
+        const { loopStart, loopEnd } = this.sourceNode;
+        return position < loopEnd ? position : loopStart + ((position - loopStart) % (loopEnd - loopStart));
+    }
+
     // Playback controls
     private async playPause() {
         if (this.isPlaying) {
@@ -296,9 +667,18 @@ export class AudioEditor extends LitElement {
     
     private play() {
         if (!this.audioBuffer || this.isPlaying) return;
+        if (this.previewSource) this.stopPreview();
         this.sourceNode = this.audioContext.createBufferSource();
         this.sourceNode.buffer = this.audioBuffer;
         this.sourceNode.connect(this.audioContext.destination);
+        if (this.isLooping && this.loopRegion) {
+            // The source loops by itself, sample for sample, so there's no gap at the seam.
+            const [start, end] = this.loopRegion;
+            this.sourceNode.loop = true;
+            this.sourceNode.loopStart = start;
+            this.sourceNode.loopEnd = end;
+            if (this.playbackTime < start || this.playbackTime >= end) this.playbackTime = start;
+        }
         
         this.playbackStartTime = this.audioContext.currentTime;
         this.sourceNode.start(0, this.playbackTime % this.audioBuffer.duration);
@@ -314,7 +694,7 @@ export class AudioEditor extends LitElement {
 
     private pause() {
         if (!this.isPlaying || !this.sourceNode) return;
-        this.playbackTime += this.audioContext.currentTime - this.playbackStartTime;
+        this.playbackTime = this.playbackPosition;
         this.sourceNode.stop();
         this.sourceNode = null;
         this.isPlaying = false;
@@ -345,69 +725,342 @@ export class AudioEditor extends LitElement {
         this.draw();
     }
 
+    /** Picks up playback again, e.g. to start or stop looping. */
+    private restartPlayback() {
+        if (!this.isPlaying) return;
+        this.pause();
+        this.play();
+    }
+
+    /** Moves the playhead, keeping on playing if it was, and scrolls to it. */
+    private seek(time: number) {
+        const wasPlaying = this.isPlaying;
+        if (wasPlaying) this.pause();
+        this.playbackTime = time;
+        this.playheadPosition = time;
+        if (wasPlaying) this.play();
+        const { start, duration } = this.view;
+        if (time < start || time > start + duration) {
+            this.setView(time - duration / 2, duration);
+        } else {
+            this.draw();
+        }
+    }
+
+    /** Jumps to the next marker, or back to the previous one or the start. */
+    private jumpToMarker(direction: 1 | -1) {
+        const position = this.isPlaying ? this.playbackPosition : this.playheadPosition;
+        if (direction === 1) {
+            const next = this.markers.find(({ time }) => time > position + 0.001);
+            if (next) this.seek(next.time);
+            return;
+        }
+        const tolerance = this.isPlaying ? MARKER_JUMP_TOLERANCE : 0.001;
+        const previous = [...this.markers].reverse().find(({ time }) => time < position - tolerance);
+        this.seek(previous?.time ?? 0);
+    }
+
     private resetPlayback() {
         this.stop();
         this.selectionStart = null;
         this.selectionEnd = null;
+        this.loopRegion = null;
+        this.isLooping = false;
+    }
+
+    // Loop
+    /** Makes the selection the loop, with its ends snapped so it repeats cleanly. */
+    private setLoopFromSelection() {
+        const selection = this.selectionFrames;
+        if (!selection || !this.audioBuffer) return;
+        const { sampleRate } = this.audioBuffer;
+        const [start, end] = snapLoopPoints(this.audioBuffer, ...selection, this.loopSnap);
+        this.loopRegion = [start / sampleRate, end / sampleRate];
+        this.isLooping = true;
+        this.restartPlayback();
+    }
+
+    private toggleLooping() {
+        if (!this.loopRegion) return;
+        this.isLooping = !this.isLooping;
+        this.restartPlayback();
+    }
+
+    private handleLoopSnapChange(e: Event) {
+        this.loopSnap = (e.target as HTMLSelectElement).value as LoopSnap;
+        localStorage.setItem(LOOP_SNAP_KEY, this.loopSnap);
+    }
+
+    /** Hands the loop of the mix to the drum sequencer. */
+    private sendLoop() {
+        if (!this.loopRegion || !this.audioBuffer) return;
+        const { sampleRate } = this.audioBuffer;
+        const [start, end] = this.loopRegion.map((time) => Math.round(time * sampleRate));
+        const buffer = createBufferLike(this.audioBuffer, end - start);
+        channelsOf(this.audioBuffer).forEach((channel, ch) => buffer.getChannelData(ch).set(channel.subarray(start, end)));
+        this.dispatchEvent(new CustomEvent<SendLoopEventDetail>('send-loop', {
+            detail: { buffer, key: this.metadata?.key ?? null, bpm: this.bpm },
+        }));
     }
     
+    // Zoom and scroll
+    private get wholeView(): View {
+        return { start: 0, duration: this.audioBuffer?.duration ?? 0 };
+    }
+
+    private clampViewDuration(duration: number) {
+        const total = this.audioBuffer?.duration ?? 0;
+        return Math.min(total, Math.max(Math.min(MIN_VIEW_DURATION, total), duration));
+    }
+
+    /** Shows `duration` seconds from `start`, kept within the take. */
+    private setView(start: number, duration: number) {
+        duration = this.clampViewDuration(duration);
+        const total = this.audioBuffer?.duration ?? 0;
+        this.view = { start: Math.min(total - duration, Math.max(0, start)), duration };
+        this.draw();
+    }
+
+    /** Zooms out by `factor`, or in below 1, keeping the time at `anchor` where it is on screen. */
+    private zoom(factor: number, anchor = this.view.start + this.view.duration / 2) {
+        const { start, duration } = this.view;
+        const zoomed = this.clampViewDuration(duration * factor);
+        this.setView(anchor - ((anchor - start) / duration) * zoomed, zoomed);
+    }
+
+    private zoomToFit() {
+        this.setView(0, this.wholeView.duration);
+    }
+
+    /** Wheel and trackpad pinch zoom around the pointer; horizontal or shift+wheel scrolls. */
+    private handleWheel(e: WheelEvent) {
+        if (!this.audioBuffer) return;
+        e.preventDefault();
+        const rect = this.canvas.getBoundingClientRect();
+        const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? rect.width : 1;
+        const deltaX = (e.shiftKey ? e.deltaY : e.deltaX) * scale;
+        const deltaY = e.shiftKey ? 0 : e.deltaY * scale;
+        if (e.ctrlKey || Math.abs(deltaY) > Math.abs(deltaX)) {
+            const anchor = xToTime(this.view, e.clientX - rect.left, rect.width);
+            this.zoom(Math.exp(deltaY * (e.ctrlKey ? PINCH_ZOOM_RATE : WHEEL_ZOOM_RATE)), anchor);
+        } else {
+            this.setView(this.view.start + (deltaX / rect.width) * this.view.duration, this.view.duration);
+        }
+    }
+
+    private touchSpan() {
+        const [a, b] = [...this.touches.values()];
+        return { distance: Math.abs(a - b), center: (a + b) / 2 };
+    }
+
+    /** Zooms by how far the fingers spread, and scrolls by how far they moved. */
+    private pinchTo(span: { distance: number; center: number }) {
+        if (!this.pinch) return;
+        const rect = this.canvas.getBoundingClientRect();
+        const anchor = xToTime(this.view, this.pinch.center - rect.left, rect.width);
+        const duration = this.clampViewDuration(this.view.duration * (this.pinch.distance / Math.max(1, span.distance)));
+        this.setView(anchor - ((span.center - rect.left) / rect.width) * duration, duration);
+        this.pinch = span;
+    }
+
+    private minimapTime(e: PointerEvent) {
+        const rect = this.minimap.getBoundingClientRect();
+        return xToTime(this.wholeView, e.clientX - rect.left, rect.width);
+    }
+
+    /** Dragging the outlined view moves it; pressing elsewhere centers it there. */
+    private handleMinimapDown(e: PointerEvent) {
+        if (!this.audioBuffer) return;
+        this.minimap.setPointerCapture(e.pointerId);
+        const time = this.minimapTime(e);
+        const { start, duration } = this.view;
+        this.minimapGrab = time >= start && time <= start + duration ? time - start : duration / 2;
+        this.setView(time - this.minimapGrab, duration);
+    }
+
+    private handleMinimapMove(e: PointerEvent) {
+        if (this.minimapGrab === null) return;
+        this.setView(this.minimapTime(e) - this.minimapGrab, this.view.duration);
+    }
+
+    private handleMinimapUp() {
+        this.minimapGrab = null;
+    }
+
+    private handleBpmChange(e: Event) {
+        const bpm = Number((e.target as HTMLInputElement).value);
+        this.bpm = bpm > 0 ? bpm : null;
+    }
+
+    private handleSnapChange(e: Event) {
+        this.snap = (e.target as HTMLSelectElement).value as SnapDivision;
+        localStorage.setItem(SNAP_KEY, this.snap);
+    }
+
     // Selection and Editing
+    private pointerTime(e: PointerEvent) {
+        const rect = this.canvas.getBoundingClientRect();
+        const time = xToTime(this.view, e.clientX - rect.left, rect.width);
+        return Math.min(this.audioBuffer?.duration ?? 0, Math.max(0, time));
+    }
+
+    /** Rounds to the nearest grid line, unless alt is held or there's no grid. */
+    private snapTime(time: number, e: PointerEvent) {
+        const { beats } = SNAP_DIVISIONS.find(({ id }) => id === this.snap)!;
+        if (!beats || !this.bpm || e.altKey) return time;
+        const grid = (beats * 60) / this.bpm;
+        return Math.min(this.audioBuffer?.duration ?? 0, Math.round(time / grid) * grid);
+    }
+
     private handleCanvasDown(e: PointerEvent) {
         if (!this.audioBuffer) return;
+        if (e.pointerType === 'touch') {
+            this.touches.set(e.pointerId, e.clientX);
+            if (this.touches.size === 2) {
+                // A second finger makes it a pinch, so the first one wasn't selecting.
+                this.isDragging = false;
+                [this.selectionStart, this.selectionEnd] = this.selectionBeforeDrag;
+                this.pinch = this.touchSpan();
+            }
+            if (this.touches.size > 1) return;
+        }
+        this.selectionBeforeDrag = [this.selectionStart, this.selectionEnd];
         this.isDragging = true;
-        const rect = this.canvas.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const time = (x / this.canvas.width) * this.audioBuffer.duration;
+        const time = this.snapTime(this.pointerTime(e), e);
         this.selectionStart = time;
         this.selectionEnd = time;
-        this.requestUpdate();
     }
 
     private handleCanvasMove(e: PointerEvent) {
+        if (this.touches.has(e.pointerId)) {
+            this.touches.set(e.pointerId, e.clientX);
+            if (this.pinch) {
+                this.pinchTo(this.touchSpan());
+                return;
+            }
+        }
         if (!this.isDragging || !this.audioBuffer) return;
-        const rect = this.canvas.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        this.selectionEnd = (x / this.canvas.width) * this.audioBuffer.duration;
-        this.requestUpdate();
+        this.selectionEnd = this.snapTime(this.pointerTime(e), e);
     }
 
-    private handleCanvasUp() {
+    private handleCanvasUp(e: PointerEvent) {
+        this.touches.delete(e.pointerId);
+        if (this.touches.size < 2) this.pinch = null;
         this.isDragging = false;
     }
     
+    /** The selection in frames, or null if nothing is selected. */
+    private get selectionFrames(): [number, number] | null {
+        if (!this.audioBuffer || this.selectionStart === null || this.selectionEnd === null) return null;
+        const { sampleRate, length } = this.audioBuffer;
+        const start = Math.max(0, Math.floor(Math.min(this.selectionStart, this.selectionEnd) * sampleRate));
+        const end = Math.min(length, Math.floor(Math.max(this.selectionStart, this.selectionEnd) * sampleRate));
+        return end > start ? [start, end] : null;
+    }
+
     private cutSelection() {
-        if (!this.audioBuffer || this.selectionStart === null || this.selectionEnd === null) return;
-        
+        const selection = this.selectionFrames;
+        if (!selection) return;
+        const [start, end] = selection;
+        // An AudioBuffer can't be empty, so at least a frame has to stay.
+        if (end - start >= this.audioBuffer!.length) return;
+        this.applyEdit(new CutCommand(start, end));
+    }
+
+    /** Plays the selection as the edit would leave it, or stops the preview. */
+    private handleEditPreview(e: CustomEvent<EditOperation>) {
+        const selection = this.selectionFrames;
+        if (this.previewSource) {
+            this.stopPreview();
+            return;
+        }
+        if (!selection || !this.audioBuffer) return;
         this.stop();
+        const source = this.audioContext.createBufferSource();
+        source.buffer = renderPreview(this.audioBuffer, e.detail, ...selection);
+        source.connect(this.audioContext.destination);
+        source.onended = () => {
+            if (this.previewSource === source) this.stopPreview();
+        };
+        source.start();
+        this.previewSource = source;
+        this.requestUpdate();
+    }
 
-        const start = Math.min(this.selectionStart, this.selectionEnd);
-        const end = Math.max(this.selectionEnd, this.selectionEnd);
+    private stopPreview() {
+        this.previewSource?.stop();
+        this.previewSource = null;
+        this.requestUpdate();
+    }
 
-        const originalBuffer = this.audioBuffer;
-        const { sampleRate, numberOfChannels, length } = originalBuffer;
-        
-        const startSample = Math.floor(start * sampleRate);
-        const endSample = Math.floor(end * sampleRate);
+    private handleEditApply(e: CustomEvent<EditOperation>) {
+        const selection = this.selectionFrames;
+        if (!selection) return;
+        this.applyEdit(createEditCommand(e.detail, ...selection));
+    }
+
+    // Edit history
+    /** The mix and lanes, as edits see them. */
+    private get tracks(): Tracks {
+        return this.audioBuffer ? [this.audioBuffer, ...this.lanes.map(({ buffer }) => buffer)] : [];
+    }
+
+    private set tracks([mix, ...lanes]: Tracks) {
+        this.audioBuffer = mix;
+        this.lanes = this.lanes.map(({ name }, i) => ({ name, buffer: lanes[i] }));
+    }
+
+    private applyEdit(command: EditCommand) {
+        if (!this.audioBuffer) return;
+        const tracked = new MarkerTrackingCommand(command, this.audioBuffer.sampleRate, () => this.markers, (markers) => {
+            this.markers = markers;
+        });
+        this.updateTracks(this.history.execute(this.tracks, tracked));
+    }
 
-        const newLength = length - (endSample - startSample);
-        if (newLength <= 0) {
-            this.audioBuffer = null;
+    private undo() {
+        if (!this.history.canUndo) return;
+        this.updateTracks(this.history.undo(this.tracks));
+    }
+
+    private redo() {
+        if (!this.history.canRedo) return;
+        this.updateTracks(this.history.redo(this.tracks));
+    }
+
+    /** Takes the edited tracks. The selection stays unless the edit moved the audio under it. */
+    private updateTracks(tracks: Tracks) {
+        const lengthChanged = tracks[0].length !== this.audioBuffer?.length;
+        this.stopPreview();
+        // Region edits change samples in place, so the peaks drawn from them are stale either way.
+        tracks.forEach(invalidatePeaks);
+        this.tracks = tracks;
+        if (lengthChanged) {
+            this.resetPlayback();
+            this.setView(this.view.start, this.view.duration);
         } else {
-            const newBuffer = this.audioContext.createBuffer(numberOfChannels, newLength, sampleRate);
-            for (let i = 0; i < numberOfChannels; i++) {
-                const oldChannelData = originalBuffer.getChannelData(i);
-                const newChannelData = newBuffer.getChannelData(i);
-                newChannelData.set(oldChannelData.subarray(0, startSample), 0);
-                newChannelData.set(oldChannelData.subarray(endSample), startSample);
-            }
-            this.audioBuffer = newBuffer;
+            this.stop();
         }
-        
-        this.resetPlayback();
         this.requestUpdate();
         setTimeout(() => this.draw(), 0);
     }
-    
+
+    private handleKeyDown = (e: KeyboardEvent) => {
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        if ((e.key === '[' || e.key === ']') && !(e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            this.jumpToMarker(e.key === ']' ? 1 : -1);
+            return;
+        }
+        if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+        e.preventDefault();
+        if (e.shiftKey) {
+            this.redo();
+        } else {
+            this.undo();
+        }
+    };
+
     // Download Modal
     private openStemModal() {
         if (this.audioBuffer) {
@@ -415,83 +1068,96 @@ export class AudioEditor extends LitElement {
         }
     }
 
-    private handleStemSplitChoice(shouldSplit: boolean) {
-        this.isStemModalOpen = false;
-        if (shouldSplit) {
+    /** Without a separator, splitting exports the recorded lanes. */
+    private async handleStemSplitChoice(shouldSplit: boolean, separator?: StemSeparator) {
+        if (!shouldSplit) {
+            this.isStemModalOpen = false;
+            this.downloadWav();
+            return;
+        }
+        if (!separator) {
+            this.isStemModalOpen = false;
+            await this.downloadStems(this.lanes);
+            return;
+        }
+        if (!this.audioBuffer) return;
+        this.isSeparating = true;
+        try {
+            // Let "Separating…" render before the work starts.
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            await this.downloadStems(await separator.separate(this.audioBuffer));
+            this.isStemModalOpen = false;
+        } catch (e) {
             this.dispatchEvent(new CustomEvent('error', {
-                detail: 'Stem splitting is not yet supported.',
+                detail: `Unable to split stems: ${(e as Error).message}`,
                 bubbles: true,
                 composed: true,
             }));
-        } else {
-            this.downloadWav();
+        } finally {
+            this.isSeparating = false;
         }
     }
 
+    private get wavInfo(): Record<string, string> {
+        const key = this.metadata?.key;
+        return key ? { ICMT: `Key: ${key.label}` } : {};
+    }
+
+    private get filenameBase() {
+        const key = this.metadata?.key;
+        return key ? `prompt-dj-recording-${keyToFilenamePart(key)}` : 'prompt-dj-recording';
+    }
+
+    /** The markers, as cue points of WAVs the length of the take. */
+    private get wavCues() {
+        return this.audioBuffer ? markerCues(this.markers, this.audioBuffer.sampleRate) : [];
+    }
+
     private downloadWav() {
         if (!this.audioBuffer) return;
+        this.download(encodeWav(this.audioBuffer, { info: this.wavInfo, cues: this.wavCues }), `${this.filenameBase}.wav`);
+    }
 
-        // Convert AudioBuffer to WAV
-        const buffer = this.audioBuffer;
-        const numOfChan = buffer.numberOfChannels,
-            len = buffer.length * numOfChan * 2 + 44;
-        const bufferWav = new ArrayBuffer(len);
-        const view = new DataView(bufferWav);
-        const channels = [];
-        let i, sample, pos = 0;
-
-        // write WAV header
-        this.setUint32(view, pos, 0x46464952); // "RIFF"
-        pos += 4;
-        this.setUint32(view, pos, len - 8); // file length - 8
-        pos += 4;
-        this.setUint32(view, pos, 0x45564157); // "WAVE"
-        pos += 4;
-        this.setUint32(view, pos, 0x20746d66); // "fmt " chunk
-        pos += 4;
-        this.setUint32(view, pos, 16); // length of fmt chunk
-        pos += 4;
-        this.setUint16(view, pos, 1); // PCM format
-        pos += 2;
-        this.setUint16(view, pos, numOfChan);
-        pos += 2;
-        this.setUint32(view, pos, buffer.sampleRate);
-        pos += 4;
-        this.setUint32(view, pos, buffer.sampleRate * 2 * numOfChan); // byte rate
-        pos += 4;
-        this.setUint16(view, pos, numOfChan * 2); // block align
-        pos += 2;
-        this.setUint16(view, pos, 16); // bits per sample
-        pos += 2;
-        this.setUint32(view, pos, 0x61746164); // "data" chunk
-        pos += 4;
-        this.setUint32(view, pos, len - pos - 4); // data length
-        pos += 4;
-
-        // write interleaved data
-        for (i = 0; i < buffer.numberOfChannels; i++)
-            channels.push(buffer.getChannelData(i));
-
-        for (i = 0; i < buffer.length; i++) {
-            for (let ch = 0; ch < numOfChan; ch++) {
-                sample = Math.max(-1, Math.min(1, channels[ch][i]));
-                sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-                view.setInt16(pos, sample, true);
-                pos += 2;
-            }
-        }
-        
-        const blob = new Blob([view], { type: 'audio/wav' });
+    /** A zip with each stem as its own WAV. */
+    private async downloadStems(stems: Lane[]) {
+        const zip = await createZip(stems.map(({ name, buffer }) => ({
+            name: `${this.filenameBase}-${filenamePart(name)}.wav`,
+            data: encodeWav(buffer, { info: { ...this.wavInfo, INAM: name }, cues: this.wavCues }),
+        })));
+        this.download(zip, `${this.filenameBase}-stems.zip`);
+    }
+
+    /** A zip of the mix cut at each marker, each part named after the marker it starts at. */
+    private async splitAtMarkers() {
+        if (!this.audioBuffer || !this.markers.length) return;
+        const { sampleRate, length } = this.audioBuffer;
+        const points = this.markers
+            .map(({ time, label }) => ({ frame: Math.round(time * sampleRate), label }))
+            .filter(({ frame }) => frame >= 0 && frame < length);
+        if (!points.length || points[0].frame > 0) points.unshift({ frame: 0, label: 'Start' });
+        const parts = points
+            .map(({ frame, label }, i) => ({ start: frame, end: points[i + 1]?.frame ?? length, label }))
+            .filter(({ start, end }) => end > start);
+        const zip = await createZip(parts.map(({ start, end, label }, i) => {
+            const part = createBufferLike(this.audioBuffer!, end - start);
+            channelsOf(this.audioBuffer!).forEach((channel, ch) => part.getChannelData(ch).set(channel.subarray(start, end)));
+            const name = filenamePart(label).slice(0, MAX_FILENAME_LABEL).replace(/-$/, '') || 'part';
+            return {
+                name: `${this.filenameBase}-${String(i + 1).padStart(2, '0')}-${name}.wav`,
+                data: encodeWav(part, { info: { ...this.wavInfo, INAM: label } }),
+            };
+        }));
+        this.download(zip, `${this.filenameBase}-parts.zip`);
+    }
+
+    private download(blob: Blob, filename: string) {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = 'prompt-dj-recording.wav';
+        a.download = filename;
         a.click();
         URL.revokeObjectURL(url);
     }
-    
-    private setUint16(view: DataView, offset: number, val: number) { view.setUint16(offset, val, true); }
-    private setUint32(view: DataView, offset: number, val: number) { view.setUint32(offset, val, true); }
 
     // SVG Icons
     private rewindIcon = svg`<svg viewBox="0 0 24 24"><path d="M11 18V6l-8.5 6 8.5 6zm.5-6 8.5 6V6l-8.5 6z"/></svg>`;
@@ -499,6 +1165,13 @@ export class AudioEditor extends LitElement {
     private pauseIcon = svg`<svg viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>`;
     private stopIcon = svg`<svg viewBox="0 0 24 24"><path d="M6 6h12v12H6z"/></svg>`;
     private cutIcon = svg`<svg viewBox="0 0 24 24"><path d="M6 17.59 7.41 19 12 14.42 16.59 19 18 17.59 13.42 13 18 8.41 16.59 7 12 11.58 7.41 7 6 8.41 10.58 13z"/></svg>`;
+    private undoIcon = svg`<svg viewBox="0 0 24 24"><path d="M12.5 8c-2.65 0-5.05.99-6.9 2.6L2 7v9h9l-3.62-3.62c1.39-1.16 3.16-1.88 5.12-1.88 3.54 0 6.55 2.31 7.6 5.5l2.37-.78C21.08 11.03 17.15 8 12.5 8z"/></svg>`;
+    private redoIcon = svg`<svg viewBox="0 0 24 24"><path d="M18.4 10.6C16.55 8.99 14.15 8 11.5 8c-4.65 0-8.58 3.03-9.96 7.22L3.9 16c1.05-3.19 4.05-5.5 7.6-5.5 1.95 0 3.73.72 5.12 1.88L13 16h9V7l-3.6 3.6z"/></svg>`;
+    private previousMarkerIcon = svg`<svg viewBox="0 0 24 24"><path d="M6 6h2v12H6zm3.5 6 8.5 6V6z"/></svg>`;
+    private nextMarkerIcon = svg`<svg viewBox="0 0 24 24"><path d="m6 18 8.5-6L6 6v12zM16 6v12h2V6h-2z"/></svg>`;
+    private splitIcon = svg`<svg viewBox="0 0 24 24"><path d="M11 2h2v20h-2zM3 7h6v10H3zm12 0h6v10h-6z"/></svg>`;
+    private loopIcon = svg`<svg viewBox="0 0 24 24"><path d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4z"/></svg>`;
+    private sendIcon = svg`<svg viewBox="0 0 24 24"><path d="M2.01 21 23 12 2.01 3 2 10l15 2-15 2z"/></svg>`;
     private downloadIcon = svg`<svg viewBox="0 0 24 24"><path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z"/></svg>`;
 
     private renderStemModal() {
@@ -506,39 +1179,101 @@ export class AudioEditor extends LitElement {
             <div class="stem-modal-overlay">
                 <div class="stem-modal-container">
                     <h2>Split Stems?</h2>
-                    <p>This would export the track as separate audio files (e.g., drums, bass, melody).</p>
-                    <div class="stem-modal-buttons">
-                        <button @click=${() => this.handleStemSplitChoice(true)}>Yes</button>
-                        <button @click=${() => this.handleStemSplitChoice(false)}>No, just the mix</button>
-                    </div>
+                    ${this.isSeparating ? html`<p>Separating…</p>` : html`
+                        <p>This exports a zip with each stem as its own WAV: ${this.lanes.length
+                            ? `the recorded tracks (${this.lanes.map(({ name }) => name).join(', ')}), or `
+                            : ''}the mix split into ${getStemSeparators().map(({ stems }) => stems.join(', ')).join(' or ')}.</p>
+                        <div class="stem-modal-buttons">
+                            ${this.lanes.length ? html`<button @click=${() => this.handleStemSplitChoice(true)}>Recorded tracks</button>` : ''}
+                            ${getStemSeparators().map((separator) => html`<button @click=${() => this.handleStemSplitChoice(true, separator)}>${separator.label}</button>`)}
+                            <button @click=${() => this.handleStemSplitChoice(false)}>No, just the mix</button>
+                        </div>
+                    `}
                 </div>
             </div>
         `;
     }
 
+    private renderTakeInfo() {
+        if (!this.metadata) return '';
+        const format = RECORDING_FORMATS.find(({ id }) => id === this.metadata!.format);
+        const details = [this.metadata.key?.label, format?.label].filter(Boolean);
+        return html`<span class="take-info">${details.join(' · ')}</span>`;
+    }
+
     override render() {
         return html`
             <div class="modal-overlay">
-                <div class="editor-container">
+                <div class="editor-container ${this.lanes.length ? 'multitrack' : ''}">
                     <div class="header">
                         <h2>Audio Editor</h2>
+                        ${this.renderTakeInfo()}
                         <button @click=${this.handleClose} style="width: 30px; height: 30px; font-size: 16px;">✕</button>
                     </div>
-                    <div class="waveform-container" 
+                    <div class="view-bar">
+                        <button @click=${() => this.zoom(1 / ZOOM_STEP)} title="Zoom in (wheel or pinch)" .disabled=${!this.audioBuffer}>+</button>
+                        <button @click=${() => this.zoom(ZOOM_STEP)} title="Zoom out" .disabled=${!this.audioBuffer}>−</button>
+                        <button @click=${this.zoomToFit} title="Show the whole take" .disabled=${!this.audioBuffer}>Fit</button>
+                        <button @click=${this.setLoopFromSelection} title="Loop the selection" .disabled=${!this.selectionFrames}>Set loop</button>
+                        <label title="Where the ends of a new loop are moved to">Loop snap
+                            <select @change=${this.handleLoopSnapChange}>
+                                ${LOOP_SNAPS.map(({ id, label }) => html`<option value=${id} ?selected=${id === this.loopSnap}>${label}</option>`)}
+                            </select>
+                        </label>
+                        <label class="snap">BPM
+                            <input type="number" min="1" step="0.1" placeholder="--" .value=${this.bpm ? String(this.bpm) : ''} @change=${this.handleBpmChange} />
+                        </label>
+                        <label title="Hold Alt while selecting to ignore the grid">Snap
+                            <select .disabled=${!this.bpm} @change=${this.handleSnapChange}>
+                                ${SNAP_DIVISIONS.map(({ id, label }) => html`<option value=${id} ?selected=${id === this.snap}>${label}</option>`)}
+                            </select>
+                        </label>
+                    </div>
+                    <div class="timeline">
+                        <div class="minimap">
+                            <canvas id="minimap-canvas"
+                                @pointerdown=${this.handleMinimapDown}
+                                @pointermove=${this.handleMinimapMove}
+                                @pointerup=${this.handleMinimapUp}></canvas>
+                        </div>
+                        <div class="ruler ${this.bpm ? 'bars' : ''}">
+                            <canvas id="ruler-canvas"></canvas>
+                        </div>
+                    </div>
+                    <div class="tracks"
+                        @wheel=${this.handleWheel}
                         @pointerdown=${this.handleCanvasDown}
                         @pointermove=${this.handleCanvasMove}
                         @pointerup=${this.handleCanvasUp}
                         @pointerleave=${this.handleCanvasUp}>
-                        <canvas id="waveform-canvas"></canvas>
-                        ${this.isLoading ? html`<div style="position:absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); color: #fff;">Loading Audio...</div>` : ''}
+                        <div class="waveform-container">
+                            <canvas id="waveform-canvas"></canvas>
+                            ${this.isLoading ? html`<div style="position:absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); color: #fff;">Loading Audio...</div>` : ''}
+                        </div>
+                        ${this.lanes.map(({ name }) => html`<div class="lane">
+                            <canvas></canvas>
+                            <span class="lane-name">${name}</span>
+                        </div>`)}
                     </div>
                     <div class="controls">
                          <button @click=${this.rewind} title="Rewind to Start" .disabled=${!this.audioBuffer}>${this.rewindIcon}</button>
                          <button @click=${this.playPause} title=${this.isPlaying ? 'Pause' : 'Play'} .disabled=${!this.audioBuffer}>${this.isPlaying ? this.pauseIcon : this.playIcon}</button>
                          <button @click=${this.stop} title="Stop" .disabled=${!this.audioBuffer}>${this.stopIcon}</button>
+                         <button @click=${this.toggleLooping} class=${this.isLooping ? 'active' : ''} title="Loop Playback" .disabled=${!this.loopRegion}>${this.loopIcon}</button>
+                         <button @click=${this.sendLoop} title="Send Loop to the Sequencer" .disabled=${!this.loopRegion}>${this.sendIcon}</button>
+                         <button @click=${() => this.jumpToMarker(-1)} title="Previous Marker ([)" .disabled=${!this.audioBuffer}>${this.previousMarkerIcon}</button>
+                         <button @click=${() => this.jumpToMarker(1)} title="Next Marker (])" .disabled=${!this.markers.length}>${this.nextMarkerIcon}</button>
+                         <button @click=${this.splitAtMarkers} title="Split at Markers" .disabled=${!this.markers.length}>${this.splitIcon}</button>
                          <button @click=${this.cutSelection} title="Cut Selection" .disabled=${this.selectionStart === null}>${this.cutIcon}</button>
+                         <button @click=${this.undo} title=${`Undo ${this.history.undoLabel ?? ''}`.trim() + ' (Ctrl+Z)'} .disabled=${!this.history.canUndo}>${this.undoIcon}</button>
+                         <button @click=${this.redo} title=${`Redo ${this.history.redoLabel ?? ''}`.trim() + ' (Ctrl+Shift+Z)'} .disabled=${!this.history.canRedo}>${this.redoIcon}</button>
                          <button @click=${this.openStemModal} title="Download WAV" .disabled=${!this.audioBuffer}>${this.downloadIcon}</button>
                     </div>
+                    <edit-tools
+                        .disabled=${!this.selectionFrames}
+                        .previewing=${this.previewSource !== null}
+                        @edit-preview=${this.handleEditPreview}
+                        @edit-apply=${this.handleEditApply}></edit-tools>
                     ${this.isStemModalOpen ? this.renderStemModal() : ''}
                 </div>
             </div>
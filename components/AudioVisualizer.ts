@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+
+import { BANDS, SPECTROGRAM_BINS, SPECTROGRAM_HISTORY } from '../utils/AudioAnalyser';
+import type { AudioAnalyser } from '../utils/AudioAnalyser';
+
+export type VisualizerMode = 'bands' | 'scope' | 'spectrogram';
+
+const BAND_COLORS = ['#9900ff', '#ff3355', '#ffaa00', '#1affff'];
+
+/** Maps a byte magnitude to RGB: black, through purple and red, to pale yellow. */
+function createPalette() {
+  const stops = [[0, 0, 0], [80, 0, 140], [255, 40, 80], [255, 170, 0], [255, 255, 200]];
+  const palette = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - index;
+    for (let c = 0; c < 3; c++) {
+      palette[i * 3 + c] = stops[index][c] + (stops[index + 1][c] - stops[index][c]) * t;
+    }
+  }
+  return palette;
+}
+
+/** Draws AudioAnalyser's band energies, scope or spectrogram on a full-size canvas. */
+@customElement('audio-visualizer')
+export class AudioVisualizer extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background: #111;
+    }
+    canvas {
+      width: 100%;
+      height: 100%;
+      display: block;
+    }
+  `;
+
+  @property({ type: Object }) analyser: AudioAnalyser | null = null;
+  @property({ type: String }) mode: VisualizerMode = 'bands';
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+
+  private readonly palette = createPalette();
+  private spectrogramCanvas: HTMLCanvasElement | null = null;
+  private spectrogramImage: ImageData | null = null;
+  private resizeObserver = new ResizeObserver(() => this.resizeCanvas());
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.resizeObserver.disconnect();
+    this.analyser?.removeEventListener('analysis-updated', this.draw);
+  }
+
+  override firstUpdated() {
+    this.resizeObserver.observe(this);
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('analyser')) {
+      const previous = changedProperties.get('analyser') as AudioAnalyser | null | undefined;
+      previous?.removeEventListener('analysis-updated', this.draw);
+      this.analyser?.addEventListener('analysis-updated', this.draw);
+    }
+    super.update(changedProperties);
+  }
+
+  override updated() {
+    this.draw();
+  }
+
+  private resizeCanvas() {
+    const ratio = window.devicePixelRatio;
+    this.canvas.width = Math.round(this.clientWidth * ratio);
+    this.canvas.height = Math.round(this.clientHeight * ratio);
+    this.draw();
+  }
+
+  private draw = () => {
+    const ctx = this.canvas?.getContext('2d');
+    if (!ctx || !this.analyser) return;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    switch (this.mode) {
+      case 'bands':
+        return this.drawBands(ctx);
+      case 'scope':
+        return this.drawScope(ctx);
+      case 'spectrogram':
+        return this.drawSpectrogram(ctx);
+    }
+  };
+
+  /** One glowing column per band, rising from the bottom. */
+  private drawBands(ctx: CanvasRenderingContext2D) {
+    const { width, height } = this.canvas;
+    const columnWidth = width / BANDS.length;
+    BANDS.forEach(({ name }, i) => {
+      const energy = this.analyser!.bands[name];
+      const top = height * (1 - energy);
+      const gradient = ctx.createLinearGradient(0, height, 0, top);
+      gradient.addColorStop(0, `${BAND_COLORS[i]}aa`);
+      gradient.addColorStop(1, `${BAND_COLORS[i]}00`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(i * columnWidth, top, columnWidth, height - top);
+    });
+  }
+
+  private drawScope(ctx: CanvasRenderingContext2D) {
+    const { width, height } = this.canvas;
+    const { scope } = this.analyser!;
+    ctx.lineWidth = 2 * window.devicePixelRatio;
+    ctx.strokeStyle = '#1affff';
+    ctx.shadowColor = '#1affff';
+    ctx.shadowBlur = 12;
+    ctx.beginPath();
+    for (let i = 0; i < scope.length; i++) {
+      const x = (i / (scope.length - 1)) * width;
+      const y = (0.5 - scope[i] / 2) * height;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  }
+
+  /** Time runs left to right and frequency bottom to top, scaled up from one pixel per bin. */
+  private drawSpectrogram(ctx: CanvasRenderingContext2D) {
+    if (!this.spectrogramCanvas) {
+      this.spectrogramCanvas = document.createElement('canvas');
+      this.spectrogramCanvas.width = SPECTROGRAM_HISTORY;
+      this.spectrogramCanvas.height = SPECTROGRAM_BINS;
+      this.spectrogramImage = new ImageData(SPECTROGRAM_HISTORY, SPECTROGRAM_BINS);
+    }
+    const image = this.spectrogramImage!;
+    this.analyser!.spectrogram.forEach((column, x) => {
+      for (let row = 0; row < SPECTROGRAM_BINS; row++) {
+        const offset = ((SPECTROGRAM_BINS - 1 - row) * SPECTROGRAM_HISTORY + x) * 4;
+        const color = column[row] * 3;
+        image.data[offset] = this.palette[color];
+        image.data[offset + 1] = this.palette[color + 1];
+        image.data[offset + 2] = this.palette[color + 2];
+        image.data[offset + 3] = 0xff;
+      }
+    });
+    this.spectrogramCanvas.getContext('2d')!.putImageData(image, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(this.spectrogramCanvas, 0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  override render() {
+    return html`<canvas></canvas>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'audio-visualizer': AudioVisualizer;
+  }
+}
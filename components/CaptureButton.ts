@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { ControlChange } from '../utils/types';
+
+/** Capture lengths offered in the context menu, in seconds. */
+const CAPTURE_LENGTHS = [30, 60, 120, 300, 600];
+
+/** Mapped after the crossfader by default. */
+const DEFAULT_CAPTURE_CC = 25;
+
+function formatLength(seconds: number) {
+  return seconds < 60 ? `${seconds}s` : `${seconds / 60}m`;
+}
+
+/**
+ * Keeps the last few minutes of the master output. Clicking, or a MIDI CC
+ * press, dispatches `capture`; right-clicking picks the length, dispatching
+ * `capture-length-changed` with the new length in seconds.
+ */
+@customElement('capture-button')
+export class CaptureButton extends LitElement {
+  static override styles = css`
+    :host {
+      position: relative;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    #capture {
+      height: 7vmin;
+      padding: 0 2vmin;
+      border-radius: 3.5vmin;
+      border: none;
+      cursor: pointer;
+      background: #212121;
+      color: #fff;
+      font: inherit;
+      font-size: 2vmin;
+      font-weight: 600;
+      box-shadow:
+        -5px -5px 10px rgba(255, 255, 255, 0.08),
+        5px 5px 10px rgba(0, 0, 0, 0.5);
+      transition: box-shadow 0.1s ease-in-out;
+      &:hover {
+        box-shadow:
+          -2px -2px 5px rgba(255, 255, 255, 0.08),
+          2px 2px 5px rgba(0, 0, 0, 0.5);
+      }
+      &:active, &:disabled {
+        box-shadow: inset -5px -5px 10px rgba(255, 255, 255, 0.08),
+                  inset 5px 5px 10px rgba(0, 0, 0, 0.5);
+      }
+      &:disabled {
+        opacity: 0.5;
+        cursor: wait;
+      }
+      .length {
+        opacity: 0.6;
+        font-weight: 400;
+      }
+    }
+    #menu {
+      position: absolute;
+      bottom: calc(100% + 1vmin);
+      display: flex;
+      flex-direction: column;
+      padding: 0.5vmin;
+      background: #212121;
+      border-radius: 8px;
+      box-shadow: 5px 5px 10px rgba(0, 0, 0, 0.5);
+      z-index: 10;
+      button {
+        white-space: nowrap;
+        text-align: left;
+        border: none;
+        background: none;
+        color: #fff;
+        font: inherit;
+        font-size: 1.5vmin;
+        padding: 0.6vmin 1.2vmin;
+        border-radius: 4px;
+        cursor: pointer;
+        &:hover {
+          background: #fff2;
+        }
+        &.active {
+          color: #3dffab;
+        }
+      }
+    }
+    #midi {
+      position: absolute;
+      top: 100%;
+      color: #fff;
+      font-family: monospace;
+      font-size: 1.3vmin;
+      border: 0.2vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 1px 4px;
+      background: #0006;
+      cursor: pointer;
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+  /** Seconds of audio kept. */
+  @property({ type: Number }) length = 120;
+  /** Set while a capture is being prepared. */
+  @property({ type: Boolean }) busy = false;
+
+  @state() private cc = DEFAULT_CAPTURE_CC;
+  @state() private learnMode = false;
+  @state() private isMenuOpen = false;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('cc-message', this.handleCC);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.handleCC);
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learnMode = false;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleCC = (e: Event) => {
+    const { cc, value } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learnMode) {
+      this.cc = cc;
+      this.learnMode = false;
+    } else if (cc === this.cc && value >= 64) {
+      // On press, so momentary buttons work.
+      this.capture();
+    }
+  };
+
+  private capture() {
+    if (this.busy) return;
+    this.isMenuOpen = false;
+    this.dispatchEvent(new CustomEvent('capture'));
+  }
+
+  private openMenu(e: Event) {
+    e.preventDefault();
+    this.isMenuOpen = !this.isMenuOpen;
+  }
+
+  private selectLength(seconds: number) {
+    this.isMenuOpen = false;
+    this.dispatchEvent(new CustomEvent<number>('capture-length-changed', { detail: seconds }));
+  }
+
+  override render() {
+    return html`
+      ${this.isMenuOpen ? html`<div id="menu" @pointerleave=${() => { this.isMenuOpen = false; }}>
+        ${CAPTURE_LENGTHS.map((seconds) => html`<button
+          class=${classMap({ active: seconds === this.length })}
+          @click=${() => this.selectLength(seconds)}>Last ${formatLength(seconds)}</button>`)}
+      </div>` : ''}
+      <button
+        id="capture"
+        .disabled=${this.busy}
+        @click=${this.capture}
+        @contextmenu=${this.openMenu}
+        title=${`Open the last ${formatLength(this.length)} in the editor. Right-click to change the length.`}>
+        CAPTURE <span class="length">${formatLength(this.length)}</span>
+      </button>
+      ${this.showCC ? html`<span
+        id="midi"
+        class=${classMap({ 'learn-mode': this.learnMode })}
+        @click=${() => { this.learnMode = !this.learnMode; }}>
+        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      </span>` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'capture-button': CaptureButton;
+  }
+}
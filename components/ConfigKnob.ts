@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './WeightKnob';
+import type { WeightKnob } from './WeightKnob';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { ControlChange } from '../utils/types';
+
+export interface ConfigKnobChange {
+  key: string;
+  value: number | null;
+  cc: number;
+}
+
+/** The WeightKnob's native range, which is mapped onto [min, max]. */
+const KNOB_MAX = 2;
+
+/**
+ * A MIDI-learnable knob for a single numeric parameter. A `null` value means
+ * the parameter is unset and left to its default ("Auto").
+ */
+@customElement('config-knob')
+export class ConfigKnob extends LitElement {
+  static override styles = css`
+    .knob {
+      width: 100%;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 0.3vmin;
+    }
+    weight-knob {
+      width: 70%;
+      flex-shrink: 0;
+    }
+    #label {
+      font-weight: 500;
+      font-size: 1.4vmin;
+      color: #fff;
+      cursor: pointer;
+      user-select: none;
+      text-transform: uppercase;
+      -webkit-font-smoothing: antialiased;
+    }
+    #value {
+      font-family: monospace;
+      font-size: 1.4vmin;
+      color: #fff;
+      background: #000;
+      border-radius: 0.25vmin;
+      padding: 0.1em 0.3em;
+      white-space: nowrap;
+      .pending & {
+        background: orange;
+        color: #000;
+      }
+    }
+    .reset-flag {
+      color: orange;
+    }
+    #midi {
+      font-family: monospace;
+      text-align: center;
+      font-size: 1.3vmin;
+      border: 0.2vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 1px 4px;
+      color: #fff;
+      background: #0006;
+      cursor: pointer;
+      visibility: hidden;
+      user-select: none;
+      .learn-mode & {
+        color: orange;
+        border-color: orange;
+      }
+      .show-cc & {
+        visibility: visible;
+      }
+    }
+  `;
+
+  @property({ type: String }) key = '';
+  @property({ type: String }) label = '';
+  @property({ type: Number }) value: number | null = null;
+  @property({ type: Number }) min = 0;
+  @property({ type: Number }) max = 1;
+  /** Quantization step; 0 means continuous. */
+  @property({ type: Number }) step = 0;
+  @property({ type: String }) color = '#fff';
+
+  /** Whether changing this parameter resets the model's context. */
+  @property({ type: Boolean }) resetRequired = false;
+  /** Whether the shown value has not yet been applied. */
+  @property({ type: Boolean }) pending = false;
+
+  @property({ type: Number }) cc = 0;
+  @property({ type: Boolean }) learnMode = false;
+  @property({ type: Boolean }) showCC = false;
+
+  @property({ type: Object })
+  midiDispatcher: MidiDispatcher | null = null;
+
+  @property({ attribute: false })
+  format: (value: number) => string = (value) => `${value}`;
+
+  @query('weight-knob') private knob!: WeightKnob;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('cc-message', this.handleCC);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.handleCC);
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learnMode = false;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleCC = (e: Event) => {
+    const { cc, value } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learnMode) {
+      this.cc = cc;
+      this.learnMode = false;
+      this.dispatchChange();
+    } else if (cc === this.cc) {
+      this.value = this.fromKnob((value / 127) * KNOB_MAX);
+      this.dispatchChange();
+    }
+  };
+
+  private fromKnob(knobValue: number) {
+    let value = this.min + (knobValue / KNOB_MAX) * (this.max - this.min);
+    if (this.step > 0) {
+      value = Math.round(value / this.step) * this.step;
+      // Avoid floating point noise like 0.30000000000000004.
+      value = parseFloat(value.toFixed(6));
+    }
+    return Math.max(this.min, Math.min(this.max, value));
+  }
+
+  private toKnob(value: number | null) {
+    if (value === null) return 0;
+    return ((value - this.min) / (this.max - this.min)) * KNOB_MAX;
+  }
+
+  private dispatchChange() {
+    this.dispatchEvent(
+      new CustomEvent<ConfigKnobChange>('config-knob-changed', {
+        detail: { key: this.key, value: this.value, cc: this.cc },
+      }),
+    );
+  }
+
+  private updateValue() {
+    this.value = this.fromKnob(this.knob.value);
+    this.dispatchChange();
+  }
+
+  /** Double clicking the label unsets the parameter. */
+  private resetValue() {
+    if (this.value === null) return;
+    this.value = null;
+    this.dispatchChange();
+  }
+
+  private toggleLearnMode() {
+    this.learnMode = !this.learnMode;
+  }
+
+  override render() {
+    const classes = classMap({
+      'knob': true,
+      'pending': this.pending,
+      'learn-mode': this.learnMode,
+      'show-cc': this.showCC,
+    });
+    return html`<div class=${classes}>
+      <div
+        id="label"
+        title=${this.resetRequired ? 'Changing this resets the music context' : 'Double click to reset'}
+        @dblclick=${this.resetValue}>
+        ${this.label}${this.resetRequired ? html`<span class="reset-flag"> ⟳</span>` : ''}
+      </div>
+      <weight-knob
+        value=${this.toKnob(this.value)}
+        color=${this.color}
+        @input=${this.updateValue}></weight-knob>
+      <div id="value">${this.value === null ? 'Auto' : this.format(this.value)}</div>
+      <div id="midi" @click=${this.toggleLearnMode}>
+        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      </div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'config-knob': ConfigKnob;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { DECK_IDS, DeckMixer } from '../utils/DeckMixer';
+import type { AudioOutputDevice, DeckId } from '../utils/DeckMixer';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { ControlChange, PlaybackState } from '../utils/types';
+
+/** The crossfader is mapped after the generation config knobs by default. */
+const DEFAULT_CROSSFADER_CC = 24;
+
+/** Transport, gain, cue and crossfader controls for two decks. */
+@customElement('deck-mixer-panel')
+export class DeckMixerPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 1vmin;
+      padding: 1vmin;
+      background: #0008;
+      border-radius: 1vmin;
+      color: #fff;
+      font-size: 1.4vmin;
+      font-weight: 500;
+      user-select: none;
+    }
+    .decks {
+      display: flex;
+      gap: 2vmin;
+    }
+    .deck {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    .deck-name {
+      font-size: 2vmin;
+      font-weight: 600;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      padding: 2px 5px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+    }
+    input[type='range'] {
+      width: 100%;
+      accent-color: #fff;
+    }
+    .gain {
+      width: 10vmin;
+    }
+    #crossfader {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    #midi {
+      font-family: monospace;
+      border: 0.2vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 1px 4px;
+      background: #0006;
+      cursor: pointer;
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+    select {
+      font: inherit;
+      max-width: 20vmin;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+    }
+  `;
+
+  @property({ type: Object }) deckMixer: DeckMixer | null = null;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+  @property({ type: String }) focusedDeck: DeckId = 'A';
+
+  @state() private playbackStates: Record<DeckId, PlaybackState> = { A: 'stopped', B: 'stopped' };
+  @state() private outputDevices: AudioOutputDevice[] = [];
+  @state() private crossfaderCC = DEFAULT_CROSSFADER_CC;
+  @state() private learnMode = false;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('cc-message', this.handleCC);
+    DeckMixer.getOutputDevices().then((devices) => {
+      this.outputDevices = devices;
+    });
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.handleCC);
+    this.detachMixer(this.deckMixer);
+  }
+
+  private attachMixer(mixer: DeckMixer | null) {
+    if (!mixer) return;
+    mixer.addEventListener('mixer-changed', this.handleMixerChanged);
+    mixer.addEventListener('error', this.handleMixerError);
+    for (const id of DECK_IDS) {
+      mixer.decks[id].addEventListener('playback-state-changed', this.handlePlaybackStateChanged);
+    }
+    this.handlePlaybackStateChanged();
+  }
+
+  private detachMixer(mixer: DeckMixer | null | undefined) {
+    if (!mixer) return;
+    mixer.removeEventListener('mixer-changed', this.handleMixerChanged);
+    mixer.removeEventListener('error', this.handleMixerError);
+    for (const id of DECK_IDS) {
+      mixer.decks[id].removeEventListener('playback-state-changed', this.handlePlaybackStateChanged);
+    }
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learnMode = false;
+    }
+    // The mixer is created asynchronously once deck mode is enabled.
+    if (changedProperties.has('deckMixer')) {
+      this.detachMixer(changedProperties.get('deckMixer') as DeckMixer | null | undefined);
+      this.attachMixer(this.deckMixer);
+    }
+    super.update(changedProperties);
+  }
+
+  private handleMixerChanged = () => {
+    this.requestUpdate();
+  };
+
+  private handleMixerError = (e: Event) => {
+    this.dispatchError((e as CustomEvent<string>).detail);
+  };
+
+  private handlePlaybackStateChanged = () => {
+    if (!this.deckMixer) return;
+    this.playbackStates = {
+      A: this.deckMixer.decks.A.playbackState,
+      B: this.deckMixer.decks.B.playbackState,
+    };
+  };
+
+  private handleCC = (e: Event) => {
+    const { cc, value } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learnMode) {
+      this.crossfaderCC = cc;
+      this.learnMode = false;
+    } else if (cc === this.crossfaderCC) {
+      this.deckMixer?.setCrossfader(value / 127);
+    }
+  };
+
+  private dispatchError(message: string) {
+    this.dispatchEvent(new CustomEvent('error', { detail: message, bubbles: true, composed: true }));
+  }
+
+  private focusDeck(deck: DeckId) {
+    this.dispatchEvent(new CustomEvent<DeckId>('deck-focus-changed', { detail: deck }));
+  }
+
+  private playPause(deck: DeckId) {
+    this.deckMixer?.decks[deck].playPause();
+  }
+
+  private async syncBpm(deck: DeckId) {
+    try {
+      await this.deckMixer?.syncBpm(deck);
+    } catch (e) {
+      this.dispatchError((e as Error).message);
+    }
+  }
+
+  private async handleCueOutputChange(e: Event) {
+    const deviceId = (e.target as HTMLSelectElement).value;
+    try {
+      await this.deckMixer?.setCueOutput(deviceId || null);
+    } catch (err) {
+      this.dispatchError((err as Error).message);
+    }
+  }
+
+  private renderDeck(id: DeckId) {
+    const mixer = this.deckMixer!;
+    const playbackState = this.playbackStates[id];
+    const isRunning = playbackState === 'playing' || playbackState === 'loading';
+    return html`<div class="deck">
+      <div class="deck-name">${id}</div>
+      <div class="row">
+        <button class=${classMap({ active: isRunning })} @click=${() => this.playPause(id)}>
+          ${playbackState === 'loading' ? '…' : isRunning ? 'PAUSE' : 'PLAY'}
+        </button>
+        <button
+          class=${classMap({ active: this.focusedDeck === id })}
+          title="Edit this deck's prompts"
+          @click=${() => this.focusDeck(id)}>EDIT</button>
+      </div>
+      <input
+        class="gain"
+        type="range"
+        min="0"
+        max="2"
+        step="0.01"
+        title="Gain"
+        .value=${mixer.getDeckGain(id).toString()}
+        @input=${(e: Event) => mixer.setDeckGain(id, Number((e.target as HTMLInputElement).value))} />
+      <div class="row">
+        <button
+          title="Listen to this deck before the fader, on the cue output."
+          class=${classMap({ active: mixer.isCued(id) })}
+          @click=${() => mixer.setCue(id, !mixer.isCued(id))}>CUE</button>
+        <button
+          title="Match the other deck's BPM. This resets the music context."
+          @click=${() => this.syncBpm(id)}>SYNC</button>
+      </div>
+    </div>`;
+  }
+
+  override render() {
+    if (!this.deckMixer) return '';
+    const mixer = this.deckMixer;
+    return html`
+      <div class="decks">${DECK_IDS.map((id) => this.renderDeck(id))}</div>
+      <div id="crossfader">
+        A
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          title="Crossfader"
+          .value=${mixer.crossfader.toString()}
+          @input=${(e: Event) => mixer.setCrossfader(Number((e.target as HTMLInputElement).value))} />
+        B
+        ${this.showCC ? html`<span
+          id="midi"
+          class=${classMap({ 'learn-mode': this.learnMode })}
+          @click=${() => { this.learnMode = !this.learnMode; }}>
+          ${this.learnMode ? 'Learn' : `CC:${this.crossfaderCC}`}
+        </span>` : ''}
+      </div>
+      ${this.outputDevices.length > 0 ? html`<label class="row">
+        CUE OUT
+        <select @change=${this.handleCueOutputChange}>
+          <option value="">None</option>
+          ${this.outputDevices.map((device) => html`<option value=${device.deviceId}>${device.label}</option>`)}
+        </select>
+      </label>` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'deck-mixer-panel': DeckMixerPanel;
+  }
+}
@@ -7,8 +7,101 @@ import { customElement, property, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
-import type { LiveMusicHelper } from '../utils/LiveMusicHelper';
-import { DrumMachine } from '../utils/DrumMachine';
+import type { SendLoopEventDetail } from './AudioEditor';
+import type { LiveMusicHelper, RecordingFinishedEventDetail } from '../utils/LiveMusicHelper';
+import { createDefaultKit, DEFAULT_KIT_NAME, DrumMachine, VOICE_PARAM_RANGES } from '../utils/DrumMachine';
+import type { DrumKit, KitVoice, VoiceParams } from '../utils/DrumMachine';
+import type { TempoEstimate, TempoTracker } from '../utils/TempoTracker';
+import { keyToFilenamePart } from '../utils/KeyDetector';
+import type { DetectedKey } from '../utils/KeyDetector';
+import { encodeWav } from '../utils/wav';
+import {
+    clonePattern, createPattern, createStep, cycleLength, MAX_OFFSET, MAX_PITCH, MAX_RATCHETS, MAX_STEPS, migratePattern,
+    quartersPerBar, STEP_RESOLUTIONS, stepHits, stepResolution, stepsPerBar, TIME_SIGNATURES, trackLength,
+} from '../utils/steps';
+import type { Pattern, Step, StepResolution, TimeSignature } from '../utils/steps';
+import { applyGroove, GROOVES, MAX_SWING, MIN_SWING, parseGrooves } from '../utils/groove';
+import type { Groove } from '../utils/groove';
+import { deleteKit, exportKitBundle, importKitBundle, listKits, saveKit } from '../utils/KitStore';
+
+/** Fraction of the distance to the detected downbeat corrected per bar while locked. */
+const PHASE_CORRECTION = 0.5;
+
+/** Names of the sequencer's tracks in multitrack recordings. */
+const DRUMS_STEM = 'Drums';
+const MELODY_STEM = 'Melody';
+
+const TRACK_LABELS = ['808', 'Kick', 'Snare', 'Clap', 'Closed Hat', 'Open Hat', 'Crash', 'Perc'];
+const TRACK_COUNT = TRACK_LABELS.length;
+/** Steps the grid shows at once. Longer patterns are paged. */
+const PAGE_SIZE = 16;
+
+/** The tempo range of the BPM control. */
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+const KIT_KEY = 'sequencer_kit';
+/** Audio files that can be dropped on a track, by extension for when the browser gives no type. */
+const SAMPLE_FILE = /\.(wav|aiff?|aifc|mp3)$/i;
+/** Ranges of each voice's gain, in dB, and tuning, in semitones. */
+const MIN_VOICE_GAIN = -24;
+const MAX_VOICE_GAIN = 12;
+const MAX_VOICE_TUNE = 24;
+/** The synthesized voices' settings shown under each track's name. */
+const VOICE_PARAMS: { param: keyof VoiceParams; title: string }[] = [
+    { param: 'tone', title: 'Tone, from dark (0) to bright (1)' },
+    { param: 'decay', title: 'Decay (seconds)' },
+    { param: 'pitch', title: 'Pitch (Hz)' },
+];
+
+/** What dragging a step changes, by the modifier held when the drag starts. */
+type StepDrag = 'pitch' | 'velocity' | 'probability' | 'offset';
+
+/** How much each pixel dragged changes a setting, and the range and precision it's kept to. */
+const STEP_DRAGS: Record<StepDrag, { rate: number; min: number; max: number; precision: number }> = {
+    pitch: { rate: 12, min: -MAX_PITCH, max: MAX_PITCH, precision: 1 },
+    velocity: { rate: 0.01, min: 0, max: 1, precision: 0.01 },
+    probability: { rate: 1, min: 0, max: 100, precision: 1 },
+    offset: { rate: 0.005, min: -MAX_OFFSET, max: MAX_OFFSET, precision: 0.01 },
+};
+
+function stepDragFor(e: PointerEvent): StepDrag {
+    if (e.ctrlKey || e.metaKey) return 'offset';
+    if (e.altKey) return 'probability';
+    if (e.shiftKey) return 'velocity';
+    return 'pitch';
+}
+
+function adjustStep(step: Step, drag: StepDrag, pixels: number): Step {
+    const { rate, min, max, precision } = STEP_DRAGS[drag];
+    const value = Math.max(min, Math.min(max, step[drag] + pixels * rate));
+    return { ...step, [drag]: Math.round(value / precision) * precision };
+}
+
+function loadKitName() {
+    return localStorage.getItem(KIT_KEY) ?? DEFAULT_KIT_NAME;
+}
+
+const SWING_KEY = 'sequencer_swing';
+const GROOVE_KEY = 'sequencer_groove';
+const IMPORTED_GROOVES_KEY = 'sequencer_grooves';
+
+function loadSwing() {
+    const saved = Number(localStorage.getItem(SWING_KEY));
+    return saved >= MIN_SWING && saved <= MAX_SWING ? saved : MIN_SWING;
+}
+
+function loadGrooveName() {
+    return localStorage.getItem(GROOVE_KEY) ?? '';
+}
+
+function loadImportedGrooves(): Groove[] {
+    try {
+        return parseGrooves(localStorage.getItem(IMPORTED_GROOVES_KEY) ?? '[]');
+    } catch {
+        return [];
+    }
+}
 
 const PREMADE_LOOPS = [
     {
@@ -119,9 +212,51 @@ export class DrumSequencer extends LitElement {
     .close-button:active {
         box-shadow: var(--neumorph-shadow-inset);
     }
+    .kit-controls {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        flex-wrap: wrap;
+        margin-left: auto;
+        margin-right: 15px;
+        form {
+            display: flex;
+            gap: 8px;
+        }
+        select, input, button, .import-kit {
+            height: 32px;
+            padding: 0 12px;
+            border-radius: 16px;
+            border: none;
+            background: var(--bg-color);
+            box-shadow: var(--neumorph-shadow-outset);
+            color: #fff;
+            font: inherit;
+            font-size: 13px;
+            box-sizing: border-box;
+        }
+        input {
+            width: 140px;
+            box-shadow: var(--neumorph-shadow-inset);
+        }
+        button, .import-kit, select {
+            cursor: pointer;
+        }
+        .import-kit {
+            display: flex;
+            align-items: center;
+        }
+        button:hover, .import-kit:hover {
+            color: var(--primary-color);
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+    }
     .main-grid {
         display: grid;
-        grid-template-columns: 120px 1fr;
+        grid-template-columns: 220px 1fr;
         gap: 10px;
         flex-grow: 1;
     }
@@ -138,11 +273,43 @@ export class DrumSequencer extends LitElement {
         text-align: center;
         font-size: 12px;
         box-shadow: var(--neumorph-shadow-inset);
+        &.drop-target {
+            outline: 2px solid var(--primary-color);
+        }
+        .track-name {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            span {
+                flex: 1;
+                text-align: left;
+            }
+        }
+        input {
+            width: 38px;
+            background: #222;
+            border: none;
+            border-radius: 3px;
+            color: #fff;
+            font: inherit;
+            font-size: 11px;
+        }
+        .voice-params {
+            display: flex;
+            justify-content: flex-end;
+            gap: 4px;
+            margin-top: 3px;
+        }
+        .sample-name {
+            font-size: 10px;
+            color: var(--primary-color);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
     }
     .beat-grid {
         display: grid;
-        grid-template-columns: repeat(16, 1fr);
-        grid-template-rows: repeat(8, 1fr);
         gap: 5px;
         background: #111;
         padding: 10px;
@@ -159,18 +326,78 @@ export class DrumSequencer extends LitElement {
     }
     .step.active {
         background: var(--primary-color);
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        color: #000;
+        font-size: 9px;
+        line-height: 1.1;
+        overflow: hidden;
+    }
+    .step.chance {
+        outline: 1px dashed #fff;
+        outline-offset: -3px;
     }
     .step.q-beat {
         background: #444;
     }
-    .playhead {
-        position: absolute;
-        top: 0;
-        bottom: 0;
-        width: calc(100% / 16);
-        background: rgba(255, 255, 255, 0.2);
-        pointer-events: none;
-        transition: left 0.05s linear;
+    .step.bar-start {
+        box-shadow: -4px 0 0 -1px #888;
+    }
+    .step.playing {
+        box-shadow: inset 0 0 0 2px rgba(255, 255, 255, 0.6);
+    }
+    .step.outside {
+        background: #222;
+        cursor: default;
+    }
+    .step.gone {
+        visibility: hidden;
+    }
+    .pattern-settings {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        flex-wrap: wrap;
+        font-size: 13px;
+        label {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+        input, select, button {
+            height: 28px;
+            padding: 0 10px;
+            border: none;
+            border-radius: 14px;
+            background: var(--bg-color);
+            box-shadow: var(--neumorph-shadow-outset);
+            color: #fff;
+            font: inherit;
+        }
+        input {
+            width: 56px;
+            box-shadow: var(--neumorph-shadow-inset);
+        }
+        select, button {
+            cursor: pointer;
+        }
+        .pages {
+            display: flex;
+            gap: 6px;
+            margin-left: auto;
+        }
+        button.active {
+            color: var(--primary-color);
+            box-shadow: var(--neumorph-shadow-inset);
+        }
+    }
+    .grid-hint {
+        font-size: 11px;
+        color: #888;
+        text-align: right;
+        margin-top: -8px;
     }
     .controls {
         display: flex;
@@ -189,6 +416,7 @@ export class DrumSequencer extends LitElement {
         display: flex;
         align-items: center;
         gap: 10px;
+        flex-wrap: wrap;
     }
     .transport, .patterns, .melody-controls, .export-controls {
         display: flex;
@@ -235,7 +463,34 @@ export class DrumSequencer extends LitElement {
         user-select: none;
         cursor: ns-resize;
     }
-    .loop-selector select {
+    .groove-controls {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        font-size: 14px;
+        label {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            white-space: nowrap;
+        }
+        input[type="range"] {
+            width: 80px;
+            accent-color: var(--primary-color);
+        }
+        .import-groove {
+            height: 40px;
+            padding: 0 15px;
+            border-radius: 20px;
+            background: var(--bg-color);
+            box-shadow: var(--neumorph-shadow-outset);
+            cursor: pointer;
+            &:hover {
+                color: var(--primary-color);
+            }
+        }
+    }
+    .loop-selector select, .groove-controls select {
         height: 40px;
         padding: 0 15px;
         border-radius: 20px;
@@ -252,57 +507,285 @@ export class DrumSequencer extends LitElement {
   `;
 
     @property({ type: Object }) liveMusicHelper!: LiveMusicHelper;
+    @property({ type: Object }) tempoTracker: TempoTracker | null = null;
+    /** A loop sent from the audio editor, which becomes the melody. */
+    @property({ type: Object }) melodyLoop: SendLoopEventDetail | null = null;
     
     private drumMachine!: DrumMachine;
     private audioContext!: AudioContext;
     
-    @state() private patterns: (number | null)[][][] = Array(4).fill(0).map(() => Array(8).fill(0).map(() => Array(16).fill(null)));
+    @state() private patterns: Pattern[] = Array(4).fill(0).map(() => createPattern(TRACK_COUNT));
     @state() private currentPattern = 0;
     @state() private bpm = 140;
     @state() private isPlaying = false;
-    @state() private currentStep = 0;
+    /** Steps scheduled since playback started. */
+    @state() private stepCount = 0;
+    /** The page of the grid shown, for patterns longer than PAGE_SIZE. */
+    @state() private page = 0;
+    /** Whether the grid turns to the page being played. */
+    @state() private followPlayhead = true;
     @state() private melodyBuffer: AudioBuffer | null = null;
+    /** Key of the stream when the melody was recorded. */
+    private melodyKey: DetectedKey | null = null;
     @state() private isRecording = false;
     @state() private soundsLoaded = false;
+    /** Saved kits, not including the built-in one. */
+    @state() private kits: DrumKit[] = [];
+    @state() private kitName = DEFAULT_KIT_NAME;
+    /** The drum machine's voices, as shown on the track labels. */
+    @state() private kitVoices: KitVoice[] = createDefaultKit().voices;
+    @state() private newKitName = '';
+    /** The track a file is being dragged over. */
+    @state() private dropTrack: number | null = null;
+    /** MPC-style swing, in percent, on every track. */
+    @state() private swing = loadSwing();
+    /** The groove template on top of the swing, by name, or '' for none. */
+    @state() private grooveName = loadGrooveName();
+    @state() private importedGrooves = loadImportedGrooves();
+    /** Whether the clock follows the tempo and downbeats detected in the live stream. */
+    @state() private lockToStream = false;
+    @state() private detectedTempo: TempoEstimate | null = null;
 
     private nextNoteTime = 0.0;
     private scheduleAheadTime = 0.1;
     private timerID: number | null = null;
 
     private melodySource: AudioBufferSourceNode | null = null;
+    /** When the melody has played through, so it starts again at the next bar from then. */
+    private melodyEndTime = 0;
+    /** Where the melody loop plays, so it can be recorded as a stem. */
+    private melodyOutput!: GainNode;
     private bpmDragStartY = 0;
     private bpmDragStartBpm = 0;
 
-    private activeEditingStep: { track: number, step: number } | null = null;
-    private stepDragStartY = 0;
-    private stepDragStartPitch = 0;
-
     override async connectedCallback() {
         super.connectedCallback();
         
         this.audioContext = this.liveMusicHelper.audioContext;
         this.drumMachine = new DrumMachine(this.audioContext);
         this.drumMachine.connect(this.liveMusicHelper.masterBus);
+        this.melodyOutput = this.audioContext.createGain();
+        this.melodyOutput.connect(this.liveMusicHelper.masterBus);
+        this.liveMusicHelper.addStem(DRUMS_STEM, this.drumMachine.masterGain);
+        this.liveMusicHelper.addStem(MELODY_STEM, this.melodyOutput);
         
-        await this.drumMachine.loadSamples();
+        await this.loadSavedKit();
         this.soundsLoaded = true;
         this.requestUpdate();
 
         this.liveMusicHelper.addEventListener('recording-finished', this.handleRecordingFinished);
         this.liveMusicHelper.addEventListener('recording-state-changed', this.handleRecordingStateChanged);
+        this.detectedTempo = this.tempoTracker?.estimate ?? null;
+        this.tempoTracker?.addEventListener('tempo-changed', this.handleTempoChanged);
     }
 
     override disconnectedCallback() {
         super.disconnectedCallback();
         this.stopPlayback();
+        this.liveMusicHelper.removeStem(DRUMS_STEM);
+        this.liveMusicHelper.removeStem(MELODY_STEM);
         this.liveMusicHelper.removeEventListener('recording-finished', this.handleRecordingFinished);
         this.liveMusicHelper.removeEventListener('recording-state-changed', this.handleRecordingStateChanged);
+        this.tempoTracker?.removeEventListener('tempo-changed', this.handleTempoChanged);
     }
     
+    override update(changedProperties: Map<string, unknown>) {
+        if (changedProperties.has('melodyLoop') && this.melodyLoop) {
+            this.setMelodyLoop(this.melodyLoop);
+        }
+        super.update(changedProperties);
+    }
+
+    /** Takes a loop as the melody, and unless locked to the stream, the tempo that makes it whole bars. */
+    private setMelodyLoop({ buffer, key, bpm }: SendLoopEventDetail) {
+        this.melodyBuffer = buffer;
+        this.melodyKey = key;
+        if (this.lockToStream) return;
+        const tempoFor = (bars: number) => (bars * quartersPerBar(this.pattern.timeSignature) * 60) / buffer.duration;
+        let bars = Math.max(1, Math.round(buffer.duration / this.barDurationAt(bpm ?? this.bpm)));
+        while (bars > 1 && tempoFor(bars) > MAX_BPM) bars--;
+        while (tempoFor(bars) < MIN_BPM) bars++;
+        this.bpm = Math.round(tempoFor(bars) * 10) / 10;
+    }
+
+    private get pattern() {
+        return this.patterns[this.currentPattern];
+    }
+
+    private barDurationAt(bpm: number) {
+        return (60 / bpm) * quartersPerBar(this.pattern.timeSignature);
+    }
+
+    /** Whole bars the melody spans at the current tempo, at least one. */
+    private get melodyBars() {
+        if (!this.melodyBuffer) return 1;
+        return Math.max(1, Math.round(this.melodyBuffer.duration / this.barDurationAt(this.bpm)));
+    }
+
+    /** Loads the kit last chosen, or the built-in one if it's gone. */
+    private async loadSavedKit() {
+        await this.refreshKits();
+        const kit = this.kits.find(({ name }) => name === loadKitName());
+        if (kit) {
+            await this.drumMachine.loadKit(kit);
+            this.kitName = kit.name;
+        } else {
+            await this.drumMachine.loadSamples();
+        }
+        this.kitVoices = this.drumMachine.voices;
+    }
+
+    private async refreshKits() {
+        try {
+            this.kits = await listKits();
+        } catch (e) {
+            console.error('Failed to list kits', e);
+            this.showError('Could not open the saved kits.');
+        }
+    }
+
+    private showError(message: string) {
+        this.dispatchEvent(new CustomEvent('error', { detail: message }));
+    }
+
+    private async selectKit(kit: DrumKit) {
+        await this.drumMachine.loadKit(kit);
+        this.kitName = kit.name;
+        this.kitVoices = this.drumMachine.voices;
+        localStorage.setItem(KIT_KEY, kit.name);
+    }
+
+    private handleKitChange(e: Event) {
+        const name = (e.target as HTMLSelectElement).value;
+        const kit = name === DEFAULT_KIT_NAME ? createDefaultKit() : this.kits.find((kit) => kit.name === name);
+        if (kit) this.selectKit(kit);
+    }
+
+    /** Saves the voices as they are, samples and all, under the name typed in. */
+    private async saveCurrentKit(e: Event) {
+        e.preventDefault();
+        const name = this.newKitName.trim();
+        if (!name) return;
+        if (name === DEFAULT_KIT_NAME) {
+            this.showError(`"${DEFAULT_KIT_NAME}" is the built-in kit. Choose another name.`);
+            return;
+        }
+        try {
+            await saveKit({ name, voices: this.drumMachine.voices });
+        } catch (e) {
+            console.error('Failed to save kit', e);
+            this.showError('Could not save the kit.');
+            return;
+        }
+        this.kitName = name;
+        this.newKitName = '';
+        localStorage.setItem(KIT_KEY, name);
+        await this.refreshKits();
+    }
+
+    private async deleteCurrentKit() {
+        if (this.kitName === DEFAULT_KIT_NAME) return;
+        try {
+            await deleteKit(this.kitName);
+        } catch (e) {
+            console.error('Failed to delete kit', e);
+            this.showError('Could not delete the kit.');
+            return;
+        }
+        await this.refreshKits();
+        await this.selectKit(createDefaultKit());
+    }
+
+    private async exportKit() {
+        const blob = await exportKitBundle({ name: this.kitName, voices: this.drumMachine.voices });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${this.kitName}.kit.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /** Saves a kit bundle among the kits and switches to it. */
+    private async handleKitImport(e: Event) {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+        try {
+            const kit = await importKitBundle(file);
+            if (kit.name === DEFAULT_KIT_NAME) kit.name = `${DEFAULT_KIT_NAME} (imported)`;
+            await saveKit(kit);
+            await this.refreshKits();
+            await this.selectKit(kit);
+        } catch (e) {
+            console.error('Failed to import kit', e);
+            this.showError(`Could not import ${file.name}: ${(e as Error).message}`);
+        }
+    }
+
+    private handleSampleDragOver(e: DragEvent, track: number) {
+        if (!e.dataTransfer?.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        this.dropTrack = track;
+    }
+
+    /** Replaces the track's voice with the audio file dropped on its label. */
+    private async handleSampleDrop(e: DragEvent, track: number) {
+        e.preventDefault();
+        this.dropTrack = null;
+        const file = Array.from(e.dataTransfer?.files ?? [])
+            .find((file) => file.type.startsWith('audio/') || SAMPLE_FILE.test(file.name));
+        if (!file) {
+            this.showError('Drop a WAV, AIFF or MP3 file to use it for the track.');
+            return;
+        }
+        try {
+            await this.drumMachine.setSample(track, file);
+        } catch (e) {
+            console.error('Failed to load sample', e);
+            this.showError(`Could not read ${file.name}.`);
+            return;
+        }
+        this.kitVoices = this.drumMachine.voices;
+    }
+
+    /** Right-clicking a track's label goes back to its synthesized voice. */
+    private async handleLabelContextMenu(e: Event, track: number) {
+        if ((e.target as HTMLElement).tagName === 'INPUT') return;
+        e.preventDefault();
+        if (!this.kitVoices[track]?.sample) return;
+        await this.drumMachine.clearSample(track);
+        this.kitVoices = this.drumMachine.voices;
+    }
+
+    private handleVoiceAdjust(e: Event, track: number, setting: 'gain' | 'tune') {
+        const input = e.target as HTMLInputElement;
+        const [min, max] = setting === 'gain' ? [MIN_VOICE_GAIN, MAX_VOICE_GAIN] : [-MAX_VOICE_TUNE, MAX_VOICE_TUNE];
+        const value = Math.round(Math.max(min, Math.min(max, Number(input.value) || 0)));
+        input.value = String(value);
+        this.drumMachine.adjustVoice(track, { [setting]: value });
+        this.kitVoices = this.drumMachine.voices;
+    }
+
+    /** Changes a synthesized voice's tone, decay or pitch, and renders it again. */
+    private async handleVoiceParamChange(e: Event, track: number, param: keyof VoiceParams) {
+        const input = e.target as HTMLInputElement;
+        const { min, max } = VOICE_PARAM_RANGES[param];
+        const current = this.kitVoices[track].synth.params[param];
+        const entered = Number(input.value);
+        const value = Math.max(min, Math.min(max, input.value !== '' && Number.isFinite(entered) ? entered : current));
+        input.value = String(value);
+        await this.drumMachine.setVoiceParams(track, { [param]: value });
+        this.kitVoices = this.drumMachine.voices;
+    }
+
     private handleRecordingFinished = async (e: Event) => {
-        const blob = (e as CustomEvent<Blob>).detail;
+        const { blob, metadata } = (e as CustomEvent<RecordingFinishedEventDetail>).detail;
         const arrayBuffer = await blob.arrayBuffer();
         this.melodyBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
+        this.melodyKey = metadata.key;
     }
 
     private handleRecordingStateChanged = (e: Event) => {
@@ -310,93 +793,184 @@ export class DrumSequencer extends LitElement {
         this.isRecording = state === 'recording';
     }
 
+    private handleTempoChanged = (e: Event) => {
+        this.detectedTempo = (e as CustomEvent<TempoEstimate>).detail;
+        if (this.lockToStream) this.bpm = Math.round(this.detectedTempo.bpm * 10) / 10;
+    }
+
+    private toggleLockToStream() {
+        this.lockToStream = !this.lockToStream;
+        if (this.lockToStream && this.detectedTempo) {
+            this.bpm = Math.round(this.detectedTempo.bpm * 10) / 10;
+        } else if (!this.lockToStream) {
+            this.bpm = Math.round(this.bpm);
+        }
+    }
+
+    /**
+     * Whether the `stepCount`th step starts a bar, whatever the pattern's
+     * length, that can be lined up with the stream's. The tempo tracker only
+     * finds 4/4 bars.
+     */
+    private startsAlignableBar(stepCount: number) {
+        const [beats, noteValue] = this.pattern.timeSignature;
+        const barSteps = stepsPerBar(this.pattern);
+        return beats === 4 && noteValue === 4 && Number.isInteger(barSteps) && stepCount % barSteps === 0;
+    }
+
+    /** Nudges the start of the next bar towards the nearest detected downbeat. */
+    private alignToDownbeat(correction: number) {
+        const barDuration = this.barDurationAt(this.bpm);
+        const downbeat = this.tempoTracker?.nextDownbeatTime(this.nextNoteTime - barDuration / 2);
+        if (downbeat == null) return;
+        const time = this.nextNoteTime + (downbeat - this.nextNoteTime) * correction;
+        this.nextNoteTime = Math.max(this.audioContext.currentTime, time);
+    }
+
+    private get stepDuration() {
+        return (60.0 / this.bpm) / stepResolution(this.pattern.resolution).perQuarter;
+    }
+
+    /** Swing only makes sense of straight steps, so triplets play straight. */
+    private swingFor(pattern: Pattern) {
+        return stepResolution(pattern.resolution).triplet ? MIN_SWING : this.swing;
+    }
+
     private scheduler = () => {
-        while (this.nextNoteTime < this.audioContext.currentTime + this.scheduleAheadTime) {
-            this.scheduleNote(this.currentStep, this.nextNoteTime);
-            this.nextNoteTime += (60.0 / this.bpm) / 4; // 16th notes
+        // Far enough ahead that steps nudged early are still to come.
+        const horizon = this.scheduleAheadTime + MAX_OFFSET * this.stepDuration;
+        while (this.nextNoteTime < this.audioContext.currentTime + horizon) {
+            if (this.lockToStream && this.startsAlignableBar(this.stepCount)) this.alignToDownbeat(PHASE_CORRECTION);
+            this.scheduleNote(this.stepCount, this.nextNoteTime);
+            this.nextNoteTime += this.stepDuration;
 
             // Advance the playhead
-            this.currentStep = (this.currentStep + 1) % 16;
+            this.stepCount++;
+            if (this.followPlayhead) this.page = Math.floor((this.stepCount % this.pattern.length) / PAGE_SIZE);
         }
         this.timerID = window.setTimeout(this.scheduler, 25.0);
     }
 
-    private scheduleNote(beatNumber: number, time: number) {
+    /** Schedules the `stepCount`th step since playback started. Each track wraps at its own length. */
+    private scheduleNote(stepCount: number, time: number) {
         // Schedule drum sounds
-        for (let i = 0; i < 8; i++) {
-            const pitch = this.patterns[this.currentPattern][i][beatNumber];
-            if (pitch !== null) {
-                this.drumMachine.play(i, time, pitch);
+        const pattern = this.pattern;
+        const swing = this.swingFor(pattern);
+        for (let i = 0; i < TRACK_COUNT; i++) {
+            const index = stepCount % trackLength(pattern, i);
+            const step = pattern.tracks[i][index];
+            if (!step) continue;
+            const grooved = applyGroove(step, index, stepCount, i, swing, this.groove);
+            for (const hit of stepHits(grooved, time, this.stepDuration)) {
+                this.drumMachine.play(i, hit.time, hit.pitch, hit.velocity);
             }
         }
 
-        // Schedule melody loop
-        if (beatNumber === 0 && this.melodyBuffer) {
+        // Schedule melody loop, each time it has played through, from the
+        // nearest step. It's cut at the bar it should end on, so it stays in
+        // time if the tempo changes.
+        const barDuration = this.barDurationAt(this.bpm);
+        if (this.melodyBuffer && time >= this.melodyEndTime - this.stepDuration / 2) {
+            this.melodyEndTime = time + this.melodyBars * barDuration;
             this.melodySource = this.audioContext.createBufferSource();
             this.melodySource.buffer = this.melodyBuffer;
-            this.melodySource.connect(this.liveMusicHelper.masterBus);
+            this.melodySource.connect(this.melodyOutput);
             this.melodySource.start(time);
+            this.melodySource.stop(this.melodyEndTime);
         }
     }
 
+    /** Changes a copy of the current pattern, so the grid sees a new one. */
+    private updatePattern(change: (pattern: Pattern) => void) {
+        const pattern = clonePattern(this.pattern);
+        change(pattern);
+        const newPatterns = [...this.patterns];
+        newPatterns[this.currentPattern] = pattern;
+        this.patterns = newPatterns;
+    }
+
+    private setStep(track: number, step: number, value: Step | null) {
+        this.updatePattern((pattern) => { pattern.tracks[track][step] = value; });
+    }
+
+    private handleLengthChange(e: Event) {
+        const input = e.target as HTMLInputElement;
+        const length = Math.round(Math.max(1, Math.min(MAX_STEPS, Number(input.value) || 1)));
+        input.value = String(length);
+        this.updatePattern((pattern) => { pattern.length = length; });
+    }
+
+    /** Changing the time signature or grid makes the pattern a bar long, in whole steps. */
+    private setMeter(timeSignature: TimeSignature, resolution: StepResolution) {
+        this.updatePattern((pattern) => {
+            pattern.timeSignature = timeSignature;
+            pattern.resolution = resolution;
+            pattern.length = Math.max(1, Math.min(MAX_STEPS, Math.round(stepsPerBar(pattern))));
+        });
+        this.page = 0;
+    }
+
+    /** Gives a track its own length, or with the field empty, has it follow the pattern's again. */
+    private handleTrackLengthChange(e: Event, track: number) {
+        const input = e.target as HTMLInputElement;
+        const length = input.value === '' ? null : Math.round(Math.max(1, Math.min(MAX_STEPS, Number(input.value) || 1)));
+        input.value = length === null ? '' : String(length);
+        this.updatePattern((pattern) => { pattern.trackLengths[track] = length; });
+    }
+
+    /**
+     * Clicking a step turns it on or off. Dragging up or down changes its
+     * pitch, or with Shift its velocity and with Alt its probability; dragging
+     * sideways with Ctrl or Cmd nudges its timing.
+     */
     private handleStepPointerDown(e: PointerEvent, track: number, step: number) {
         e.preventDefault();
         e.stopPropagation();
 
         if (e.button === 2) { // right click to delete
-            const newPatterns = this.patterns.map(p => p.map(t => [...t]));
-            newPatterns[this.currentPattern][track][step] = null;
-            this.patterns = newPatterns;
+            this.setStep(track, step, null);
             return;
         }
 
-        this.activeEditingStep = { track, step };
-        this.stepDragStartY = e.clientY;
-        const currentPitch = this.patterns[this.currentPattern][track][step];
-        
-        if (currentPitch === null) {
-            this.stepDragStartPitch = 0;
-            const newPatterns = this.patterns.map(p => p.map(t => [...t]));
-            newPatterns[this.currentPattern][track][step] = 0; // set to default pitch
-            this.patterns = newPatterns;
-        } else {
-            this.stepDragStartPitch = currentPitch;
-        }
-        
+        const existing = this.pattern.tracks[track][step];
+        const startStep = existing ?? createStep();
+        if (!existing) this.setStep(track, step, startStep);
+        const drag = stepDragFor(e);
+        const startX = e.clientX;
+        const startY = e.clientY;
+
         let dragged = false;
         const moveHandler = (moveEvent: PointerEvent) => {
-            if (!this.activeEditingStep) return;
             dragged = true;
-            
-            const delta = this.stepDragStartY - moveEvent.clientY;
-            const newPitch = this.stepDragStartPitch + delta * 12; // 12 cents per pixel
-            const clampedPitch = Math.max(-2400, Math.min(2400, newPitch));
-
-            const newPatterns = this.patterns.map(p => p.map(t => [...t]));
-            newPatterns[this.currentPattern][track][step] = Math.round(clampedPitch);
-            this.patterns = newPatterns;
+            const pixels = drag === 'offset' ? moveEvent.clientX - startX : startY - moveEvent.clientY;
+            this.setStep(track, step, adjustStep(startStep, drag, pixels));
         };
 
         const upHandler = () => {
-            if (!dragged && currentPitch !== null) {
+            if (!dragged && existing && drag === 'pitch') {
                 // It was a simple click on an existing note, so toggle it off
-                const newPatterns = this.patterns.map(p => p.map(t => [...t]));
-                newPatterns[this.currentPattern][track][step] = null;
-                this.patterns = newPatterns;
-
+                this.setStep(track, step, null);
             }
-            this.activeEditingStep = null;
             window.removeEventListener('pointermove', moveHandler);
             window.removeEventListener('pointerup', upHandler);
         };
-        
+
         window.addEventListener('pointermove', moveHandler);
         window.addEventListener('pointerup', upHandler);
     }
 
+    /** Scrolling over a step sets how many times it ratchets. */
+    private handleStepWheel(e: WheelEvent, track: number, step: number) {
+        const current = this.pattern.tracks[track][step];
+        if (!current || e.deltaY === 0) return;
+        e.preventDefault();
+        const ratchets = Math.max(1, Math.min(MAX_RATCHETS, current.ratchets + (e.deltaY < 0 ? 1 : -1)));
+        this.setStep(track, step, { ...current, ratchets });
+    }
 
     private changePattern(patternIndex: number) {
         this.currentPattern = patternIndex;
+        this.page = 0;
     }
 
     private togglePlayback() {
@@ -413,8 +987,13 @@ export class DrumSequencer extends LitElement {
         if (this.audioContext.state === 'suspended') {
             this.audioContext.resume();
         }
-        this.currentStep = 0;
+        this.stepCount = 0;
         this.nextNoteTime = this.audioContext.currentTime;
+        // Start on the next detected downbeat rather than easing into it.
+        if (this.lockToStream) {
+            const downbeat = this.tempoTracker?.nextDownbeatTime(this.nextNoteTime);
+            if (downbeat != null) this.nextNoteTime = downbeat;
+        }
         this.scheduler();
     }
 
@@ -424,12 +1003,14 @@ export class DrumSequencer extends LitElement {
             this.timerID = null;
         }
         this.melodySource?.stop();
-        this.currentStep = 0;
+        this.melodyEndTime = 0;
+        this.stepCount = 0;
         this.requestUpdate(); // To reset playhead position visually
     }
     
     private handleBpmDragStart = (e: PointerEvent) => {
         e.preventDefault();
+        if (this.lockToStream) return;
         this.bpmDragStartY = e.clientY;
         this.bpmDragStartBpm = this.bpm;
         document.body.classList.add('dragging');
@@ -440,7 +1021,7 @@ export class DrumSequencer extends LitElement {
     private handleBpmDragMove = (e: PointerEvent) => {
         const delta = this.bpmDragStartY - e.clientY;
         const newBpm = this.bpmDragStartBpm + delta;
-        this.bpm = Math.round(Math.max(60, Math.min(200, newBpm)));
+        this.bpm = Math.round(Math.max(MIN_BPM, Math.min(MAX_BPM, newBpm)));
     };
 
     private handleBpmDragEnd = () => {
@@ -449,6 +1030,46 @@ export class DrumSequencer extends LitElement {
         window.removeEventListener('pointerup', this.handleBpmDragEnd);
     };
 
+    private get grooves() {
+        return [...GROOVES, ...this.importedGrooves];
+    }
+
+    private get groove() {
+        return this.grooves.find(({ name }) => name === this.grooveName) ?? null;
+    }
+
+    private handleSwingInput(e: Event) {
+        this.swing = Number((e.target as HTMLInputElement).value);
+        localStorage.setItem(SWING_KEY, String(this.swing));
+    }
+
+    private selectGroove(name: string) {
+        this.grooveName = name;
+        localStorage.setItem(GROOVE_KEY, name);
+    }
+
+    /** Adds the grooves in a JSON file, replacing imported ones of the same name, and selects the first. */
+    private async handleGrooveImport(e: Event) {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+        let grooves: Groove[];
+        try {
+            grooves = parseGrooves(await file.text());
+        } catch (e) {
+            this.showError(`Could not import ${file.name}: ${(e as Error).message}`);
+            return;
+        }
+        for (const groove of grooves) {
+            if (GROOVES.some(({ name }) => name === groove.name)) groove.name += ' (imported)';
+        }
+        const names = new Set(grooves.map(({ name }) => name));
+        this.importedGrooves = [...this.importedGrooves.filter(({ name }) => !names.has(name)), ...grooves];
+        localStorage.setItem(IMPORTED_GROOVES_KEY, JSON.stringify(this.importedGrooves));
+        this.selectGroove(grooves[0].name);
+    }
+
     private handleLoopChange(e: Event) {
         const loopName = (e.target as HTMLSelectElement).value;
         if (loopName) {
@@ -461,7 +1082,7 @@ export class DrumSequencer extends LitElement {
         if (!loop) return;
 
         const newPatterns = [...this.patterns];
-        newPatterns[this.currentPattern] = loop.pattern.map(track => [...track]);
+        newPatterns[this.currentPattern] = migratePattern(loop.pattern);
         this.patterns = newPatterns;
         this.bpm = loop.bpm;
         this.requestUpdate();
@@ -469,26 +1090,38 @@ export class DrumSequencer extends LitElement {
     
     private recordMelody() {
         if (!this.liveMusicHelper) return;
-        const barDuration = (60 / this.bpm) * 4; // 4 beats per bar
+        const barDuration = this.barDurationAt(this.bpm);
         const recordingDuration = barDuration * 4 * 1000; // 4 bars in ms
         this.liveMusicHelper.startRecording(recordingDuration);
     }
 
     private async exportAudio(drumsOnly: boolean, melodyOnly: boolean) {
         this.stopPlayback();
-        const loopDuration = (16 * (60 / this.bpm)) / 4;
+        // As many bars as the melody spans, with the pattern repeated over
+        // them, or for the drums alone, until every track comes back round.
+        const pattern = this.pattern;
+        const stepDuration = this.stepDuration;
+        const loopDuration = drumsOnly
+            ? cycleLength(pattern) * stepDuration
+            : this.melodyBars * this.barDurationAt(this.bpm);
         const offlineContext = new OfflineAudioContext(2, this.audioContext.sampleRate * loopDuration, this.audioContext.sampleRate);
-        const offlineDrumMachine = new DrumMachine(offlineContext);
+        const offlineDrumMachine = new DrumMachine(offlineContext, this.drumMachine.voices);
         await offlineDrumMachine.loadSamples();
+        offlineDrumMachine.connect(offlineContext.destination);
 
-        // Schedule drums
+        // Schedule drums. Hits nudged past either end of the loop wrap around.
         if (!melodyOnly) {
-            for (let step = 0; step < 16; step++) {
-                const time = (step * (60 / this.bpm)) / 4;
-                for (let track = 0; track < 8; track++) {
-                    const pitch = this.patterns[this.currentPattern][track][step];
-                    if (pitch !== null) {
-                        offlineDrumMachine.play(track, time, pitch);
+            const swing = this.swingFor(pattern);
+            for (let stepCount = 0; stepCount * stepDuration < loopDuration - 1e-6; stepCount++) {
+                const time = stepCount * stepDuration;
+                for (let track = 0; track < TRACK_COUNT; track++) {
+                    const index = stepCount % trackLength(pattern, track);
+                    const value = pattern.tracks[track][index];
+                    if (!value) continue;
+                    const grooved = applyGroove(value, index, stepCount, track, swing, this.groove);
+                    for (const hit of stepHits(grooved, time, stepDuration)) {
+                        const hitTime = (hit.time + loopDuration) % loopDuration;
+                        offlineDrumMachine.play(track, hitTime, hit.pitch, hit.velocity);
                     }
                 }
             }
@@ -503,100 +1136,229 @@ export class DrumSequencer extends LitElement {
         }
 
         const renderedBuffer = await offlineContext.startRendering();
-        this.downloadWav(renderedBuffer);
+        this.downloadWav(renderedBuffer, drumsOnly ? null : this.melodyKey);
     }
 
-    private downloadWav(buffer: AudioBuffer) {
-        // WAV conversion logic from AudioEditor
-        const numOfChan = buffer.numberOfChannels,
-            len = buffer.length * numOfChan * 2 + 44;
-        const bufferWav = new ArrayBuffer(len);
-        const view = new DataView(bufferWav);
-        let pos = 0;
-
-        const setUint16 = (val: number) => { view.setUint16(pos, val, true); pos += 2; };
-        const setUint32 = (val: number) => { view.setUint32(pos, val, true); pos += 4; };
-        
-        setUint32(0x46464952); // "RIFF"
-        setUint32(len - 8);
-        setUint32(0x45564157); // "WAVE"
-        setUint32(0x20746d66); // "fmt "
-        setUint32(16);
-        setUint16(1);
-        setUint16(numOfChan);
-        setUint32(buffer.sampleRate);
-        setUint32(buffer.sampleRate * 2 * numOfChan);
-        setUint16(numOfChan * 2);
-        setUint16(16);
-        setUint32(0x61746164); // "data"
-        setUint32(len - pos - 4);
-
-        const channels = Array.from({length: numOfChan}, (_, i) => buffer.getChannelData(i));
-        for (let i = 0; i < buffer.length; i++) {
-            for (let ch = 0; ch < numOfChan; ch++) {
-                const sample = Math.max(-1, Math.min(1, channels[ch][i]));
-                view.setInt16(pos, sample < 0 ? sample * 32768 : sample * 32767, true);
-                pos += 2;
-            }
-        }
-        
-        const blob = new Blob([view], { type: 'audio/wav' });
+    private downloadWav(buffer: AudioBuffer, key: DetectedKey | null) {
+        const blob = encodeWav(buffer, { info: key ? { ICMT: `Key: ${key.label}` } : {} });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `sequencer-export-${this.bpm}bpm.wav`;
+        a.download = key
+            ? `sequencer-export-${this.bpm}bpm-${keyToFilenamePart(key)}.wav`
+            : `sequencer-export-${this.bpm}bpm.wav`;
         a.click();
         URL.revokeObjectURL(url);
     }
     
+    /** Steps the grid shows: the pattern, or the longest track if that's longer. */
+    private get gridLength() {
+        return Math.max(...TRACK_LABELS.map((_, track) => trackLength(this.pattern, track)));
+    }
+
+    /** The step at `index` in the track, or a gap past the end of the grid. */
+    private renderStep(track: number, index: number, gridLength: number) {
+        if (index >= gridLength) return html`<div class="step gone"></div>`;
+        const pattern = this.pattern;
+        const length = trackLength(pattern, track);
+        const { perQuarter } = stepResolution(pattern.resolution);
+        const barSteps = stepsPerBar(pattern);
+        if (index >= length) {
+            return html`<div class="step outside" title="Past the end of this track"></div>`;
+        }
+
+        const stepValue = pattern.tracks[track][index];
+        const stepClasses = classMap({
+            step: true,
+            active: stepValue !== null,
+            'q-beat': index % perQuarter === 0,
+            'bar-start': index > 0 && Number.isInteger(barSteps) && index % barSteps === 0,
+            chance: !!stepValue && stepValue.probability < 100,
+            playing: this.isPlaying && this.stepCount % length === index,
+        });
+
+        let stepStyle = {};
+        if (stepValue !== null) {
+            // Map pitch from [-2400, 2400] to a lightness from [20, 100]
+            const lightness = 60 + (stepValue.pitch / MAX_PITCH) * 40;
+            stepStyle = {
+                background: `hsl(var(--primary-hue), 100%, ${lightness}%)`,
+                opacity: String(0.3 + 0.7 * stepValue.velocity),
+                transform: `translateX(${stepValue.offset * 100}%)`,
+            };
+        }
+
+        return html`
+            <div
+                class=${stepClasses}
+                style=${styleMap(stepStyle)}
+                title=${stepValue ? this.describeStep(stepValue) : ''}
+                @pointerdown=${(e: PointerEvent) => this.handleStepPointerDown(e, track, index)}
+                @wheel=${(e: WheelEvent) => this.handleStepWheel(e, track, index)}>
+                ${stepValue && stepValue.ratchets > 1 ? html`<span>×${stepValue.ratchets}</span>` : ''}
+                ${stepValue && stepValue.probability < 100 ? html`<span>${stepValue.probability}%</span>` : ''}
+            </div>`;
+    }
+
+    private describeStep({ velocity, pitch, probability, ratchets, offset }: Step) {
+        return [
+            `Velocity ${Math.round(velocity * 100)}%`,
+            `Pitch ${pitch > 0 ? '+' : ''}${pitch} cents`,
+            `Probability ${probability}%`,
+            `Ratchets ${ratchets}`,
+            `Timing ${offset > 0 ? '+' : ''}${Math.round(offset * 100)}% of a step`,
+        ].join('\n');
+    }
+
     private handleClose() {
         this.dispatchEvent(new CustomEvent('close'));
     }
 
     override render() {
-        const trackLabels = ['808', 'Kick', 'Snare', 'Clap', 'Closed Hat', 'Open Hat', 'Crash', 'Perc'];
-        const playheadStyle = styleMap({
-            left: this.isPlaying ? `${(this.currentStep / 16) * 100}%` : '-100%',
-        });
+        const pattern = this.pattern;
+        const gridLength = this.gridLength;
+        const pages = Math.ceil(gridLength / PAGE_SIZE);
+        const page = Math.min(this.page, pages - 1);
+        const [beats, noteValue] = pattern.timeSignature;
         
         return html`
             <div class="modal-overlay">
                 <div class="sequencer-container">
                     <div class="header">
                         <h2>Beatgrid</h2>
+                        <div class="kit-controls">
+                            <select title="Kit" @change=${this.handleKitChange}>
+                                <option value=${DEFAULT_KIT_NAME} ?selected=${this.kitName === DEFAULT_KIT_NAME}>${DEFAULT_KIT_NAME}</option>
+                                ${this.kits.map(kit => html`<option value=${kit.name} ?selected=${this.kitName === kit.name}>${kit.name}</option>`)}
+                            </select>
+                            <form @submit=${this.saveCurrentKit}>
+                                <input
+                                    type="text"
+                                    placeholder="Save kit as..."
+                                    .value=${this.newKitName}
+                                    @input=${(e: Event) => { this.newKitName = (e.target as HTMLInputElement).value; }} />
+                                <button type="submit" .disabled=${!this.newKitName.trim()}>Save</button>
+                            </form>
+                            <button @click=${this.deleteCurrentKit} .disabled=${this.kitName === DEFAULT_KIT_NAME}>Delete</button>
+                            <button title="Download the kit and its samples as one file" @click=${this.exportKit}>Export</button>
+                            <label class="import-kit" title="Add a kit exported from here">
+                                Import
+                                <input type="file" accept=".json,application/json" hidden @change=${this.handleKitImport} />
+                            </label>
+                        </div>
                         <button class="close-button" @click=${this.handleClose}>✕</button>
                     </div>
+                    <div class="pattern-settings">
+                        <label>
+                            Steps
+                            <input
+                                type="number"
+                                min="1"
+                                max=${MAX_STEPS}
+                                step="1"
+                                .value=${String(pattern.length)}
+                                @change=${this.handleLengthChange} />
+                        </label>
+                        <select
+                            title="Time signature"
+                            @change=${(e: Event) => this.setMeter(TIME_SIGNATURES[Number((e.target as HTMLSelectElement).value)], pattern.resolution)}>
+                            ${TIME_SIGNATURES.map(([b, n], i) => html`
+                                <option value=${i} ?selected=${b === beats && n === noteValue}>${b}/${n}</option>`)}
+                        </select>
+                        <select
+                            title="Grid"
+                            @change=${(e: Event) => this.setMeter(pattern.timeSignature, (e.target as HTMLSelectElement).value as StepResolution)}>
+                            ${STEP_RESOLUTIONS.map(({ id, label }) => html`
+                                <option value=${id} ?selected=${id === pattern.resolution}>${label}</option>`)}
+                        </select>
+                        ${pages > 1 ? html`
+                            <div class="pages">
+                                ${Array.from({ length: pages }, (_, i) => html`
+                                    <button
+                                        class=${classMap({ active: i === page })}
+                                        @click=${() => { this.page = i; this.followPlayhead = false; }}>
+                                        ${i * PAGE_SIZE + 1}–${Math.min(gridLength, (i + 1) * PAGE_SIZE)}
+                                    </button>`)}
+                                <button
+                                    class=${classMap({ active: this.followPlayhead })}
+                                    title="Turn to the page being played"
+                                    @click=${() => { this.followPlayhead = !this.followPlayhead; }}>
+                                    Follow
+                                </button>
+                            </div>` : ''}
+                    </div>
                     <div class="main-grid">
                         <div class="track-labels">
-                            ${trackLabels.map(label => html`<div class="track-label">${label}</div>`)}
+                            ${TRACK_LABELS.map((label, track) => {
+                                const voice = this.kitVoices[track];
+                                return html`
+                                <div
+                                    class=${classMap({ 'track-label': true, 'drop-target': this.dropTrack === track })}
+                                    title="Drop a WAV, AIFF or MP3 file here to use it. Right-click to go back to the synthesized voice."
+                                    @dragover=${(e: DragEvent) => this.handleSampleDragOver(e, track)}
+                                    @dragleave=${() => { this.dropTrack = null; }}
+                                    @drop=${(e: DragEvent) => this.handleSampleDrop(e, track)}
+                                    @contextmenu=${(e: Event) => this.handleLabelContextMenu(e, track)}>
+                                    <div class="track-name">
+                                        <span>${label}</span>
+                                        <input
+                                            type="number"
+                                            title="Gain (dB)"
+                                            min=${MIN_VOICE_GAIN}
+                                            max=${MAX_VOICE_GAIN}
+                                            step="1"
+                                            .value=${String(voice?.gain ?? 0)}
+                                            @change=${(e: Event) => this.handleVoiceAdjust(e, track, 'gain')} />
+                                        <input
+                                            type="number"
+                                            title="Tune (semitones)"
+                                            min=${-MAX_VOICE_TUNE}
+                                            max=${MAX_VOICE_TUNE}
+                                            step="1"
+                                            .value=${String(voice?.tune ?? 0)}
+                                            @change=${(e: Event) => this.handleVoiceAdjust(e, track, 'tune')} />
+                                        <input
+                                            type="number"
+                                            title="Steps before this track repeats, for polymeter. Empty follows the pattern."
+                                            min="1"
+                                            max=${MAX_STEPS}
+                                            step="1"
+                                            placeholder=${String(pattern.length)}
+                                            .value=${pattern.trackLengths[track]?.toString() ?? ''}
+                                            @change=${(e: Event) => this.handleTrackLengthChange(e, track)} />
+                                    </div>
+                                    ${voice?.sampleName ? html`<div class="sample-name">${voice.sampleName}</div>` : ''}
+                                    ${voice && !voice.sample ? html`
+                                        <div class="voice-params">
+                                            ${VOICE_PARAMS.map(({ param, title }) => html`
+                                                <input
+                                                    type="number"
+                                                    title=${title}
+                                                    min=${VOICE_PARAM_RANGES[param].min}
+                                                    max=${VOICE_PARAM_RANGES[param].max}
+                                                    step=${VOICE_PARAM_RANGES[param].step}
+                                                    .value=${String(voice.synth.params[param])}
+                                                    @change=${(e: Event) => this.handleVoiceParamChange(e, track, param)} />`)}
+                                        </div>` : ''}
+                                </div>`;
+                            })}
                         </div>
-                        <div class="beat-grid" @contextmenu=${(e: Event) => e.preventDefault()}>
-                            ${this.patterns[this.currentPattern].map((track, trackIndex) => 
-                                track.map((stepValue, stepIndex) => {
-                                    const stepClasses = classMap({
-                                        step: true,
-                                        active: stepValue !== null,
-                                        'q-beat': stepIndex % 4 === 0,
-                                    });
-                                    
-                                    let stepStyle = {};
-                                    if (stepValue !== null) {
-                                        // Map pitch from [-2400, 2400] to a lightness from [20, 100]
-                                        const lightness = 60 + (stepValue / 2400) * 40;
-                                        stepStyle = { background: `hsl(var(--primary-hue), 100%, ${lightness}%)`};
-                                    }
-
-                                    return html`
-                                    <div 
-                                        class=${stepClasses}
-                                        style=${styleMap(stepStyle)}
-                                        @pointerdown=${(e: PointerEvent) => this.handleStepPointerDown(e, trackIndex, stepIndex)}>
-                                    </div>`
-                                })
-                            )}
-                            ${this.isPlaying ? html`<div class="playhead" style=${playheadStyle}></div>` : ''}
+                        <div
+                            class="beat-grid"
+                            style=${styleMap({
+                                'grid-template-columns': `repeat(${PAGE_SIZE}, 1fr)`,
+                                'grid-template-rows': `repeat(${TRACK_COUNT}, 1fr)`,
+                            })}
+                            @contextmenu=${(e: Event) => e.preventDefault()}>
+                            ${TRACK_LABELS.map((_, track) => Array.from(
+                                { length: PAGE_SIZE },
+                                (_, i) => this.renderStep(track, page * PAGE_SIZE + i, gridLength),
+                            ))}
                         </div>
                     </div>
+                    <div class="grid-hint">
+                        Drag: pitch · Shift-drag: velocity · Alt-drag: probability · Ctrl-drag sideways: timing · Scroll: ratchets · Right-click: clear
+                    </div>
                     <div class="controls">
                         <div class="controls-left">
                             <div class="transport">
@@ -629,6 +1391,37 @@ export class DrumSequencer extends LitElement {
                                     ${PREMADE_LOOPS.map(loop => html`<option value=${loop.name}>${loop.name}</option>`)}
                                 </select>
                             </div>
+                            <div class="groove-controls">
+                                <label title="Delays the second sixteenth of each eighth, as on the MPC">
+                                    Swing
+                                    <input
+                                        type="range"
+                                        min=${MIN_SWING}
+                                        max=${MAX_SWING}
+                                        step="1"
+                                        .value=${String(this.swing)}
+                                        @input=${this.handleSwingInput} />
+                                    ${this.swing}%
+                                </label>
+                                <select
+                                    title="Groove template"
+                                    @change=${(e: Event) => this.selectGroove((e.target as HTMLSelectElement).value)}>
+                                    <option value="" ?selected=${!this.groove}>No Groove</option>
+                                    ${this.grooves.map(groove => html`
+                                        <option value=${groove.name} ?selected=${this.grooveName === groove.name}>${groove.name}</option>`)}
+                                </select>
+                                <label class="import-groove" title="Add grooves from a JSON file">
+                                    Import
+                                    <input type="file" accept=".json,application/json" hidden @change=${this.handleGrooveImport} />
+                                </label>
+                            </div>
+                            <button
+                                class=${classMap({active: this.lockToStream})}
+                                title="Follow the tempo and downbeats detected in the live stream"
+                                .disabled=${!this.tempoTracker}
+                                @click=${this.toggleLockToStream}>
+                                Lock ${this.detectedTempo ? this.detectedTempo.bpm.toFixed(1) : '--'}
+                            </button>
                             <div class="bpm-dragger" @pointerdown=${this.handleBpmDragStart}>
                                 ${this.bpm} BPM
                             </div>
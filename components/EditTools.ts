@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { EDIT_OPERATIONS, FADE_CURVES } from '../utils/AudioEdits';
+import type { EditOperation, EditOperationType, FadeCurve, NormalizeMode } from '../utils/AudioEdits';
+
+const DEFAULT_PEAK_TARGET = -1;
+const DEFAULT_LUFS_TARGET = -14;
+
+/**
+ * Picks an edit for the editor's selection and its settings. Dispatches
+ * `edit-preview` to audition it and `edit-apply` to commit it, both with the
+ * EditOperation.
+ */
+@customElement('edit-tools')
+export class EditTools extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      color: #fff;
+      font-size: 13px;
+    }
+    .operations, .settings {
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: center;
+      align-items: center;
+      gap: 8px;
+    }
+    button, select, input {
+      font: inherit;
+      color: inherit;
+      background: #2a2a2a;
+      border: 1px solid #444;
+      border-radius: 6px;
+      padding: 4px 10px;
+    }
+    button {
+      cursor: pointer;
+      &:hover:not(:disabled) {
+        border-color: #3dffab;
+      }
+      &.active {
+        color: #3dffab;
+        border-color: #3dffab;
+      }
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      &.apply {
+        background: #3dffab;
+        color: #111;
+      }
+    }
+    input[type='number'] {
+      width: 60px;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      opacity: 0.8;
+    }
+  `;
+
+  /** Set when there's no selection to edit. */
+  @property({ type: Boolean }) disabled = false;
+  /** Set while a preview plays. */
+  @property({ type: Boolean }) previewing = false;
+
+  @state() private active: EditOperationType | null = null;
+  @state() private curve: FadeCurve = 'linear';
+  @state() private normalizeMode: NormalizeMode = 'peak';
+  @state() private peakTarget = DEFAULT_PEAK_TARGET;
+  @state() private lufsTarget = DEFAULT_LUFS_TARGET;
+  @state() private gainDb = 0;
+
+  private get operation(): EditOperation | null {
+    switch (this.active) {
+      case null:
+        return null;
+      case 'fade-in':
+      case 'fade-out':
+        return { type: this.active, curve: this.curve };
+      case 'normalize':
+        return {
+          type: 'normalize',
+          mode: this.normalizeMode,
+          target: this.normalizeMode === 'peak' ? this.peakTarget : this.lufsTarget,
+        };
+      case 'gain':
+        return { type: 'gain', db: this.gainDb };
+      default:
+        return { type: this.active };
+    }
+  }
+
+  private select(type: EditOperationType) {
+    this.active = this.active === type ? null : type;
+  }
+
+  private dispatch(name: 'edit-preview' | 'edit-apply') {
+    const operation = this.operation;
+    if (!operation) return;
+    this.dispatchEvent(new CustomEvent<EditOperation>(name, { detail: operation }));
+    if (name === 'edit-apply') this.active = null;
+  }
+
+  private numberInput(value: number, onChange: (value: number) => void, step = 0.5) {
+    return html`<input
+      type="number"
+      step=${step}
+      .value=${String(value)}
+      @change=${(e: Event) => {
+        const value = Number((e.target as HTMLInputElement).value);
+        if (Number.isFinite(value)) onChange(value);
+      }} />`;
+  }
+
+  private renderSettings() {
+    switch (this.active) {
+      case 'fade-in':
+      case 'fade-out':
+        return html`<label>Curve
+          <select @change=${(e: Event) => { this.curve = (e.target as HTMLSelectElement).value as FadeCurve; }}>
+            ${FADE_CURVES.map(({ id, label }) => html`<option value=${id} ?selected=${id === this.curve}>${label}</option>`)}
+          </select>
+        </label>`;
+      case 'normalize':
+        return html`
+          <label>To
+            <select @change=${(e: Event) => { this.normalizeMode = (e.target as HTMLSelectElement).value as NormalizeMode; }}>
+              <option value="peak" ?selected=${this.normalizeMode === 'peak'}>Peak</option>
+              <option value="lufs" ?selected=${this.normalizeMode === 'lufs'}>Loudness</option>
+            </select>
+          </label>
+          ${this.normalizeMode === 'peak'
+            ? html`<label>${this.numberInput(this.peakTarget, (v) => { this.peakTarget = Math.min(0, v); })} dBFS</label>`
+            : html`<label>${this.numberInput(this.lufsTarget, (v) => { this.lufsTarget = v; })} LUFS</label>`}
+        `;
+      case 'gain':
+        return html`<label>${this.numberInput(this.gainDb, (v) => { this.gainDb = v; })} dB</label>`;
+      default:
+        return '';
+    }
+  }
+
+  override render() {
+    return html`
+      <div class="operations">
+        ${EDIT_OPERATIONS.map(({ type, label }) => html`<button
+          class=${classMap({ active: this.active === type })}
+          .disabled=${this.disabled}
+          @click=${() => this.select(type)}>${label}</button>`)}
+      </div>
+      ${this.active && !this.disabled ? html`<div class="settings">
+        ${this.renderSettings()}
+        <button @click=${() => this.dispatch('edit-preview')}>${this.previewing ? 'Stop preview' : 'Preview'}</button>
+        <button class="apply" @click=${() => this.dispatch('edit-apply')}>Apply</button>
+      </div>` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'edit-tools': EditTools;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './ConfigKnob';
+import type { ConfigKnobChange } from './ConfigKnob';
+
+import type { Effect, EffectsChain } from '../utils/EffectsChain';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { ControlChange } from '../utils/types';
+
+/** Effect controls are mapped after the crossfader by default. */
+const FIRST_EFFECT_CC = 32;
+
+const EFFECT_COLORS = ['#33ccff', '#ff3355', '#ffaa00', '#33ff77', '#9900ff', '#ff00aa'];
+
+/** Knob keys are `<effect id>.<param key>`, with `wet` for the mix knob. */
+const WET_KEY = 'wet';
+
+/** Bypass, mix and parameter controls for each effect in the master chain. */
+@customElement('effects-rack')
+export class EffectsRack extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 1vmin;
+      padding: 1vmin;
+      background: #0008;
+      border-radius: 1vmin;
+      box-sizing: border-box;
+      color: #fff;
+      font-size: 1.4vmin;
+      font-weight: 500;
+      user-select: none;
+    }
+    .effect {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5vmin;
+      &.bypassed .knobs {
+        opacity: 0.4;
+      }
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    .name {
+      flex: 1;
+      font-weight: 600;
+      text-transform: uppercase;
+    }
+    .knobs {
+      display: flex;
+      gap: 0.5vmin;
+    }
+    config-knob {
+      width: 7vmin;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      padding: 1px 5px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+    }
+    .midi {
+      font-family: monospace;
+      border: 0.2vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 1px 4px;
+      background: #0006;
+      cursor: pointer;
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Object }) effectsChain: EffectsChain | null = null;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+
+  /** CCs of the knobs, then of the bypass buttons. */
+  @state() private ccs: Record<string, number> = {};
+  @state() private bypassCCs: Record<string, number> = {};
+  /** The effect whose bypass button is waiting for a CC. */
+  @state() private learningBypass: string | null = null;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('cc-message', this.handleCC);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.handleCC);
+    this.effectsChain?.removeEventListener('effects-changed', this.handleEffectsChanged);
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learningBypass = null;
+    }
+    if (changedProperties.has('effectsChain')) {
+      const previous = changedProperties.get('effectsChain') as EffectsChain | null | undefined;
+      previous?.removeEventListener('effects-changed', this.handleEffectsChanged);
+      this.effectsChain?.addEventListener('effects-changed', this.handleEffectsChanged);
+      this.assignDefaultCCs();
+    }
+    super.update(changedProperties);
+  }
+
+  private assignDefaultCCs() {
+    if (!this.effectsChain || Object.keys(this.ccs).length > 0) return;
+    const ccs: Record<string, number> = {};
+    let cc = FIRST_EFFECT_CC;
+    for (const effect of this.effectsChain.effects) {
+      ccs[`${effect.id}.${WET_KEY}`] = cc++;
+      for (const param of effect.params) {
+        ccs[`${effect.id}.${param.key}`] = cc++;
+      }
+    }
+    this.ccs = ccs;
+  }
+
+  private handleEffectsChanged = () => {
+    this.requestUpdate();
+  };
+
+  private handleCC = (e: Event) => {
+    const { cc, value } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learningBypass) {
+      this.bypassCCs = { ...this.bypassCCs, [this.learningBypass]: cc };
+      this.learningBypass = null;
+      return;
+    }
+    // Toggle on press, so momentary buttons work.
+    if (value < 64) return;
+    for (const [id, bypassCC] of Object.entries(this.bypassCCs)) {
+      if (bypassCC === cc) this.toggleBypass(id);
+    }
+  };
+
+  private toggleBypass(id: string) {
+    const effect = this.effectsChain?.getEffect(id);
+    if (!effect) return;
+    this.effectsChain!.setBypassed(id, !effect.bypassed);
+  }
+
+  private toggleBypassLearn(id: string) {
+    this.learningBypass = this.learningBypass === id ? null : id;
+  }
+
+  private handleKnobChanged(effect: Effect, e: CustomEvent<ConfigKnobChange>) {
+    const { key, value, cc } = e.detail;
+    this.ccs = { ...this.ccs, [key]: cc };
+    const paramKey = key.slice(effect.id.length + 1);
+    if (paramKey === WET_KEY) {
+      this.effectsChain!.setWet(effect.id, value ?? effect.defaultWet);
+    } else {
+      // Resetting a knob returns the parameter to its default.
+      const param = effect.params.find((p) => p.key === paramKey)!;
+      this.effectsChain!.setParam(effect.id, paramKey, value ?? param.default);
+    }
+  }
+
+  private renderEffect(effect: Effect, color: string) {
+    const learning = this.learningBypass === effect.id;
+    const bypassCC = this.bypassCCs[effect.id];
+    return html`<div class=${classMap({ effect: true, bypassed: effect.bypassed })}>
+      <div class="header">
+        <span class="name">${effect.label}</span>
+        ${this.showCC ? html`<span
+          class=${classMap({ midi: true, 'learn-mode': learning })}
+          title="Learn a CC for the on/off button"
+          @click=${() => this.toggleBypassLearn(effect.id)}>
+          ${learning ? 'Learn' : bypassCC === undefined ? 'CC:-' : `CC:${bypassCC}`}
+        </span>` : ''}
+        <button
+          class=${classMap({ active: !effect.bypassed })}
+          @click=${() => this.toggleBypass(effect.id)}>${effect.bypassed ? 'OFF' : 'ON'}</button>
+      </div>
+      <div class="knobs">
+        <config-knob
+          .key=${`${effect.id}.${WET_KEY}`}
+          .label=${'Mix'}
+          .value=${effect.wet}
+          .min=${0}
+          .max=${1}
+          .step=${0.01}
+          .color=${color}
+          .format=${(v: number) => `${Math.round(v * 100)}%`}
+          .cc=${this.ccs[`${effect.id}.${WET_KEY}`]}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showCC}
+          @config-knob-changed=${(e: CustomEvent<ConfigKnobChange>) => this.handleKnobChanged(effect, e)}></config-knob>
+        ${effect.params.map((param) => html`<config-knob
+          .key=${`${effect.id}.${param.key}`}
+          .label=${param.label}
+          .value=${effect.getParam(param.key)}
+          .min=${param.min}
+          .max=${param.max}
+          .step=${param.step}
+          .color=${color}
+          .format=${param.format ?? ((v: number) => `${v}`)}
+          .cc=${this.ccs[`${effect.id}.${param.key}`]}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showCC}
+          @config-knob-changed=${(e: CustomEvent<ConfigKnobChange>) => this.handleKnobChanged(effect, e)}></config-knob>`)}
+      </div>
+    </div>`;
+  }
+
+  override render() {
+    if (!this.effectsChain) return '';
+    return this.effectsChain.effects.map((effect, i) =>
+      this.renderEffect(effect, EFFECT_COLORS[i % EFFECT_COLORS.length]));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'effects-rack': EffectsRack;
+  }
+}
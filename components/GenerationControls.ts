@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { Scale, type LiveMusicGenerationConfig } from '@google/genai';
+
+import './ConfigKnob';
+import type { ConfigKnobChange } from './ConfigKnob';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { RESET_REQUIRED_CONFIG_KEYS } from '../utils/LiveMusicHelper';
+import type { GenerationConfigChangedEventDetail, LiveMusicHelper } from '../utils/LiveMusicHelper';
+
+type NumericConfigKey = 'bpm' | 'scale' | 'density' | 'brightness' | 'guidance' | 'temperature' | 'topK';
+
+interface ConfigParam {
+  key: NumericConfigKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  color: string;
+  format?: (value: number) => string;
+}
+
+/** Scales in chromatic order, indexed by the scale knob. */
+const SCALES: { scale: Scale, label: string }[] = [
+  { scale: Scale.C_MAJOR_A_MINOR, label: 'C / Am' },
+  { scale: Scale.D_FLAT_MAJOR_B_FLAT_MINOR, label: 'D♭ / B♭m' },
+  { scale: Scale.D_MAJOR_B_MINOR, label: 'D / Bm' },
+  { scale: Scale.E_FLAT_MAJOR_C_MINOR, label: 'E♭ / Cm' },
+  { scale: Scale.E_MAJOR_D_FLAT_MINOR, label: 'E / C♯m' },
+  { scale: Scale.F_MAJOR_D_MINOR, label: 'F / Dm' },
+  { scale: Scale.G_FLAT_MAJOR_E_FLAT_MINOR, label: 'G♭ / E♭m' },
+  { scale: Scale.G_MAJOR_E_MINOR, label: 'G / Em' },
+  { scale: Scale.A_FLAT_MAJOR_F_MINOR, label: 'A♭ / Fm' },
+  { scale: Scale.A_MAJOR_G_FLAT_MINOR, label: 'A / F♯m' },
+  { scale: Scale.B_FLAT_MAJOR_G_MINOR, label: 'B♭ / Gm' },
+  { scale: Scale.B_MAJOR_A_FLAT_MINOR, label: 'B / G♯m' },
+];
+
+const CONFIG_PARAMS: ConfigParam[] = [
+  { key: 'bpm', label: 'BPM', min: 60, max: 200, step: 1, color: '#ff3355' },
+  { key: 'scale', label: 'Scale', min: 0, max: SCALES.length - 1, step: 1, color: '#ffaa00', format: (i) => SCALES[i].label },
+  { key: 'density', label: 'Density', min: 0, max: 1, step: 0.01, color: '#33ff77', format: (v) => v.toFixed(2) },
+  { key: 'brightness', label: 'Bright', min: 0, max: 1, step: 0.01, color: '#1affff', format: (v) => v.toFixed(2) },
+  { key: 'guidance', label: 'Guidance', min: 0, max: 6, step: 0.1, color: '#9900ff', format: (v) => v.toFixed(1) },
+  { key: 'temperature', label: 'Temp', min: 0, max: 3, step: 0.1, color: '#ff00aa', format: (v) => v.toFixed(1) },
+  { key: 'topK', label: 'Top K', min: 1, max: 1000, step: 1, color: '#33ccff' },
+];
+
+/** Generation config knobs are mapped after the 16 prompt knobs by default. */
+const FIRST_CONFIG_CC = 16;
+
+/** A strip of knobs for the Lyria music generation config. */
+@customElement('generation-controls')
+export class GenerationControls extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 1vmin;
+      padding: 1vmin;
+      background: #0008;
+      border-radius: 1vmin;
+      box-sizing: border-box;
+    }
+    config-knob {
+      width: 8vmin;
+    }
+    #seed {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.3vmin;
+      color: #fff;
+      font-size: 1.4vmin;
+      font-weight: 500;
+      text-transform: uppercase;
+    }
+    #seed input {
+      width: 7vmin;
+      font: inherit;
+      font-family: monospace;
+      text-align: center;
+      background: #000;
+      color: #fff;
+      border: none;
+      border-radius: 0.25vmin;
+      outline: none;
+    }
+    button {
+      font: inherit;
+      font-size: 1.4vmin;
+      font-weight: 600;
+      cursor: pointer;
+      color: #000;
+      background: orange;
+      border: none;
+      border-radius: 4px;
+      padding: 3px 6px;
+      &:disabled {
+        background: #fff3;
+        color: #fff8;
+        cursor: not-allowed;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+  /** The focused deck's, whose config the knobs show and change. */
+  @property({ type: Object }) liveMusicHelper: LiveMusicHelper | null = null;
+
+  /** The config last sent to the session. */
+  @state() private config: LiveMusicGenerationConfig = {};
+  /** Changes to context-resetting parameters that haven't been applied yet. */
+  @state() private pending: LiveMusicGenerationConfig = {};
+  @state() private ccs: Record<string, number> = Object.fromEntries(
+    CONFIG_PARAMS.map((param, i) => [param.key, FIRST_CONFIG_CC + i]),
+  );
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.liveMusicHelper?.removeEventListener('generation-config-changed', this.handleConfigChanged);
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('liveMusicHelper')) {
+      const previous = changedProperties.get('liveMusicHelper') as LiveMusicHelper | null | undefined;
+      previous?.removeEventListener('generation-config-changed', this.handleConfigChanged);
+      this.liveMusicHelper?.addEventListener('generation-config-changed', this.handleConfigChanged);
+      // Another deck: show its config, and drop changes waiting for this one.
+      this.config = this.liveMusicHelper?.musicGenerationConfig ?? {};
+      this.pending = {};
+    }
+    super.update(changedProperties);
+  }
+
+  /** Follows changes made elsewhere, e.g. by syncing the decks' BPM. */
+  private handleConfigChanged = (e: Event) => {
+    const { config } = (e as CustomEvent<GenerationConfigChangedEventDetail>).detail;
+    this.config = config;
+    // Pending changes the deck now has anyway are no longer pending.
+    const pending = Object.entries(this.pending).filter(([key, value]) => config[key as keyof LiveMusicGenerationConfig] !== value);
+    this.pending = Object.fromEntries(pending);
+  };
+
+  private toKnobValue(key: NumericConfigKey, config: LiveMusicGenerationConfig): number | null {
+    if (key === 'scale') {
+      const index = SCALES.findIndex((s) => s.scale === config.scale);
+      return index === -1 ? null : index;
+    }
+    return config[key] ?? null;
+  }
+
+  private fromKnobValue(key: NumericConfigKey, value: number | null): LiveMusicGenerationConfig {
+    if (key === 'scale') {
+      return { scale: value === null ? undefined : SCALES[value].scale };
+    }
+    return { [key]: value ?? undefined };
+  }
+
+  private handleKnobChanged(e: CustomEvent<ConfigKnobChange>) {
+    const { value, cc } = e.detail;
+    const key = e.detail.key as NumericConfigKey;
+    this.ccs = { ...this.ccs, [key]: cc };
+
+    const change = this.fromKnobValue(key, value);
+    if (RESET_REQUIRED_CONFIG_KEYS.includes(key)) {
+      this.pending = { ...this.pending, ...change };
+    } else {
+      this.dispatchConfigChange(change);
+    }
+  }
+
+  private handleSeedChanged(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const seed = input.value === '' ? undefined : Math.abs(Math.round(Number(input.value)));
+    if (seed !== undefined && isNaN(seed)) {
+      input.value = this.config.seed?.toString() ?? '';
+      return;
+    }
+    this.dispatchConfigChange({ seed });
+  }
+
+  private applyPending() {
+    this.dispatchConfigChange(this.pending);
+    this.pending = {};
+  }
+
+  private dispatchConfigChange(change: LiveMusicGenerationConfig) {
+    this.config = { ...this.config, ...change };
+    this.dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('generation-config-changed', { detail: change }),
+    );
+  }
+
+  override render() {
+    const hasPending = Object.keys(this.pending).length > 0;
+    return html`
+      ${CONFIG_PARAMS.map((param) => {
+        const isPending = param.key in this.pending;
+        const value = this.toKnobValue(param.key, isPending ? this.pending : this.config);
+        return html`<config-knob
+          .key=${param.key}
+          .label=${param.label}
+          .value=${value}
+          .min=${param.min}
+          .max=${param.max}
+          .step=${param.step}
+          .color=${param.color}
+          .format=${param.format ?? ((v: number) => `${v}`)}
+          .cc=${this.ccs[param.key]}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showCC}
+          ?resetRequired=${RESET_REQUIRED_CONFIG_KEYS.includes(param.key)}
+          ?pending=${isPending}
+          @config-knob-changed=${this.handleKnobChanged}></config-knob>`;
+      })}
+      <label id="seed">
+        Seed
+        <input
+          type="number"
+          min="0"
+          placeholder="Auto"
+          .value=${this.config.seed?.toString() ?? ''}
+          @change=${this.handleSeedChanged} />
+      </label>
+      <button
+        title="Apply BPM and scale changes. This resets the music context."
+        .disabled=${!hasPending}
+        @click=${this.applyPending}>APPLY ⟳</button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'generation-controls': GenerationControls;
+  }
+}
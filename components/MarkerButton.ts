@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { ControlChange } from '../utils/types';
+
+/** Mapped after the capture button by default. */
+const DEFAULT_MARKER_CC = 26;
+
+/**
+ * Drops a marker in the recording. Clicking, or a MIDI CC press, dispatches
+ * `marker`.
+ */
+@customElement('marker-button')
+export class MarkerButton extends LitElement {
+  static override styles = css`
+    :host {
+      position: relative;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+    }
+    #marker {
+      height: 7vmin;
+      padding: 0 2vmin;
+      border-radius: 3.5vmin;
+      border: none;
+      cursor: pointer;
+      background: #212121;
+      color: #fff;
+      font: inherit;
+      font-size: 2vmin;
+      font-weight: 600;
+      box-shadow:
+        -5px -5px 10px rgba(255, 255, 255, 0.08),
+        5px 5px 10px rgba(0, 0, 0, 0.5);
+      transition: box-shadow 0.1s ease-in-out;
+      &:hover {
+        box-shadow:
+          -2px -2px 5px rgba(255, 255, 255, 0.08),
+          2px 2px 5px rgba(0, 0, 0, 0.5);
+      }
+      &:active, &:disabled {
+        box-shadow: inset -5px -5px 10px rgba(255, 255, 255, 0.08),
+                  inset 5px 5px 10px rgba(0, 0, 0, 0.5);
+      }
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+    #midi {
+      position: absolute;
+      top: 100%;
+      color: #fff;
+      font-family: monospace;
+      font-size: 1.3vmin;
+      border: 0.2vmin solid #fff;
+      border-radius: 0.5vmin;
+      padding: 1px 4px;
+      background: #0006;
+      cursor: pointer;
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+  /** Set while not recording. */
+  @property({ type: Boolean }) disabled = false;
+
+  @state() private cc = DEFAULT_MARKER_CC;
+  @state() private learnMode = false;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('cc-message', this.handleCC);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.handleCC);
+  }
+
+  override update(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('showCC') && !this.showCC) {
+      this.learnMode = false;
+    }
+    super.update(changedProperties);
+  }
+
+  private handleCC = (e: Event) => {
+    const { cc, value } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learnMode) {
+      this.cc = cc;
+      this.learnMode = false;
+    } else if (cc === this.cc && value >= 64) {
+      // On press, so momentary buttons work.
+      this.mark();
+    }
+  };
+
+  private mark() {
+    if (this.disabled) return;
+    this.dispatchEvent(new CustomEvent('marker'));
+  }
+
+  override render() {
+    return html`
+      <button
+        id="marker"
+        .disabled=${this.disabled}
+        @click=${this.mark}
+        title="Drop a marker in the recording (M)">
+        MARKER
+      </button>
+      ${this.showCC ? html`<span
+        id="midi"
+        class=${classMap({ 'learn-mode': this.learnMode })}
+        @click=${() => { this.learnMode = !this.learnMode; }}>
+        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      </span>` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'marker-button': MarkerButton;
+  }
+}
@@ -4,7 +4,7 @@
  */
 import { css, html, LitElement } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { ALL_PRESETS, type Preset } from '../utils/presets';
+import { ALL_PRESETS, deleteUserPreset, loadUserPresets, type Preset } from '../utils/presets';
 
 /**
  * Modal for selecting music presets
@@ -189,6 +189,57 @@ export class PresetModal extends LitElement {
       line-height: 1.4;
     }
 
+    .section-title {
+      color: #999;
+      font-size: 14px;
+      font-weight: 600;
+      text-transform: uppercase;
+      margin: 20px 0 10px;
+    }
+
+    .save-preset {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 10px;
+    }
+
+    .save-preset input {
+      flex: 1;
+      padding: 10px;
+      background: #222;
+      border: 2px solid #444;
+      border-radius: 6px;
+      color: #fff;
+      font-size: 14px;
+      outline: none;
+    }
+
+    .save-preset input:focus {
+      border-color: #9900ff;
+    }
+
+    .user-preset {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .user-preset .preset-item {
+      flex: 1;
+    }
+
+    .delete-button {
+      background: transparent;
+      border: none;
+      color: #999;
+      font-size: 20px;
+      cursor: pointer;
+    }
+
+    .delete-button:hover {
+      color: #ff4757;
+    }
+
     .locked-message {
       text-align: center;
       color: #999;
@@ -226,6 +277,8 @@ export class PresetModal extends LitElement {
   `;
 
   @state() private isUnlocked = false;
+  @state() private userPresets: Record<string, Preset> = loadUserPresets();
+  @state() private newPresetName = '';
   @state() private passwordError = '';
   @property({ type: Boolean }) private requirePassword = false;
 
@@ -262,7 +315,7 @@ export class PresetModal extends LitElement {
   }
 
   private selectPreset(presetId: string) {
-    const preset = ALL_PRESETS[presetId];
+    const preset = ALL_PRESETS[presetId] ?? this.userPresets[presetId];
     if (preset) {
       this.dispatchEvent(new CustomEvent('preset-selected', {
         detail: { presetId, preset },
@@ -271,6 +324,21 @@ export class PresetModal extends LitElement {
     }
   }
 
+  /** Asks the parent to save the current prompts and effects under a new name. */
+  private savePreset(e?: Event) {
+    e?.preventDefault();
+    const name = this.newPresetName.trim();
+    if (!name) return;
+    this.dispatchEvent(new CustomEvent('preset-save', { detail: { name } }));
+    this.newPresetName = '';
+    this.userPresets = loadUserPresets();
+  }
+
+  private deletePreset(presetId: string) {
+    deleteUserPreset(presetId);
+    this.userPresets = loadUserPresets();
+  }
+
   override render() {
     const showPresets = !this.requirePassword || this.isUnlocked;
 
@@ -278,7 +346,7 @@ export class PresetModal extends LitElement {
       <div class="overlay" @click=${this.handleOverlayClick}>
         <div class="modal" @click=${(e: Event) => e.stopPropagation()}>
           <div class="modal-header">
-            <h2>Regional Presets</h2>
+            <h2>Presets</h2>
             <button class="close-button" @click=${this.close}>&times;</button>
           </div>
 
@@ -313,6 +381,27 @@ export class PresetModal extends LitElement {
 
   private renderPresetList() {
     return html`
+      <div class="section-title">My Presets</div>
+      <form class="save-preset" @submit=${this.savePreset}>
+        <input
+          type="text"
+          placeholder="Save current prompts and effects as..."
+          .value=${this.newPresetName}
+          @input=${(e: Event) => { this.newPresetName = (e.target as HTMLInputElement).value; }} />
+        <button class="unlock-button" type="submit">Save</button>
+      </form>
+      <div class="preset-list">
+        ${Object.entries(this.userPresets).map(([id, preset]) => html`
+          <div class="user-preset">
+            <div class="preset-item" @click=${() => this.selectPreset(id)}>
+              <div class="preset-name">${preset.name}</div>
+              <div class="preset-description">${preset.description}</div>
+            </div>
+            <button class="delete-button" title="Delete" @click=${() => this.deletePreset(id)}>&times;</button>
+          </div>
+        `)}
+      </div>
+      <div class="section-title">Built-in Presets</div>
       <div class="preset-list">
         ${Object.entries(ALL_PRESETS).map(([id, preset]) => html`
           <div class="preset-item" @click=${() => this.selectPreset(id)}>
@@ -8,19 +8,65 @@ import { styleMap } from 'lit/directives/style-map.js';
 import { classMap } from 'lit/directives/class-map.js';
 
 import { throttle } from '../utils/throttle';
+import { formatDuration } from '../utils/time';
 
 import './PromptController';
 import './PlayPauseButton';
 import './AudioEditor';
+import type { SendLoopEventDetail } from './AudioEditor';
 import './DrumSequencer';
 import './ApiKeyModal';
 import './PresetModal';
+import './GenerationControls';
+import './DeckMixerPanel';
+import './EffectsRack';
+import './AudioVisualizer';
+import type { VisualizerMode } from './AudioVisualizer';
+import './CaptureButton';
+import './MarkerButton';
+import './RecordingsLibrary';
 import type { PlaybackState, Prompt, RecordingState } from '../types';
 import { MidiDispatcher } from '../utils/MidiDispatcher';
-import { AudioRecorder } from '../utils/AudioRecorder';
+import { DEFAULT_RECORDING_FORMAT, RECORDING_FORMATS } from '../utils/AudioRecorder';
+import type { RecordingFormat, Stem } from '../utils/AudioRecorder';
+import { DEFAULT_CAPTURE_LENGTH } from '../utils/CaptureBuffer';
 import { LiveMusicHelper } from '../utils/LiveMusicHelper';
+import type { ReconnectingEventDetail } from '../utils/LiveMusicHelper';
+import type { BufferStats } from '../utils/JitterBuffer';
+import type { LoudnessStats } from '../utils/LoudnessMeter';
+import type { AudioAnalyser } from '../utils/AudioAnalyser';
+import type { TempoTracker } from '../utils/TempoTracker';
+import type { DetectedKey } from '../utils/KeyDetector';
+import type { RecordingFinishedEventDetail, RecordingMetadata } from '../utils/LiveMusicHelper';
+import type { DeckId, DeckMixer } from '../utils/DeckMixer';
 import { ApiKeyStorage } from '../utils/ApiKeyStorage';
-import type { Preset } from '../utils/presets';
+import { saveUserPreset, type Preset } from '../utils/presets';
+import type { LiveMusicGenerationConfig } from '@google/genai';
+
+type BackgroundMode = 'gradient' | VisualizerMode;
+
+/** Backgrounds in the order the BG button cycles through them. */
+const BACKGROUND_MODES: BackgroundMode[] = ['gradient', 'bands', 'scope', 'spectrogram'];
+
+const RECORDING_FORMAT_KEY = 'recording_format';
+const MULTITRACK_KEY = 'record_multitrack';
+const CAPTURE_LENGTH_KEY = 'capture_length';
+
+/** The last recording format picked from the record button's menu. */
+function loadRecordingFormat(): RecordingFormat {
+  const saved = localStorage.getItem(RECORDING_FORMAT_KEY);
+  return RECORDING_FORMATS.find(({ id }) => id === saved)?.id ?? DEFAULT_RECORDING_FORMAT;
+}
+
+function loadCaptureLength() {
+  return Number(localStorage.getItem(CAPTURE_LENGTH_KEY)) || DEFAULT_CAPTURE_LENGTH;
+}
+
+export interface ToggleRecordingEventDetail {
+  format: RecordingFormat;
+  /** Also record each source as its own stem. */
+  multitrack: boolean;
+}
 
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
@@ -102,6 +148,46 @@ export class PromptDjMidi extends LitElement {
       margin-top: 1vmin;
       width: 80vmin;
     }
+    #record-control {
+      position: relative;
+    }
+    #record-format-menu {
+      position: absolute;
+      bottom: calc(100% + 1vmin);
+      left: 50%;
+      transform: translateX(-50%);
+      display: flex;
+      flex-direction: column;
+      padding: 0.5vmin;
+      background: #212121;
+      border-radius: 8px;
+      box-shadow: 5px 5px 10px rgba(0, 0, 0, 0.5);
+      z-index: 10;
+      button {
+        white-space: nowrap;
+        text-align: left;
+        border: none;
+        background: none;
+        color: #fff;
+        font-size: 1.5vmin;
+        padding: 0.6vmin 1.2vmin;
+        border-radius: 4px;
+        cursor: pointer;
+        &:hover {
+          background: #fff2;
+        }
+        &.active {
+          color: #3dffab;
+        }
+        &.toggle {
+          border-top: 1px solid #fff2;
+        }
+        &:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+      }
+    }
     #record-button {
       width: 7vmin;
       height: 7vmin;
@@ -140,24 +226,17 @@ export class PromptDjMidi extends LitElement {
     #record-button.recording svg {
       fill: #ff253a;
     }
-    #recording-progress-container {
-      width: 40vmin;
-      height: 4px;
-      background-color: rgba(0, 0, 0, 0.3);
-      border-radius: 2px;
-      margin-top: 2vmin;
-      overflow: hidden;
+    #recording-time {
       display: none;
+      margin-top: 2vmin;
+      color: #ff253a;
+      font-family: monospace;
+      font-size: 1.8vmin;
+      font-variant-numeric: tabular-nums;
     }
-    :host([recordingstate="recording"]) #recording-progress-container {
+    :host([recordingstate="recording"]) #recording-time {
       display: block;
     }
-    #recording-progress-bar {
-      height: 100%;
-      background: #9900ff;
-      border-radius: 2px;
-      transition: width 0.1s linear;
-    }
     #transition-controls {
       display: flex;
       flex-direction: row;
@@ -184,6 +263,98 @@ export class PromptDjMidi extends LitElement {
         font-size: 1.8vmin;
         line-height: 1;
     }
+    #connection-status {
+      position: absolute;
+      top: 5px;
+      left: 50%;
+      transform: translateX(-50%);
+      padding: 3px 10px;
+      border-radius: 4px;
+      background: orange;
+      color: #000;
+      font-weight: 600;
+      user-select: none;
+      animation: pulse 1s ease-in-out infinite alternate;
+    }
+    @keyframes pulse {
+      from { opacity: 1; }
+      to { opacity: 0.6; }
+    }
+    #meters {
+      position: absolute;
+      top: 0;
+      right: 0;
+      padding: 5px;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-end;
+      gap: 3px;
+    }
+    #loudness {
+      display: flex;
+      gap: 8px;
+      color: #fff;
+      font-family: monospace;
+      font-size: 1.3vmin;
+      cursor: pointer;
+      user-select: none;
+      .over {
+        color: #ff3355;
+      }
+      .limiting {
+        color: orange;
+      }
+    }
+    #key {
+      color: #fff;
+      font-family: monospace;
+      font-size: 1.3vmin;
+      user-select: none;
+      .confidence {
+        opacity: 0.6;
+      }
+    }
+    #buffer-health {
+      display: flex;
+      align-items: center;
+      gap: 5px;
+      color: #fff;
+      font-size: 1.3vmin;
+      font-weight: 500;
+      user-select: none;
+    }
+    #buffer-meter {
+      width: 10vmin;
+      height: 0.8vmin;
+      background: #0006;
+      border-radius: 0.4vmin;
+      overflow: hidden;
+    }
+    #buffer-meter-fill {
+      height: 100%;
+      transition: width 0.2s linear, background-color 0.2s;
+    }
+    deck-mixer-panel {
+      position: absolute;
+      left: 1vmin;
+      bottom: 1vmin;
+    }
+    effects-rack {
+      position: absolute;
+      left: 1vmin;
+      top: 50%;
+      transform: translateY(-50%);
+      max-height: 80vh;
+      overflow-y: auto;
+    }
+    generation-controls {
+      position: absolute;
+      right: 1vmin;
+      top: 50%;
+      transform: translateY(-50%);
+      max-height: 96vh;
+      overflow-y: auto;
+    }
     #sequencer-button {
       height: 7vmin;
       padding: 0 2vmin;
@@ -216,6 +387,15 @@ export class PromptDjMidi extends LitElement {
   @property({ type: Boolean }) private showMidi = false;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
   @property({ type: String, reflect: true }) public recordingState: RecordingState = 'idle';
+  /** Whether either deck is playing, which recording needs. */
+  @property({ type: Boolean }) public isBusPlaying = false;
+  /** Set while LiveMusicHelper is trying to re-open a dropped session. */
+  @property({ type: Object }) public reconnecting: ReconnectingEventDetail | null = null;
+  @property({ type: Object }) public bufferStats: BufferStats | null = null;
+  @property({ type: Object }) public loudness: LoudnessStats | null = null;
+  /** The master limiter's current gain reduction, in dB. */
+  @property({ type: Number }) public gainReduction = 0;
+  @property({ type: Object }) public detectedKey: DetectedKey | null = null;
 
   @state() public audioLevel = 0;
   @state() private midiInputIds: string[] = [];
@@ -224,11 +404,33 @@ export class PromptDjMidi extends LitElement {
   @state() private recordingTime = 0;
   private recordingTimerId: number | null = null;
   @state() private recordedAudioBlob: Blob | null = null;
+  @state() private recordedStems: Stem[] = [];
+  @state() private recordingFormat = loadRecordingFormat();
+  @state() private isFormatMenuOpen = false;
+  @state() private recordMultitrack = localStorage.getItem(MULTITRACK_KEY) === 'true';
+  /** Seconds kept by the capture buffer. */
+  @property({ type: Number }) public captureLength = loadCaptureLength();
+  @property({ type: Boolean }) public isCapturing = false;
+  @state() private recordingMetadata: RecordingMetadata | null = null;
   @state() private isEditorOpen = false;
   @state() private isSequencerOpen = false;
+  /** The last loop sent from the editor, kept for the sequencer while it's closed. */
+  @state() private sequencerLoop: SendLoopEventDetail | null = null;
   @state() private transitionBars = 4;
   @state() private isApiModalOpen = false;
   @state() private isPresetModalOpen = false;
+  @state() private isLibraryOpen = false;
+  @state() private showGenerationControls = false;
+  @state() private showEffects = false;
+  @state() private backgroundMode: BackgroundMode = 'gradient';
+  @property({ type: Object }) public audioAnalyser: AudioAnalyser | null = null;
+  @property({ type: Object }) public tempoTracker: TempoTracker | null = null;
+
+  @state() private deckMode = false;
+  @property({ type: String }) public focusedDeck: DeckId = 'A';
+  @property({ type: Object }) public deckMixer: DeckMixer | null = null;
+  /** Each deck's prompt grid. The focused deck's is also `this.prompts`. */
+  private deckPrompts: Partial<Record<DeckId, Map<string, Prompt>>> = {};
   @state() private requirePassword = false;
 
   @property({ type: Object })
@@ -246,6 +448,7 @@ export class PromptDjMidi extends LitElement {
 
   public setLiveMusicHelper(helper: LiveMusicHelper) {
     this.liveMusicHelper = helper;
+    this.requestUpdate();
   }
 
   override connectedCallback() {
@@ -266,6 +469,18 @@ export class PromptDjMidi extends LitElement {
       e.preventDefault();
       this.openPresetModal(true); // true = require password
     }
+    // M drops a marker, unless typing or editing.
+    const isTyping = e.composedPath().some((target) => target instanceof HTMLInputElement
+      || target instanceof HTMLTextAreaElement
+      || (target instanceof HTMLElement && target.isContentEditable));
+    if (e.key.toLowerCase() === 'm' && !e.ctrlKey && !e.metaKey && !e.altKey && !isTyping && !this.isEditorOpen) {
+      this.addMarker();
+    }
+  }
+
+  private addMarker() {
+    if (this.recordingState !== 'recording') return;
+    this.dispatchEvent(new CustomEvent('add-marker'));
   }
 
   override updated(changedProperties: Map<string, unknown>) {
@@ -381,24 +596,104 @@ export class PromptDjMidi extends LitElement {
     this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
   }
 
-  public showEditor(blob: Blob) {
+  public showEditor(blob: Blob, metadata: RecordingMetadata | null = null, stems: Stem[] = []) {
     this.recordedAudioBlob = blob;
+    this.recordingMetadata = metadata;
+    this.recordedStems = stems;
     this.isEditorOpen = true;
   }
 
   private closeEditor() {
       this.isEditorOpen = false;
       this.recordedAudioBlob = null;
+      this.recordingMetadata = null;
+      this.recordedStems = [];
   }
 
   private toggleRecording() {
-      this.dispatchEvent(new CustomEvent('toggle-recording'));
+      this.isFormatMenuOpen = false;
+      this.dispatchEvent(new CustomEvent<ToggleRecordingEventDetail>('toggle-recording', {
+        detail: { format: this.recordingFormat, multitrack: this.recordMultitrack },
+      }));
+  }
+
+  private toggleMultitrack() {
+    this.recordMultitrack = !this.recordMultitrack;
+    localStorage.setItem(MULTITRACK_KEY, String(this.recordMultitrack));
+  }
+
+  private handleCaptureLengthChanged(e: CustomEvent<number>) {
+    this.captureLength = e.detail;
+    localStorage.setItem(CAPTURE_LENGTH_KEY, String(e.detail));
+    this.dispatchEvent(new CustomEvent<number>('capture-length-changed', { detail: e.detail }));
+  }
+
+  private openFormatMenu(e: Event) {
+    e.preventDefault();
+    this.isFormatMenuOpen = !this.isFormatMenuOpen;
+  }
+
+  private selectRecordingFormat(format: RecordingFormat) {
+    this.recordingFormat = format;
+    this.isFormatMenuOpen = false;
+    localStorage.setItem(RECORDING_FORMAT_KEY, format);
   }
 
   private toggleSequencer() {
     this.isSequencerOpen = !this.isSequencerOpen;
   }
 
+  /** Opens the sequencer over the editor with the loop as its melody. */
+  private handleSendLoop(e: CustomEvent<SendLoopEventDetail>) {
+    this.sequencerLoop = e.detail;
+    this.isSequencerOpen = true;
+  }
+
+  private toggleGenerationControls() {
+    this.showGenerationControls = !this.showGenerationControls;
+  }
+
+  private cycleBackgroundMode() {
+    const index = BACKGROUND_MODES.indexOf(this.backgroundMode);
+    this.backgroundMode = BACKGROUND_MODES[(index + 1) % BACKGROUND_MODES.length];
+  }
+
+  private toggleEffects() {
+    this.showEffects = !this.showEffects;
+  }
+
+  private handleGenerationConfigChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+    this.dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('generation-config-changed', { detail: e.detail }),
+    );
+  }
+
+  private toggleDeckMode() {
+    this.deckMode = !this.deckMode;
+    if (this.deckMode) {
+      this.deckPrompts.A = this.prompts;
+      // Deck B starts as a copy of the current grid.
+      this.deckPrompts.B ??= new Map([...this.prompts].map(([id, p]) => [id, { ...p }]));
+    } else {
+      this.focusDeck('A');
+    }
+    this.dispatchEvent(new CustomEvent('deck-mode-changed', {
+      detail: { enabled: this.deckMode, prompts: this.deckPrompts.B },
+    }));
+  }
+
+  private handleDeckFocusChanged(e: CustomEvent<DeckId>) {
+    this.focusDeck(e.detail);
+  }
+
+  private focusDeck(deck: DeckId) {
+    if (deck === this.focusedDeck) return;
+    this.deckPrompts[this.focusedDeck] = this.prompts;
+    this.focusedDeck = deck;
+    this.prompts = this.deckPrompts[deck]!;
+    this.dispatchEvent(new CustomEvent<DeckId>('deck-focus-changed', { detail: deck }));
+  }
+
   private setTransitionBars(bars: number) {
     this.transitionBars = bars;
   }
@@ -428,6 +723,16 @@ export class PromptDjMidi extends LitElement {
     this.isPresetModalOpen = false;
   }
 
+  /** Opens the recordings library, e.g. to recover interrupted takes. */
+  public openLibrary() {
+    this.isLibraryOpen = true;
+  }
+
+  private handleTakeOpened(e: CustomEvent<RecordingFinishedEventDetail>) {
+    this.isLibraryOpen = false;
+    this.showEditor(e.detail.blob, e.detail.metadata, e.detail.stems);
+  }
+
   private handlePresetSelected(e: CustomEvent<{ presetId: string; preset: Preset }>) {
     const { preset } = e.detail;
     
@@ -446,6 +751,9 @@ export class PromptDjMidi extends LitElement {
     });
     
     this.prompts = newPrompts;
+    if (preset.effects) {
+      this.liveMusicHelper?.effects.applySettings(preset.effects);
+    }
     this.requestUpdate();
     
     // Notify parent of prompts change
@@ -459,6 +767,16 @@ export class PromptDjMidi extends LitElement {
     );
   }
 
+  private handlePresetSave(e: CustomEvent<{ name: string }>) {
+    const prompts = [...this.prompts.values()];
+    saveUserPreset({
+      name: e.detail.name,
+      description: prompts.filter((p) => p.weight > 0).map((p) => p.text.trim()).join(', '),
+      prompts: prompts.map(({ color, text }) => ({ color, text })),
+      effects: this.liveMusicHelper?.effects.getSettings(),
+    });
+  }
+
   private handleApiModalCancel() {
     this.isApiModalOpen = false;
   }
@@ -467,11 +785,13 @@ export class PromptDjMidi extends LitElement {
     const bg = styleMap({
       backgroundImage: this.makeBackground(),
     });
-    const recordingProgress = this.recordingState === 'recording' ? 
-        (this.recordingTime / AudioRecorder.MAX_DURATION) * 100 : 0;
-    const progressBarStyle = styleMap({ width: `${recordingProgress}%` });
 
-    return html`<div id="background" style=${bg}></div>
+    return html`${this.backgroundMode === 'gradient'
+        ? html`<div id="background" style=${bg}></div>`
+        : html`<audio-visualizer
+            id="background"
+            .analyser=${this.audioAnalyser}
+            .mode=${this.backgroundMode}></audio-visualizer>`}
       <div id="buttons">
         <button
           @click=${this.toggleApiModal}
@@ -482,6 +802,31 @@ export class PromptDjMidi extends LitElement {
           @click=${() => this.openPresetModal(false)}
           >PRESETS</button
         >
+        <button
+          @click=${this.openLibrary}
+          >TAKES</button
+        >
+        <button
+          @click=${this.toggleGenerationControls}
+          class=${this.showGenerationControls ? 'active' : ''}
+          >CONFIG</button
+        >
+        <button
+          @click=${this.toggleEffects}
+          class=${this.showEffects ? 'active' : ''}
+          >FX</button
+        >
+        <button
+          @click=${this.cycleBackgroundMode}
+          title="Switch the background visualizer"
+          class=${this.backgroundMode !== 'gradient' ? 'active' : ''}
+          >BG: ${this.backgroundMode.toUpperCase()}</button
+        >
+        <button
+          @click=${this.toggleDeckMode}
+          class=${this.deckMode ? 'active' : ''}
+          >DECKS</button
+        >
         <button
           @click=${this.toggleShowMidi}
           class=${this.showMidi ? 'active' : ''}
@@ -501,24 +846,66 @@ export class PromptDjMidi extends LitElement {
         : html`<option value="">No devices found</option>`}
         </select>
       </div>
-      <div id="grid">${this.renderPrompts()}</div>
-      <div id="recording-progress-container">
-        <div id="recording-progress-bar" style=${progressBarStyle}></div>
+      ${this.reconnecting ? html`<div id="connection-status">
+        Reconnecting… (attempt ${this.reconnecting.attempt}/${this.reconnecting.maxAttempts})
+      </div>` : ''}
+      <div id="meters">
+        ${this.renderLoudness()}
+        ${this.renderKey()}
+        ${this.renderBufferHealth()}
       </div>
+      <div id="grid">${this.renderPrompts()}</div>
+      <generation-controls
+        .liveMusicHelper=${this.deckMixer && this.focusedDeck === 'B' ? this.deckMixer.decks.B : this.liveMusicHelper}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showMidi}
+        style=${this.showGenerationControls ? '' : 'display: none'}
+        @generation-config-changed=${this.handleGenerationConfigChanged}></generation-controls>
+      <effects-rack
+        .effectsChain=${this.liveMusicHelper?.effects ?? null}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showMidi}
+        style=${this.showEffects ? '' : 'display: none'}></effects-rack>
+      <div id="recording-time">● REC ${formatDuration(this.recordingTime / 1000)}</div>
       <div id="bottom-controls">
         <button id="sequencer-button" @click=${this.toggleSequencer}>BEATGRID</button>
         <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
-        <button
-          id="record-button"
-          class=${this.recordingState === 'recording' ? 'recording' : ''}
-          .disabled=${this.playbackState !== 'playing' && this.recordingState === 'idle'}
-          @click=${this.toggleRecording}
-          title="Record"
-        >
-          <svg viewBox="0 0 24 24">
-            <circle cx="12" cy="12" r="8"></circle>
-          </svg>
-        </button>
+        <div id="record-control" @pointerleave=${() => { this.isFormatMenuOpen = false; }}>
+          ${this.isFormatMenuOpen ? html`<div id="record-format-menu">
+            ${RECORDING_FORMATS.map(({ id, label }) => html`<button
+              class=${classMap({ active: id === this.recordingFormat })}
+              @click=${() => this.selectRecordingFormat(id)}>${label}</button>`)}
+            <button
+              class=${classMap({ active: this.recordMultitrack, toggle: true })}
+              .disabled=${this.recordingFormat === 'opus'}
+              title="Also record the stream, drums and melody as separate stems. Not available with Opus."
+              @click=${this.toggleMultitrack}>${this.recordMultitrack ? '☑' : '☐'} Multitrack stems</button>
+          </div>` : ''}
+          <button
+            id="record-button"
+            class=${this.recordingState === 'recording' ? 'recording' : ''}
+            .disabled=${!this.isBusPlaying && this.recordingState === 'idle'}
+            @click=${this.toggleRecording}
+            @contextmenu=${this.openFormatMenu}
+            title=${`Record as ${RECORDING_FORMATS.find(({ id }) => id === this.recordingFormat)!.label}. Right-click to change the format.`}
+          >
+            <svg viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="8"></circle>
+            </svg>
+          </button>
+        </div>
+        <capture-button
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          .length=${this.captureLength}
+          .busy=${this.isCapturing}
+          @capture=${() => this.dispatchEvent(new CustomEvent('capture'))}
+          @capture-length-changed=${this.handleCaptureLengthChanged}></capture-button>
+        <marker-button
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          .disabled=${this.recordingState !== 'recording'}
+          @marker=${this.addMarker}></marker-button>
         <div id="transition-controls">
             <div class="transition-label">Transition:</div>
             <div class="transition-buttons">
@@ -529,13 +916,65 @@ export class PromptDjMidi extends LitElement {
             </div>
         </div>
       </div>
-      ${this.isEditorOpen ? html`<audio-editor .audioBlob=${this.recordedAudioBlob} @close=${this.closeEditor}></audio-editor>`: ''}
-      ${this.isSequencerOpen ? html`<drum-sequencer .liveMusicHelper=${this.liveMusicHelper} @close=${this.toggleSequencer}></drum-sequencer>`: ''}
+      ${this.deckMode ? html`<deck-mixer-panel
+        .deckMixer=${this.deckMixer}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showMidi}
+        .focusedDeck=${this.focusedDeck}
+        @deck-focus-changed=${this.handleDeckFocusChanged}></deck-mixer-panel>` : ''}
+      ${this.isEditorOpen ? html`<audio-editor .audioBlob=${this.recordedAudioBlob} .metadata=${this.recordingMetadata} .stems=${this.recordedStems} @send-loop=${this.handleSendLoop} @close=${this.closeEditor}></audio-editor>`: ''}
+      ${this.isSequencerOpen ? html`<drum-sequencer .liveMusicHelper=${this.liveMusicHelper} .tempoTracker=${this.tempoTracker} .melodyLoop=${this.sequencerLoop}
+        @error=${(e: CustomEvent<string>) => this.dispatchEvent(new CustomEvent('error', { detail: e.detail }))}
+        @close=${this.toggleSequencer}></drum-sequencer>`: ''}
       ${this.isApiModalOpen ? html`<api-key-modal @save=${this.handleApiModalSave} @cancel=${this.handleApiModalCancel}></api-key-modal>` : ''}
-      ${this.isPresetModalOpen ? html`<preset-modal .requirePassword=${this.requirePassword} @preset-selected=${this.handlePresetSelected} @close=${this.closePresetModal}></preset-modal>` : ''}
+      ${this.isLibraryOpen ? html`<recordings-library
+        .recording=${this.recordingState === 'recording'}
+        @take-opened=${this.handleTakeOpened}
+        @error=${(e: CustomEvent<string>) => this.dispatchEvent(new CustomEvent('error', { detail: e.detail }))}
+        @close=${() => { this.isLibraryOpen = false; }}></recordings-library>` : ''}
+      ${this.isPresetModalOpen ? html`<preset-modal .requirePassword=${this.requirePassword} @preset-selected=${this.handlePresetSelected} @preset-save=${this.handlePresetSave} @close=${this.closePresetModal}></preset-modal>` : ''}
       `;
   }
 
+  /** Master loudness and limiter readout. Clicking it restarts the integrated measurement. */
+  private renderLoudness() {
+    if (!this.loudness) return '';
+    const { shortTerm, integrated, maxTruePeak } = this.loudness;
+    const format = (value: number) => isFinite(value) ? value.toFixed(1) : '-∞';
+    return html`<div
+      id="loudness"
+      title="Short-term and integrated loudness, max true peak and limiter gain reduction. Click to reset."
+      @click=${() => this.dispatchEvent(new CustomEvent('loudness-reset'))}>
+      <span>S ${format(shortTerm)}</span>
+      <span>I ${format(integrated)} LUFS</span>
+      <span class=${classMap({ over: maxTruePeak > -1 })}>TP ${format(maxTruePeak)}</span>
+      <span class=${classMap({ limiting: this.gainReduction > 0.1 })}>GR ${this.gainReduction.toFixed(1)}</span>
+    </div>`;
+  }
+
+  private renderKey() {
+    if (!this.detectedKey || this.playbackState !== 'playing') return '';
+    const { label, confidence } = this.detectedKey;
+    return html`<div id="key" title="Detected key and how closely the music matches it">
+      KEY ${label} <span class="confidence">${Math.round(confidence * 100)}%</span>
+    </div>`;
+  }
+
+  /** A meter of queued audio relative to the jitter buffer's target. */
+  private renderBufferHealth() {
+    if (!this.bufferStats || this.playbackState === 'stopped' || this.playbackState === 'paused') return '';
+    const { bufferedTime, targetBufferTime, jitter, lateChunks, underruns } = this.bufferStats;
+    const health = Math.min(1, bufferedTime / targetBufferTime);
+    const color = health > 0.5 ? '#33ff77' : health > 0.25 ? '#ffaa00' : '#ff3355';
+    const fillStyle = styleMap({ width: `${health * 100}%`, backgroundColor: color });
+    const title = `Buffered ${bufferedTime.toFixed(1)}s of ${targetBufferTime.toFixed(1)}s target\n` +
+      `Jitter ${(jitter * 1000).toFixed(0)}ms, ${lateChunks} late chunks, ${underruns} underruns`;
+    return html`<div id="buffer-health" title=${title}>
+      BUFFER
+      <div id="buffer-meter"><div id="buffer-meter-fill" style=${fillStyle}></div></div>
+    </div>`;
+  }
+
   private renderPrompts() {
     return [...this.prompts.values()].map((prompt) => {
       return html`<prompt-controller
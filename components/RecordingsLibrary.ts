@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import { loadStems, loadTake, RECORDING_FORMATS } from '../utils/AudioRecorder';
+import { keyToFilenamePart } from '../utils/KeyDetector';
+import { takeMetadata } from '../utils/LiveMusicHelper';
+import type { RecordingFinishedEventDetail } from '../utils/LiveMusicHelper';
+import { deleteTake, listTakes, saveTake } from '../utils/RecordingStore';
+import type { Take } from '../utils/RecordingStore';
+import { formatDuration } from '../utils/time';
+
+/**
+ * Lists past takes with their duration, date and prompts. Opening a take
+ * dispatches `take-opened` with its file and metadata.
+ *
+ * Takes that never finished were interrupted, e.g. by the tab crashing, and
+ * can be recovered up to their last stored chunk, or discarded.
+ */
+@customElement('recordings-library')
+export class RecordingsLibrary extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+      backdrop-filter: blur(5px);
+    }
+    .overlay {
+      position: absolute;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.8);
+    }
+    .modal {
+      position: relative;
+      background: #1a1a1a;
+      border-radius: 12px;
+      padding: 30px;
+      max-width: 700px;
+      width: 90%;
+      max-height: 80vh;
+      overflow-y: auto;
+      box-shadow: 0 20px 60px rgba(0, 0, 0, 0.8);
+      border: 1px solid #333;
+    }
+    .modal-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 20px;
+    }
+    h2 {
+      margin: 0;
+      color: #fff;
+      font-size: 24px;
+      font-weight: 600;
+    }
+    .close-button {
+      background: transparent;
+      border: none;
+      color: #999;
+      font-size: 28px;
+      cursor: pointer;
+      width: 32px;
+      height: 32px;
+      border-radius: 4px;
+      &:hover {
+        background: #333;
+        color: #fff;
+      }
+    }
+    .notice {
+      color: #ffb300;
+      font-size: 14px;
+      margin-bottom: 16px;
+    }
+    .empty {
+      text-align: center;
+      color: #999;
+      padding: 40px 20px;
+    }
+    .take-list {
+      display: grid;
+      gap: 12px;
+    }
+    .take {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      background: #222;
+      border: 2px solid #333;
+      border-radius: 8px;
+      padding: 12px 16px;
+      &.interrupted {
+        border-color: #ffb30066;
+      }
+    }
+    .take-details {
+      flex: 1;
+      min-width: 0;
+    }
+    .take-title {
+      color: #fff;
+      font-size: 16px;
+      font-weight: 600;
+      margin-bottom: 4px;
+      .badge {
+        color: #ffb300;
+        font-size: 12px;
+        font-weight: 500;
+        margin-left: 8px;
+      }
+    }
+    .take-info, .take-prompts {
+      color: #999;
+      font-size: 13px;
+      line-height: 1.4;
+    }
+    .take-prompts {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .take-actions {
+      display: flex;
+      gap: 8px;
+      button {
+        padding: 6px 12px;
+        background: #333;
+        border: none;
+        border-radius: 6px;
+        color: #fff;
+        font-size: 13px;
+        cursor: pointer;
+        &:hover:not(:disabled) {
+          background: #9900ff;
+        }
+        &.delete:hover:not(:disabled) {
+          background: #ff4757;
+        }
+        &:disabled {
+          opacity: 0.5;
+          cursor: wait;
+        }
+      }
+    }
+  `;
+
+  /** While recording, the newest unfinished take is the one being recorded. */
+  @property({ type: Boolean }) recording = false;
+
+  @state() private takes: Take[] = [];
+  @state() private isLoading = true;
+  @state() private busyTakeId: string | null = null;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.refresh();
+  }
+
+  private async refresh() {
+    try {
+      this.takes = await listTakes();
+    } catch (e) {
+      this.dispatchError(`Unable to load recordings: ${(e as Error).message}`);
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  private get recordingTakeId() {
+    return this.recording ? this.takes.find((take) => !take.finished)?.id ?? null : null;
+  }
+
+  private close() {
+    this.dispatchEvent(new CustomEvent('close'));
+  }
+
+  private dispatchError(message: string) {
+    this.dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  /** Runs an action on a take, disabling its buttons meanwhile. */
+  private async withTake(take: Take, action: () => Promise<void>) {
+    this.busyTakeId = take.id;
+    try {
+      await action();
+    } catch (e) {
+      this.dispatchError((e as Error).message);
+    } finally {
+      this.busyTakeId = null;
+    }
+  }
+
+  private openTake(take: Take) {
+    return this.withTake(take, async () => {
+      if (!take.finished) await this.recover(take);
+      const [blob, stems] = await Promise.all([loadTake(take), loadStems(take)]);
+      this.dispatchEvent(new CustomEvent<RecordingFinishedEventDetail>('take-opened', {
+        detail: { blob, stems, metadata: takeMetadata(take) },
+      }));
+    });
+  }
+
+  private downloadTake(take: Take) {
+    return this.withTake(take, async () => {
+      if (!take.finished) await this.recover(take);
+      const blob = await loadTake(take);
+      const { extension } = RECORDING_FORMATS.find(({ id }) => id === take.format)!;
+      const date = new Date(take.startedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      const keyPart = take.key ? `-${keyToFilenamePart(take.key)}` : '';
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `prompt-dj-${date}${keyPart}.${extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  private deleteTake(take: Take) {
+    return this.withTake(take, async () => {
+      await deleteTake(take.id);
+      this.takes = this.takes.filter(({ id }) => id !== take.id);
+    });
+  }
+
+  /** Keeps an interrupted take as it was last stored. */
+  private async recover(take: Take) {
+    take.finished = true;
+    await saveTake(take);
+    this.takes = [...this.takes];
+  }
+
+  override render() {
+    const interrupted = this.takes.filter((take) => !take.finished && take.id !== this.recordingTakeId);
+    return html`
+      <div class="overlay" @click=${this.close}></div>
+      <div class="modal">
+        <div class="modal-header">
+          <h2>Recordings</h2>
+          <button class="close-button" @click=${this.close}>&times;</button>
+        </div>
+        ${interrupted.length ? html`<div class="notice">
+          ${interrupted.length === 1 ? 'A recording was' : `${interrupted.length} recordings were`}
+          interrupted. Open or download to recover what was saved, or delete to discard.
+        </div>` : ''}
+        ${this.isLoading ? html`<div class="empty">Loading…</div>`
+          : this.takes.length === 0 ? html`<div class="empty">No recordings yet. Press record while playing.</div>`
+          : html`<div class="take-list">${this.takes.map((take) => this.renderTake(take))}</div>`}
+      </div>
+    `;
+  }
+
+  private renderTake(take: Take) {
+    const isRecording = take.id === this.recordingTakeId;
+    const isInterrupted = !take.finished && !isRecording;
+    const disabled = isRecording || this.busyTakeId === take.id;
+    const format = RECORDING_FORMATS.find(({ id }) => id === take.format)!;
+    const info = [
+      formatDuration(take.duration),
+      format.label,
+      take.key?.label,
+      take.stems?.length ? `${take.stems.length} stems` : null,
+      take.markers?.length ? `${take.markers.length} markers` : null,
+    ].filter(Boolean).join(' · ');
+    return html`
+      <div class="take ${isInterrupted ? 'interrupted' : ''}">
+        <div class="take-details">
+          <div class="take-title">
+            ${new Date(take.startedAt).toLocaleString()}
+            ${isRecording ? html`<span class="badge">Recording…</span>` : ''}
+            ${isInterrupted ? html`<span class="badge">Interrupted</span>` : ''}
+          </div>
+          <div class="take-info">${info}</div>
+          <div class="take-prompts" title=${take.prompts.join(', ')}>
+            ${take.prompts.length ? take.prompts.join(', ') : 'No prompts'}
+          </div>
+        </div>
+        <div class="take-actions">
+          <button .disabled=${disabled} @click=${() => this.openTake(take)}>Open</button>
+          <button .disabled=${disabled} @click=${() => this.downloadTake(take)}>Download</button>
+          <button class="delete" .disabled=${disabled} @click=${() => this.deleteTake(take)}>Delete</button>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'recordings-library': RecordingsLibrary;
+  }
+}
@@ -5,11 +5,23 @@
  */
 
 import type { PlaybackState, Prompt, RecordingState, PromptsChangedEventDetail } from './types';
-import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
+import { GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicGenerationConfig } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
+import type { ToggleRecordingEventDetail } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import type { GenerationConfigChangedEventDetail, ReconnectingEventDetail, RecordingFinishedEventDetail } from './utils/LiveMusicHelper';
+import type { BufferStats } from './utils/JitterBuffer';
+import type { LoudnessStats } from './utils/LoudnessMeter';
+import { DeckMixer } from './utils/DeckMixer';
+import type { DeckId } from './utils/DeckMixer';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { TempoTracker } from './utils/TempoTracker';
+import { KeyDetector } from './utils/KeyDetector';
+import { CaptureBuffer } from './utils/CaptureBuffer';
+import { listTakes } from './utils/RecordingStore';
+import { formatDuration } from './utils/time';
+import type { DetectedKey } from './utils/KeyDetector';
 import { ApiKeyStorage } from './utils/ApiKeyStorage';
 import './components/AudioEditor';
 import './components/DrumSequencer';
@@ -18,6 +30,9 @@ import './components/ApiKeyModal';
 let ai: GoogleGenAI;
 const model = 'lyria-realtime-exp';
 
+/** Momentary loudness, in LUFS, below which knobs show no halo. */
+const HALO_LOUDNESS_FLOOR = -40;
+
 async function initializeAI(): Promise<GoogleGenAI | null> {
   // First, try to get API key from storage
   let apiKey = await ApiKeyStorage.retrieveApiKey();
@@ -68,6 +83,8 @@ async function main() {
   if (liveMusicHelper) {
     liveMusicHelper.extraDestination = audioAnalyser.node;
   }
+  pdjMidi.audioAnalyser = audioAnalyser;
+  pdjMidi.tempoTracker = new TempoTracker(audioAnalyser);
 
   // Handle API key saved event
   pdjMidi.addEventListener('api-key-saved', async (e: Event) => {
@@ -86,6 +103,8 @@ async function main() {
         // Update the audio analyser
         const newAudioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
         liveMusicHelper.extraDestination = newAudioAnalyser.node;
+        pdjMidi.audioAnalyser = newAudioAnalyser;
+        pdjMidi.tempoTracker = new TempoTracker(newAudioAnalyser);
         
         // Re-setup event listeners for the new LiveMusicHelper
         setupLiveMusicHelperListeners(liveMusicHelper, pdjMidi, newAudioAnalyser, toastMessage);
@@ -114,6 +133,18 @@ async function main() {
     liveMusicHelper.addEventListener('error', errorToast);
   }
   pdjMidi.addEventListener('error', errorToast);
+
+  offerRecovery(pdjMidi);
+}
+
+/** Opens the recordings library if a take was interrupted, e.g. by a crash, so it can be recovered. */
+async function offerRecovery(pdjMidi: PromptDjMidi) {
+  try {
+    const takes = await listTakes();
+    if (takes.some((take) => !take.finished)) pdjMidi.openLibrary();
+  } catch (e) {
+    console.error('Unable to check for interrupted recordings:', e);
+  }
 }
 
 function setupLiveMusicHelperListeners(
@@ -122,19 +153,124 @@ function setupLiveMusicHelperListeners(
   audioAnalyser: AudioAnalyser,
   toastMessage: ToastMessage
 ) {
+  let deckMixer: DeckMixer | null = null;
+
+  // Like recordings, the capture buffer takes the end of the master bus.
+  const captureBuffer = new CaptureBuffer(liveMusicHelper.limiter.output, pdjMidi.captureLength);
+
+  // The analyser, capture buffer and recorder are fed by both decks, so they run while either is playing.
+  const updateTaps = () => {
+    pdjMidi.isBusPlaying = liveMusicHelper.isBusPlaying;
+    if (liveMusicHelper.isBusPlaying) {
+      audioAnalyser.start();
+      captureBuffer.start();
+    } else {
+      audioAnalyser.stop();
+      captureBuffer.stop();
+    }
+  };
+
+  // In two-deck mode the grid, config strip and play button drive the focused deck.
+  const focusedHelper = () =>
+    deckMixer && pdjMidi.focusedDeck === 'B' ? deckMixer.decks.B : liveMusicHelper;
+
+  // The reconnect banner, buffer meter and context-reset toast show the focused deck's.
+  const addDeckStatusListeners = (deck: LiveMusicHelper, id: DeckId) => {
+    deck.addEventListener('playback-state-changed', (e: Event) => {
+      const playbackState = (e as CustomEvent<PlaybackState>).detail;
+      if (pdjMidi.focusedDeck !== id) return;
+      if (playbackState === 'paused' || playbackState === 'stopped') {
+        pdjMidi.reconnecting = null;
+      }
+    });
+
+    deck.addEventListener('reconnecting', (e: Event) => {
+      if (pdjMidi.focusedDeck !== id) return;
+      pdjMidi.reconnecting = (e as CustomEvent<ReconnectingEventDetail>).detail;
+    });
+
+    deck.addEventListener('reconnected', () => {
+      if (pdjMidi.focusedDeck !== id) return;
+      pdjMidi.reconnecting = null;
+      toastMessage.show('Reconnected.');
+    });
+
+    deck.addEventListener('buffer-stats', (e: Event) => {
+      if (pdjMidi.focusedDeck !== id) return;
+      pdjMidi.bufferStats = (e as CustomEvent<BufferStats>).detail;
+    });
+
+    deck.addEventListener('generation-config-changed', (e: Event) => {
+      if (pdjMidi.focusedDeck !== id) return;
+      if ((e as CustomEvent<GenerationConfigChangedEventDetail>).detail.contextReset) {
+        toastMessage.show('BPM / scale applied. The music context was reset.');
+      }
+    });
+  };
+
   pdjMidi.addEventListener('prompts-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PromptsChangedEventDetail>;
     const { prompts, transitionBars } = customEvent.detail;
-    liveMusicHelper.setWeightedPrompts(prompts, transitionBars);
+    focusedHelper().setWeightedPrompts(prompts, transitionBars);
+  }));
+
+  pdjMidi.addEventListener('generation-config-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<LiveMusicGenerationConfig>;
+    focusedHelper().setMusicGenerationConfig(customEvent.detail);
   }));
 
   pdjMidi.addEventListener('play-pause', () => {
-    liveMusicHelper.playPause();
+    focusedHelper().playPause();
+  });
+
+  pdjMidi.addEventListener('deck-mode-changed', (e: Event) => {
+    const customEvent = e as CustomEvent<{ enabled: boolean, prompts: Map<string, Prompt> }>;
+    const { enabled, prompts } = customEvent.detail;
+    if (!enabled) {
+      if (deckMixer) {
+        deckMixer.decks.B.pause();
+        deckMixer.setCue('A', false);
+        deckMixer.setCue('B', false);
+        deckMixer.setCrossfader(0);
+      }
+      return;
+    }
+    if (!deckMixer) {
+      const deckB = new LiveMusicHelper(ai, model, { mixWith: liveMusicHelper });
+      deckB.extraDestination = audioAnalyser.node;
+      deckB.addEventListener('playback-state-changed', (e: Event) => {
+        updateTaps();
+        if (pdjMidi.focusedDeck === 'B') pdjMidi.playbackState = (e as CustomEvent<PlaybackState>).detail;
+      });
+      deckB.addEventListener('error', (e: Event) => {
+        toastMessage.show(`Deck B: ${(e as CustomEvent<string>).detail}`);
+      });
+      deckB.addEventListener('filtered-prompt', (e: Event) => {
+        const filteredPrompt = (e as CustomEvent<LiveMusicFilteredPrompt>).detail;
+        toastMessage.show(filteredPrompt.filteredReason!);
+        pdjMidi.addFilteredPrompt(filteredPrompt.text!);
+      });
+      addDeckStatusListeners(deckB, 'B');
+      liveMusicHelper.addStem('Lyria (deck B)', deckB.streamOutput);
+      deckMixer = new DeckMixer(liveMusicHelper, deckB);
+      pdjMidi.deckMixer = deckMixer;
+    }
+    deckMixer.setCrossfader(0.5);
+    deckMixer.decks.B.setWeightedPrompts(prompts);
   });
 
-  pdjMidi.addEventListener('toggle-recording', () => {
+  pdjMidi.addEventListener('deck-focus-changed', (e: Event) => {
+    const deck = (e as CustomEvent<DeckId>).detail;
+    pdjMidi.playbackState = deckMixer ? deckMixer.decks[deck].playbackState : liveMusicHelper.playbackState;
+    // Until the newly focused deck reports its own.
+    pdjMidi.reconnecting = null;
+    pdjMidi.bufferStats = null;
+  });
+
+  pdjMidi.addEventListener('toggle-recording', (e: Event) => {
     if (liveMusicHelper.recordingState === 'idle') {
-      liveMusicHelper.startRecording();
+      const { format, multitrack } = (e as CustomEvent<ToggleRecordingEventDetail>).detail;
+      liveMusicHelper.startRecording(undefined, format, multitrack);
     } else {
       liveMusicHelper.stopRecording();
     }
@@ -143,18 +279,52 @@ function setupLiveMusicHelperListeners(
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PlaybackState>;
     const playbackState = customEvent.detail;
+    updateTaps();
+    if (pdjMidi.focusedDeck !== 'A') return;
     pdjMidi.playbackState = playbackState;
-    playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
   }));
+  addDeckStatusListeners(liveMusicHelper, 'A');
 
   liveMusicHelper.addEventListener('recording-state-changed', (e: Event) => {
     const customEvent = e as CustomEvent<RecordingState>;
     pdjMidi.recordingState = customEvent.detail;
   });
-  
+
   liveMusicHelper.addEventListener('recording-finished', (e: Event) => {
-      const customEvent = e as CustomEvent<Blob>;
-      pdjMidi.showEditor(customEvent.detail);
+      const customEvent = e as CustomEvent<RecordingFinishedEventDetail>;
+      pdjMidi.showEditor(customEvent.detail.blob, customEvent.detail.metadata, customEvent.detail.stems);
+  });
+
+  pdjMidi.addEventListener('add-marker', () => {
+    const marker = liveMusicHelper.addMarker();
+    if (marker) toastMessage.show(`Marker at ${formatDuration(marker.time)}: ${marker.label}`);
+  });
+
+  pdjMidi.addEventListener('capture', async () => {
+    pdjMidi.isCapturing = true;
+    try {
+      const captured = await captureBuffer.capture();
+      if (captured) {
+        pdjMidi.showEditor(captured.blob, {
+          key: liveMusicHelper.keyDetector?.key ?? null,
+          format: 'wav32f',
+          prompts: liveMusicHelper.activePrompts.map((p) => p.text),
+          startedAt: Date.now() - captured.duration * 1000,
+          duration: captured.duration,
+          bpm: liveMusicHelper.musicGenerationConfig.bpm,
+        });
+      } else {
+        toastMessage.show('Nothing has been captured yet. Start playing first.');
+      }
+    } catch (error) {
+      toastMessage.show('Failed to capture: ' + (error as Error).message);
+    } finally {
+      pdjMidi.isCapturing = false;
+    }
+  });
+
+  pdjMidi.addEventListener('capture-length-changed', (e: Event) => {
+    captureBuffer.length = (e as CustomEvent<number>).detail;
   });
 
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
@@ -164,11 +334,27 @@ function setupLiveMusicHelperListeners(
     pdjMidi.addFilteredPrompt(filteredPrompt.text!);
   }));
 
-  audioAnalyser.addEventListener('audio-level-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<number>;
-    const level = customEvent.detail;
-    pdjMidi.audioLevel = level;
-  }));
+  pdjMidi.addEventListener('loudness-reset', () => {
+    liveMusicHelper.meter.reset();
+  });
+
+  liveMusicHelper.meter.addEventListener('loudness-changed', (e: Event) => {
+    const customEvent = e as CustomEvent<LoudnessStats>;
+    const { momentary } = customEvent.detail;
+    pdjMidi.loudness = customEvent.detail;
+    // Squared so the halo pulses with the music rather than sitting near its loudness.
+    pdjMidi.audioLevel = Math.max(0, Math.min(1, 1 - momentary / HALO_LOUDNESS_FLOOR)) ** 2;
+  });
+
+  liveMusicHelper.limiter.addEventListener('gain-reduction-changed', (e: Event) => {
+    pdjMidi.gainReduction = (e as CustomEvent<number>).detail;
+  });
+
+  const keyDetector = new KeyDetector(audioAnalyser);
+  liveMusicHelper.keyDetector = keyDetector;
+  keyDetector.addEventListener('key-changed', (e: Event) => {
+    pdjMidi.detectedKey = (e as CustomEvent<DetectedKey>).detail;
+  });
 }
 
 function buildInitialPrompts() {
@@ -2,30 +2,111 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-/** Simple class for getting the current audio level. */
+export type BandName = 'sub' | 'low' | 'mid' | 'high';
+
+export type BandEnergies = Record<BandName, number>;
+
+/** Frequency ranges of the energy bands, in Hz. */
+export const BANDS: { name: BandName, min: number, max: number }[] = [
+  { name: 'sub', min: 20, max: 60 },
+  { name: 'low', min: 60, max: 250 },
+  { name: 'mid', min: 250, max: 4000 },
+  { name: 'high', min: 4000, max: 20000 },
+];
+
+const FFT_SIZE = 2048;
+/** Number of columns kept in the spectrogram history, one per animation frame. */
+export const SPECTROGRAM_HISTORY = 256;
+/** Number of log-spaced frequency rows in each spectrogram column, lowest first. */
+export const SPECTROGRAM_BINS = 128;
+const SPECTROGRAM_MIN_FREQUENCY = 20;
+const SPECTROGRAM_MAX_FREQUENCY = 20000;
+/** Per-frame decay of band energies, so they fall smoothly but rise instantly. */
+const BAND_RELEASE = 0.85;
+
+/**
+ * An analysis tap on the live stream. Loudness is measured by LoudnessMeter.
+ *
+ * While started, updates per-band energy, a time-domain scope and a
+ * spectrogram history every animation frame and dispatches
+ * `analysis-updated`. Listeners read the public fields directly, which are
+ * reused between frames.
+ */
 export class AudioAnalyser extends EventTarget {
   readonly node: AnalyserNode;
+  /** Energy per band, 0 to 1. */
+  readonly bands: BandEnergies = { sub: 0, low: 0, mid: 0, high: 0 };
+  /** The latest time-domain samples, -1 to 1. */
+  readonly scope: Float32Array;
+  /** Spectrogram columns of byte magnitudes, oldest first. */
+  readonly spectrogram: Uint8Array[];
+
   private readonly freqData: Uint8Array;
+  /** FFT bin ranges [start, end) of each band and spectrogram row. */
+  private readonly bandBins: Record<BandName, [number, number]>;
+  private readonly spectrogramBins: [number, number][];
   private rafId: number | null = null;
+
   constructor(context: AudioContext) {
     super();
     this.node = context.createAnalyser();
+    this.node.fftSize = FFT_SIZE;
     this.node.smoothingTimeConstant = 0;
     this.freqData = new Uint8Array(this.node.frequencyBinCount);
+    this.scope = new Float32Array(this.node.fftSize);
+    this.spectrogram = Array.from({ length: SPECTROGRAM_HISTORY }, () => new Uint8Array(SPECTROGRAM_BINS));
+
+    const binOf = (frequency: number) => Math.min(
+      this.node.frequencyBinCount,
+      Math.round(frequency / (context.sampleRate / this.node.fftSize)),
+    );
+    this.bandBins = Object.fromEntries(BANDS.map(({ name, min, max }) =>
+      [name, [binOf(min), Math.max(binOf(min) + 1, binOf(max))]])) as Record<BandName, [number, number]>;
+    const ratio = SPECTROGRAM_MAX_FREQUENCY / SPECTROGRAM_MIN_FREQUENCY;
+    this.spectrogramBins = Array.from({ length: SPECTROGRAM_BINS }, (_, i) => {
+      const start = binOf(SPECTROGRAM_MIN_FREQUENCY * ratio ** (i / SPECTROGRAM_BINS));
+      const end = binOf(SPECTROGRAM_MIN_FREQUENCY * ratio ** ((i + 1) / SPECTROGRAM_BINS));
+      return [start, Math.max(start + 1, end)];
+    });
+
     this.loop = this.loop.bind(this);
   }
-  getCurrentLevel() {
+
+  private update() {
     this.node.getByteFrequencyData(this.freqData);
-    const avg = this.freqData.reduce((a, b) => a + b, 0) / this.freqData.length;
-    return avg / 0xff;
+    this.node.getFloatTimeDomainData(this.scope);
+
+    for (const { name } of BANDS) {
+      const [start, end] = this.bandBins[name];
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += this.freqData[i];
+      const energy = sum / (end - start) / 0xff;
+      this.bands[name] = Math.max(energy, this.bands[name] * BAND_RELEASE);
+    }
+
+    // Recycle the oldest column as the newest.
+    const column = this.spectrogram.shift()!;
+    for (let row = 0; row < SPECTROGRAM_BINS; row++) {
+      const [start, end] = this.spectrogramBins[row];
+      let max = 0;
+      for (let i = start; i < end; i++) max = Math.max(max, this.freqData[i]);
+      column[row] = max;
+    }
+    this.spectrogram.push(column);
   }
-  loop() {
+
+  private loop() {
     this.rafId = requestAnimationFrame(this.loop);
-    const level = this.getCurrentLevel();
-    this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: level }));
+    this.update();
+    this.dispatchEvent(new CustomEvent('analysis-updated'));
+  }
+
+  start() {
+    if (this.rafId === null) this.loop();
   }
-  start = this.loop;
+
   stop() {
-    if (this.rafId) cancelAnimationFrame(this.rafId);
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
   }
 }
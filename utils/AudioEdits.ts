@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { channelsOf, createBufferLike, sizeOf } from './EditHistory';
+import type { EditCommand, Tracks } from './EditHistory';
+import { integratedLoudness } from './loudness';
+
+export type FadeCurve = 'linear' | 'equal-power' | 'exponential' | 'logarithmic' | 's-curve';
+
+export const FADE_CURVES: { id: FadeCurve; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'equal-power', label: 'Equal power' },
+  { id: 'exponential', label: 'Exponential' },
+  { id: 'logarithmic', label: 'Logarithmic' },
+  { id: 's-curve', label: 'S-curve' },
+];
+
+export type NormalizeMode = 'peak' | 'lufs';
+
+/** An edit of the selection, as chosen in the editor before it's committed. */
+export type EditOperation =
+  | { type: 'crop' }
+  | { type: 'fade-in'; curve: FadeCurve }
+  | { type: 'fade-out'; curve: FadeCurve }
+  /** `target` is in dBFS for peak, LUFS for loudness. */
+  | { type: 'normalize'; mode: NormalizeMode; target: number }
+  | { type: 'reverse' }
+  | { type: 'silence' }
+  | { type: 'gain'; db: number };
+
+export type EditOperationType = EditOperation['type'];
+
+export const EDIT_OPERATIONS: { type: EditOperationType; label: string }[] = [
+  { type: 'crop', label: 'Crop' },
+  { type: 'fade-in', label: 'Fade in' },
+  { type: 'fade-out', label: 'Fade out' },
+  { type: 'normalize', label: 'Normalize' },
+  { type: 'reverse', label: 'Reverse' },
+  { type: 'silence', label: 'Silence' },
+  { type: 'gain', label: 'Gain' },
+];
+
+/** Each track's channels within a region. */
+type Region = Float32Array[][];
+
+/** Processes a region in place. The mix is the first track. */
+type RegionProcess = (region: Region, sampleRate: number) => void;
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+/** Gain of a fade in at `x`, from 0 to 1 through the fade. */
+function fadeGain(curve: FadeCurve, x: number) {
+  switch (curve) {
+    case 'linear':
+      return x;
+    case 'equal-power':
+      return Math.sin((x * Math.PI) / 2);
+    case 'exponential':
+      return x * x;
+    case 'logarithmic':
+      return 1 - (1 - x) * (1 - x);
+    case 's-curve':
+      return (1 - Math.cos(x * Math.PI)) / 2;
+  }
+}
+
+function fade(curve: FadeCurve, direction: 'in' | 'out'): RegionProcess {
+  return (region) => {
+    for (const channels of region) {
+      for (const channel of channels) {
+        const last = Math.max(1, channel.length - 1);
+        for (let i = 0; i < channel.length; i++) {
+          const x = i / last;
+          channel[i] *= fadeGain(curve, direction === 'in' ? x : 1 - x);
+        }
+      }
+    }
+  };
+}
+
+function applyGain(region: Region, gain: number) {
+  for (const channels of region) {
+    for (const channel of channels) {
+      for (let i = 0; i < channel.length; i++) channel[i] *= gain;
+    }
+  }
+}
+
+/** Measures the mix; lanes get the same gain so they still add up to it. */
+function normalize(mode: NormalizeMode, target: number): RegionProcess {
+  return (region, sampleRate) => {
+    const [mix] = region;
+    let gain: number;
+    if (mode === 'peak') {
+      let peak = 0;
+      for (const channel of mix) {
+        for (let i = 0; i < channel.length; i++) peak = Math.max(peak, Math.abs(channel[i]));
+      }
+      gain = peak > 0 ? dbToGain(target) / peak : 1;
+    } else {
+      const loudness = integratedLoudness(mix, sampleRate);
+      gain = Number.isFinite(loudness) ? dbToGain(target - loudness) : 1;
+    }
+    applyGain(region, gain);
+  };
+}
+
+function regionProcess(operation: Exclude<EditOperation, { type: 'crop' }>): RegionProcess {
+  switch (operation.type) {
+    case 'fade-in':
+      return fade(operation.curve, 'in');
+    case 'fade-out':
+      return fade(operation.curve, 'out');
+    case 'normalize':
+      return normalize(operation.mode, operation.target);
+    case 'reverse':
+      return (region) => region.forEach((channels) => channels.forEach((channel) => channel.reverse()));
+    case 'silence':
+      return (region) => region.forEach((channels) => channels.forEach((channel) => channel.fill(0)));
+    case 'gain':
+      return (region) => applyGain(region, dbToGain(operation.db));
+  }
+}
+
+/** Processes frames `start` to `end` in place, keeping the originals to restore. */
+export class RegionCommand implements EditCommand {
+  readonly label: string;
+  private start: number;
+  private end: number;
+  private process: RegionProcess;
+  private original: Region = [];
+
+  constructor(label: string, start: number, end: number, process: RegionProcess) {
+    this.label = label;
+    this.start = start;
+    this.end = end;
+    this.process = process;
+  }
+
+  get size() {
+    return sizeOf(this.original);
+  }
+
+  apply(tracks: Tracks) {
+    const region = tracks.map((buffer) => channelsOf(buffer).map((channel) => channel.subarray(this.start, this.end)));
+    this.original = region.map((channels) => channels.map((channel) => channel.slice()));
+    this.process(region, tracks[0].sampleRate);
+    return tracks;
+  }
+
+  revert(tracks: Tracks) {
+    tracks.forEach((buffer, track) => {
+      channelsOf(buffer).forEach((channel, ch) => channel.set(this.original[track][ch], this.start));
+    });
+    this.original = [];
+    return tracks;
+  }
+}
+
+/** Keeps only frames `start` to `end`, holding on to the rest to restore. */
+export class CropCommand implements EditCommand {
+  readonly label = 'Crop';
+  private start: number;
+  private end: number;
+  private head: Region = [];
+  private tail: Region = [];
+
+  constructor(start: number, end: number) {
+    this.start = start;
+    this.end = end;
+  }
+
+  get size() {
+    return sizeOf(this.head) + sizeOf(this.tail);
+  }
+
+  mapFrame(frame: number) {
+    return frame >= this.start && frame < this.end ? frame - this.start : null;
+  }
+
+  apply(tracks: Tracks) {
+    const { start, end } = this;
+    this.head = tracks.map((buffer) => channelsOf(buffer).map((channel) => channel.slice(0, start)));
+    this.tail = tracks.map((buffer) => channelsOf(buffer).map((channel) => channel.slice(end)));
+    return tracks.map((buffer) => {
+      const cropped = createBufferLike(buffer, end - start);
+      channelsOf(buffer).forEach((channel, ch) => cropped.getChannelData(ch).set(channel.subarray(start, end)));
+      return cropped;
+    });
+  }
+
+  revert(tracks: Tracks) {
+    const restored = tracks.map((buffer, track) => {
+      const whole = createBufferLike(buffer, this.head[track][0].length + buffer.length + this.tail[track][0].length);
+      channelsOf(buffer).forEach((channel, ch) => {
+        const output = whole.getChannelData(ch);
+        output.set(this.head[track][ch]);
+        output.set(channel, this.start);
+        output.set(this.tail[track][ch], this.start + channel.length);
+      });
+      return whole;
+    });
+    this.head = [];
+    this.tail = [];
+    return restored;
+  }
+}
+
+function operationLabel(operation: EditOperation) {
+  return EDIT_OPERATIONS.find(({ type }) => type === operation.type)!.label;
+}
+
+/** The command applying an operation to frames `start` to `end`. */
+export function createEditCommand(operation: EditOperation, start: number, end: number): EditCommand {
+  if (operation.type === 'crop') return new CropCommand(start, end);
+  return new RegionCommand(operationLabel(operation), start, end, regionProcess(operation));
+}
+
+/** The selection of the mix as the operation would leave it, for auditioning before committing. */
+export function renderPreview(mix: AudioBuffer, operation: EditOperation, start: number, end: number): AudioBuffer {
+  const preview = createBufferLike(mix, end - start);
+  channelsOf(mix).forEach((channel, ch) => preview.getChannelData(ch).set(channel.subarray(start, end)));
+  if (operation.type !== 'crop') {
+    regionProcess(operation)([channelsOf(preview)], mix.sampleRate);
+  }
+  return preview;
+}
@@ -2,64 +2,446 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { createFlacHeader, FlacEncoder } from './flac';
+import type { DetectedKey } from './KeyDetector';
+import { markerCues } from './markers';
+import type { Marker } from './markers';
+import { PCM_CAPTURE_PROCESSOR_NAME, pcmCaptureProcessor } from './PcmCaptureProcessor';
+import type { PcmCaptureEvent, PcmCaptureMessage } from './PcmCaptureProcessor';
+import { appendChunk, deleteTake, loadChunks, saveTake } from './RecordingStore';
+import type { Take } from './RecordingStore';
+import { createWavHeader, encodeWavFrames } from './wav';
+import type { WavBitDepth } from './wav';
+import { loadWorkletProcessor } from './worklet';
+
+export type RecordingFormat = 'wav16' | 'wav24' | 'wav32f' | 'flac' | 'mp3' | 'opus';
+
+export interface RecordingFormatInfo {
+  id: RecordingFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  lossless: boolean;
+}
+
+export const RECORDING_FORMATS: RecordingFormatInfo[] = [
+  { id: 'wav16', label: 'WAV 16-bit', extension: 'wav', mimeType: 'audio/wav', lossless: true },
+  { id: 'wav24', label: 'WAV 24-bit', extension: 'wav', mimeType: 'audio/wav', lossless: true },
+  { id: 'wav32f', label: 'WAV 32-bit float', extension: 'wav', mimeType: 'audio/wav', lossless: true },
+  { id: 'flac', label: 'FLAC 24-bit', extension: 'flac', mimeType: 'audio/flac', lossless: true },
+  { id: 'mp3', label: 'MP3 192k', extension: 'mp3', mimeType: 'audio/mpeg', lossless: false },
+  { id: 'opus', label: 'Opus (WebM)', extension: 'webm', mimeType: 'audio/webm', lossless: false },
+];
+
+export const DEFAULT_RECORDING_FORMAT: RecordingFormat = 'wav24';
+
+/** What the music was while recording, sampled as each chunk is stored. */
+export interface TakeDescription {
+  prompts: string[];
+  key: DetectedKey | null;
+  /** The tempo the music was asked for, if it was set. */
+  bpm?: number;
+}
+
+/** One source of a multitrack take, as a 32-bit float WAV. */
+export interface Stem {
+  name: string;
+  blob: Blob;
+}
+
+export interface RecorderFinishedEventDetail {
+  blob: Blob;
+  /** Recorded alongside the mix, sample for sample. */
+  stems: Stem[];
+  take: Take;
+}
+
+const WAV_BIT_DEPTHS: Partial<Record<RecordingFormat, WavBitDepth>> = { wav16: 16, wav24: 24, wav32f: 32 };
+const FLAC_BIT_DEPTH = 24;
+const MP3_BITRATE = 192;
+/** Frames per MP3 encoder call, a multiple of the 1152-sample MP3 frame. */
+const MP3_CHUNK_SIZE = 1152 * 10;
+/** Seconds of audio per stored chunk. */
+const CHUNK_DURATION = 5;
+const STEM_CHANNELS = 2;
+
+/** Encodes captured PCM a chunk at a time. */
+interface ChunkEncoder {
+  encode(channels: Float32Array[]): Uint8Array;
+  /** Whatever the encoder was holding back. */
+  finish(): Uint8Array;
+}
+
+async function createChunkEncoder(format: RecordingFormat, numOfChan: number, sampleRate: number): Promise<ChunkEncoder> {
+  const wavBitDepth = WAV_BIT_DEPTHS[format];
+  if (wavBitDepth) {
+    return {
+      encode: (channels) => encodeWavFrames(channels, wavBitDepth),
+      finish: () => new Uint8Array(0),
+    };
+  }
+  if (format === 'flac') {
+    return new FlacEncoder(numOfChan, FLAC_BIT_DEPTH);
+  }
+
+  // Loaded on demand, as it's only needed for this format.
+  const { Mp3Encoder } = await import('@breezystack/lamejs');
+  const encoder = new Mp3Encoder(numOfChan, sampleRate, MP3_BITRATE);
+  const toInt16 = (channel: Float32Array) => Int16Array.from(channel, (value) => {
+    const sample = Math.max(-1, Math.min(1, value));
+    return sample < 0 ? sample * 32768 : sample * 32767;
+  });
+  const join = (parts: Uint8Array[]) => {
+    const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.length;
+    }
+    return joined;
+  };
+  return {
+    encode: (channels) => {
+      const [left, right] = channels.map(toInt16);
+      const parts: Uint8Array[] = [];
+      for (let i = 0; i < left.length; i += MP3_CHUNK_SIZE) {
+        parts.push(encoder.encodeBuffer(left.subarray(i, i + MP3_CHUNK_SIZE), right?.subarray(i, i + MP3_CHUNK_SIZE)));
+      }
+      return join(parts);
+    },
+    finish: () => encoder.flush(),
+  };
+}
+
+/** Describes the take for tags written into its file. */
+function describeTake(take: Take) {
+  const details = [];
+  if (take.key) details.push(`Key: ${take.key.label}`);
+  if (take.prompts.length) details.push(`Prompts: ${take.prompts.join(', ')}`);
+  return details.join('. ');
+}
+
+/**
+ * A take's file, assembled from its stored chunks behind a header written for
+ * its final length. Works for interrupted takes too: they end at their last
+ * stored chunk.
+ */
+export async function loadTake(take: Take): Promise<Blob> {
+  const chunks = (await loadChunks(take.id)).map(({ data }) => data);
+  const { mimeType } = RECORDING_FORMATS.find(({ id }) => id === take.format)!;
+  const description = describeTake(take);
+  const wavBitDepth = WAV_BIT_DEPTHS[take.format];
+  let header: Uint8Array | null = null;
+  if (wavBitDepth) {
+    header = createWavHeader(take.numberOfChannels, take.sampleRate, take.length, {
+      bitDepth: wavBitDepth,
+      info: description ? { ICMT: description } : {},
+      cues: markerCues(take.markers ?? [], take.sampleRate),
+    });
+  } else if (take.format === 'flac') {
+    header = createFlacHeader(take.sampleRate, take.numberOfChannels, take.length, {
+      bitDepth: FLAC_BIT_DEPTH,
+      comments: description ? { DESCRIPTION: description } : {},
+    });
+  }
+  return new Blob(header ? [header, ...chunks] : chunks, { type: mimeType });
+}
+
+/** A multitrack take's stems, assembled like `loadTake`. */
+export async function loadStems(take: Take): Promise<Stem[]> {
+  if (!take.stems?.length) return [];
+  const chunks = await loadChunks(take.id);
+  return take.stems.map((name, i) => {
+    const header = createWavHeader(STEM_CHANNELS, take.sampleRate, take.length, { bitDepth: 32 });
+    const parts = chunks.map(({ stems }) => stems![i]);
+    return { name, blob: new Blob([header, ...parts], { type: 'audio/wav' }) };
+  });
+}
+
+/**
+ * Records a node's output into the recordings library, with no limit on
+ * length. Audio is encoded and stored in IndexedDB a few seconds at a time as
+ * it arrives, so little is held in memory and an interrupted take can be
+ * recovered. Opus goes through MediaRecorder; the other formats capture the
+ * raw samples with an AudioWorklet.
+ *
+ * Given stems, it also records each of them as a stereo 32-bit float track.
+ * They're merged into the same capture node as the mix, so every track gets
+ * the same render quanta and they stay in sync to the sample. Opus takes
+ * record the mix only.
+ *
+ * Dispatches `finished` with the take and its file, or `error` with a message.
+ */
 export class AudioRecorder extends EventTarget {
   private sourceNode: AudioNode;
+  public readonly format: RecordingFormat;
+  private describe: () => TakeDescription;
+  private stems: Map<string, AudioNode>;
+  /** Connections made for the capture, undone when it finishes. */
+  private connections: [AudioNode, AudioNode][] = [];
+  private take: Take | null = null;
   private mediaRecorder: MediaRecorder | null = null;
-  private recordedChunks: Blob[] = [];
   private timeoutId: number | null = null;
   private destination: MediaStreamAudioDestinationNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  private encoder: ChunkEncoder | null = null;
+  private pending: Float32Array[][] = [];
+  private pendingFrames = 0;
+  private chunkIndex = 0;
+  /** When the MediaRecorder last delivered a chunk, from performance.now(). */
+  private lastChunkTime = 0;
+  /** Chunk writes, in order. */
+  private writes = Promise.resolve();
+  private isCapturing = false;
 
-  public static readonly MAX_DURATION = 210 * 1000; // 3:30 in milliseconds
-
-  constructor(sourceNode: AudioNode) {
+  constructor(
+    sourceNode: AudioNode,
+    format: RecordingFormat = DEFAULT_RECORDING_FORMAT,
+    describe: () => TakeDescription = () => ({ prompts: [], key: null }),
+    stems = new Map<string, AudioNode>(),
+  ) {
     super();
     this.sourceNode = sourceNode;
+    this.format = format;
+    this.describe = describe;
+    this.stems = format === 'opus' ? new Map() : stems;
   }
 
-  start(duration: number = AudioRecorder.MAX_DURATION) {
-    if (this.mediaRecorder?.state === 'recording') {
+  /** Starts recording, stopping by itself after `duration` ms if given. */
+  start(duration?: number) {
+    if (this.take) {
       console.warn('Already recording.');
       return;
     }
 
+    const { prompts, key, bpm } = this.describe();
+    this.take = {
+      id: `take-${Date.now()}`,
+      startedAt: Date.now(),
+      duration: 0,
+      length: 0,
+      format: this.format,
+      sampleRate: this.sourceNode.context.sampleRate,
+      numberOfChannels: 2,
+      prompts,
+      key,
+      bpm,
+      stems: this.stems.size ? [...this.stems.keys()] : undefined,
+      finished: false,
+    };
+    this.queueWrite(() => saveTake(this.take!));
+
+    if (this.format === 'opus') {
+      this.startMediaRecorder();
+    } else {
+      this.startCapture();
+    }
+
+    if (duration !== undefined) {
+      this.timeoutId = window.setTimeout(() => {
+        this.stop();
+      }, duration);
+    }
+  }
+
+  stop() {
+    if (this.mediaRecorder?.state === 'recording') {
+      this.mediaRecorder.stop();
+    }
+    if (this.isCapturing) {
+      this.stopCapture();
+    }
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  /** Drops a marker at the current point of the take. Null when not recording. */
+  addMarker(label: string): Marker | null {
+    const take = this.take;
+    if (!take) return null;
+    const time = this.format === 'opus'
+      ? take.duration + (performance.now() - this.lastChunkTime) / 1000
+      : (take.length + this.pendingFrames) / take.sampleRate;
+    const marker = { time, label };
+    take.markers = [...(take.markers ?? []), marker];
+    this.queueWrite(() => saveTake({ ...take }));
+    return marker;
+  }
+
+  private queueWrite(write: () => Promise<void>) {
+    this.writes = this.writes.then(write).catch((e) => {
+      console.error('Unable to store the recording:', e);
+    });
+  }
+
+  /** Stores a chunk of encoded audio, and refreshes the take's description. */
+  private storeChunk(data: Blob, frames: number, duration: number, stems?: Blob[]) {
+    const take = this.take!;
+    const { prompts, key } = this.describe();
+    take.prompts = [...new Set([...take.prompts, ...prompts])];
+    take.key = key ?? take.key;
+    take.length += frames;
+    take.duration += duration;
+    const index = this.chunkIndex++;
+    const snapshot = { ...take };
+    this.queueWrite(() => appendChunk(snapshot, index, data, stems));
+  }
+
+  /** Marks the take finished once every chunk is stored, and dispatches it. */
+  private async finish() {
+    const take = this.take!;
+    take.finished = true;
+    this.queueWrite(() => saveTake({ ...take }));
+    await this.writes;
+    try {
+      const [blob, stems] = await Promise.all([loadTake(take), loadStems(take)]);
+      this.dispatchEvent(new CustomEvent<RecorderFinishedEventDetail>('finished', { detail: { blob, stems, take } }));
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: `Unable to load the recording: ${(e as Error).message}` }));
+    }
+    this.take = null;
+  }
+
+  private startMediaRecorder() {
     this.destination = (this.sourceNode.context as AudioContext).createMediaStreamDestination();
     this.sourceNode.connect(this.destination);
-    
+
     // Choose a MIME type. 'audio/webm;codecs=opus' is widely supported and efficient.
     const options = { mimeType: 'audio/webm;codecs=opus' };
     this.mediaRecorder = new MediaRecorder(this.destination.stream, options);
-    
-    this.recordedChunks = [];
 
+    this.lastChunkTime = performance.now();
     this.mediaRecorder.ondataavailable = (event) => {
+      const now = performance.now();
       if (event.data.size > 0) {
-        this.recordedChunks.push(event.data);
+        this.storeChunk(event.data, 0, (now - this.lastChunkTime) / 1000);
       }
+      this.lastChunkTime = now;
     };
 
     this.mediaRecorder.onstop = () => {
-      const audioBlob = new Blob(this.recordedChunks, { type: options.mimeType });
-      this.dispatchEvent(new CustomEvent('finished', { detail: audioBlob }));
       // Disconnect to avoid memory leaks
       if (this.destination) {
         this.sourceNode.disconnect(this.destination);
       }
+      this.finish();
     };
-    
-    this.mediaRecorder.start();
-    
-    this.timeoutId = window.setTimeout(() => {
-      this.stop();
-    }, duration);
+
+    this.mediaRecorder.start(CHUNK_DURATION * 1000);
   }
 
-  stop() {
-    if (this.mediaRecorder?.state === 'recording') {
-      this.mediaRecorder.stop();
+  private startCapture() {
+    const context = this.sourceNode.context;
+    const take = this.take!;
+    this.isCapturing = true;
+    Promise.all([
+      loadWorkletProcessor(context, PCM_CAPTURE_PROCESSOR_NAME, pcmCaptureProcessor),
+      createChunkEncoder(this.format, take.numberOfChannels, take.sampleRate),
+    ]).then(([, encoder]) => {
+      this.encoder = encoder;
+      // Stopped while loading.
+      if (!this.isCapturing) {
+        this.finishCapture();
+        return;
+      }
+      // Without outputs the node is processed without being connected to the destination.
+      this.captureNode = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR_NAME, {
+        numberOfOutputs: 0,
+        channelCount: this.captureChannels,
+        channelCountMode: 'explicit',
+      });
+      this.captureNode.port.onmessage = (e: MessageEvent<PcmCaptureEvent>) => {
+        if (e.data.type === 'pcm') {
+          this.handlePcm(e.data.channels);
+        } else {
+          this.finishCapture();
+        }
+      };
+      this.connectCapture(this.captureNode);
+    }).catch((e) => {
+      const { id } = this.take!;
+      this.queueWrite(() => deleteTake(id));
+      this.isCapturing = false;
+      this.take = null;
+      this.dispatchEvent(new CustomEvent('error', { detail: `Unable to start recording: ${e.message}` }));
+    });
+  }
+
+  /** The mix's channels, then each stem's. */
+  private get captureChannels() {
+    return this.take!.numberOfChannels + this.stems.size * STEM_CHANNELS;
+  }
+
+  private connect(source: AudioNode, destination: AudioNode, output = 0, input = 0) {
+    source.connect(destination, output, input);
+    // Disconnecting a pair undoes every connection between them.
+    if (!this.connections.some(([s, d]) => s === source && d === destination)) {
+      this.connections.push([source, destination]);
     }
-    if (this.timeoutId) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
+  }
+
+  private connectCapture(captureNode: AudioWorkletNode) {
+    if (this.stems.size === 0) {
+      this.connect(this.sourceNode, captureNode);
+      return;
+    }
+    const context = this.sourceNode.context;
+    const merger = context.createChannelMerger(this.captureChannels);
+    [this.sourceNode, ...this.stems.values()].forEach((source, track) => {
+      // Splitters mix their input to stereo, so mono sources fill both channels.
+      const splitter = context.createChannelSplitter(STEM_CHANNELS);
+      this.connect(source, splitter);
+      for (let ch = 0; ch < STEM_CHANNELS; ch++) {
+        this.connect(splitter, merger, ch, track * STEM_CHANNELS + ch);
+      }
+    });
+    this.connect(merger, captureNode);
+  }
+
+  private stopCapture() {
+    this.isCapturing = false;
+    // The rest of the samples arrive before `flushed`, which finishes the capture.
+    this.captureNode?.port.postMessage({ type: 'flush' } satisfies PcmCaptureMessage);
+  }
+
+  private handlePcm(channels: Float32Array[]) {
+    this.pending.push(channels);
+    this.pendingFrames += channels[0].length;
+    if (this.pendingFrames >= CHUNK_DURATION * this.take!.sampleRate) this.encodePending();
+  }
+
+  private encodePending(final = false) {
+    const take = this.take!;
+    const frames = this.pendingFrames;
+    const channels = Array.from({ length: this.captureChannels }, () => new Float32Array(frames));
+    let offset = 0;
+    for (const piece of this.pending) {
+      channels.forEach((channel, ch) => channel.set(piece[ch] ?? piece[0], offset));
+      offset += piece[0].length;
+    }
+    this.pending = [];
+    this.pendingFrames = 0;
+
+    const mix = channels.slice(0, take.numberOfChannels);
+    const encoded = [this.encoder!.encode(mix)];
+    if (final) encoded.push(this.encoder!.finish());
+    const stems = Array.from(this.stems.keys(), (_, i) => {
+      const start = take.numberOfChannels + i * STEM_CHANNELS;
+      return new Blob([encodeWavFrames(channels.slice(start, start + STEM_CHANNELS), 32)]);
+    });
+    this.storeChunk(new Blob(encoded), frames, frames / take.sampleRate, stems.length ? stems : undefined);
+  }
+
+  private finishCapture() {
+    for (const [source, destination] of this.connections) source.disconnect(destination);
+    this.connections = [];
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode = null;
     }
+    this.encodePending(true);
+    this.finish();
   }
-}
\ No newline at end of file
+}
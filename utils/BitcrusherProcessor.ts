@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const BITCRUSHER_PROCESSOR_NAME = 'bitcrusher-processor';
+
+/**
+ * The AudioWorklet side of BitcrusherEffect.
+ *
+ * Quantizes samples to `bits` of resolution and holds every sample for
+ * `downsample` frames, which aliases like a low sample rate converter.
+ */
+export function bitcrusherProcessor() {
+  class BitcrusherProcessor extends AudioWorkletProcessor {
+    private held: number[];
+    private phase: number;
+
+    static get parameterDescriptors() {
+      return [
+        { name: 'bits', defaultValue: 8, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+        { name: 'downsample', defaultValue: 4, minValue: 1, maxValue: 32, automationRate: 'k-rate' },
+      ];
+    }
+
+    constructor() {
+      super();
+      this.held = [];
+      this.phase = 0;
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+      const input = inputs[0];
+      const output = outputs[0];
+      if (input.length === 0) return true;
+
+      const levels = 2 ** (parameters.bits[0] - 1);
+      const downsample = Math.max(1, Math.round(parameters.downsample[0]));
+      for (let i = 0; i < output[0].length; i++) {
+        if (this.phase === 0) {
+          for (let ch = 0; ch < output.length; ch++) {
+            const sample = input[Math.min(ch, input.length - 1)][i];
+            this.held[ch] = Math.round(sample * levels) / levels;
+          }
+        }
+        for (let ch = 0; ch < output.length; ch++) {
+          output[ch][i] = this.held[ch];
+        }
+        this.phase = (this.phase + 1) % downsample;
+      }
+      return true;
+    }
+  }
+
+  // Keep in sync with BITCRUSHER_PROCESSOR_NAME.
+  registerProcessor('bitcrusher-processor', BitcrusherProcessor);
+}
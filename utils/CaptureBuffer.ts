@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import { PCM_CAPTURE_PROCESSOR_NAME, pcmCaptureProcessor } from './PcmCaptureProcessor';
+import type { PcmCaptureEvent, PcmCaptureMessage } from './PcmCaptureProcessor';
+import { createWavHeader, encodeWavFrames } from './wav';
+import { loadWorkletProcessor } from './worklet';
+
+export const MIN_CAPTURE_LENGTH = 30;
+export const MAX_CAPTURE_LENGTH = 600;
+export const DEFAULT_CAPTURE_LENGTH = 120;
+
+const DB_NAME = 'PromptDjCapture';
+const STORE_NAME = 'chunks';
+/** Seconds of audio per IndexedDB record. */
+const CHUNK_DURATION = 5;
+const CHANNELS = 2;
+
+interface CaptureChunk {
+  id: number;
+  channels: Float32Array[];
+}
+
+export interface CapturedAudio {
+  blob: Blob;
+  /** In seconds. */
+  duration: number;
+}
+
+/**
+ * A rolling recording of the master output, so a moment can be kept after it
+ * happened. Audio is written to IndexedDB in chunks of a few seconds, and
+ * chunks older than `length` seconds are dropped, so memory use stays flat
+ * however long the buffer is.
+ *
+ * Only runs while started, so pauses don't fill the buffer with silence.
+ */
+export class CaptureBuffer {
+  private readonly sourceNode: AudioNode;
+  private readonly chunkFrames: number;
+  private _length: number;
+  private captureNode: AudioWorkletNode | null = null;
+  private isStarted = false;
+  private db: Promise<IDBDatabase>;
+  /** Samples not yet written to the database, oldest first. */
+  private pending: Float32Array[][] = [];
+  private pendingFrames = 0;
+  private nextChunkId = 0;
+  /** Chunk writes, in order. */
+  private writes = Promise.resolve();
+  /** Resolves the pending flush once the processor has posted everything it had. */
+  private resolveFlush: (() => void) | null = null;
+
+  constructor(sourceNode: AudioNode, length = DEFAULT_CAPTURE_LENGTH) {
+    this.sourceNode = sourceNode;
+    this._length = this.clampLength(length);
+    this.chunkFrames = CHUNK_DURATION * sourceNode.context.sampleRate;
+
+    // Chunks left over from a previous session aren't contiguous with this one.
+    this.db = openDatabase(DB_NAME, 1, { [STORE_NAME]: { keyPath: 'id' } }).then(async (db) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      await transactionDone(transaction);
+      return db;
+    });
+
+    const context = sourceNode.context;
+    loadWorkletProcessor(context, PCM_CAPTURE_PROCESSOR_NAME, pcmCaptureProcessor).then(() => {
+      this.captureNode = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR_NAME, {
+        numberOfOutputs: 0,
+        channelCount: CHANNELS,
+        channelCountMode: 'explicit',
+      });
+      this.captureNode.port.onmessage = (e: MessageEvent<PcmCaptureEvent>) => this.handleMessage(e.data);
+      if (this.isStarted) this.sourceNode.connect(this.captureNode);
+    }).catch((e) => {
+      console.error('Unable to load the capture buffer:', e);
+    });
+  }
+
+  /** Seconds of audio kept. */
+  get length() {
+    return this._length;
+  }
+
+  set length(seconds: number) {
+    this._length = this.clampLength(seconds);
+    this.prune().catch(console.error);
+  }
+
+  start() {
+    if (this.isStarted) return;
+    this.isStarted = true;
+    if (this.captureNode) this.sourceNode.connect(this.captureNode);
+  }
+
+  stop() {
+    if (!this.isStarted) return;
+    this.isStarted = false;
+    if (this.captureNode) this.sourceNode.disconnect(this.captureNode);
+  }
+
+  /** The last `length` seconds as a 32-bit float WAV, or null if nothing has been captured. */
+  async capture(): Promise<CapturedAudio | null> {
+    await this.flush();
+    // Chunks being written must be in the database before it's read.
+    let writes: Promise<void>;
+    do {
+      writes = this.writes;
+      await writes;
+    } while (writes !== this.writes);
+    const db = await this.db;
+
+    const sampleRate = this.sourceNode.context.sampleRate;
+    const wanted = this._length * sampleRate;
+    // Walk back from the newest samples, which are still in memory, through the chunks.
+    const pieces: Float32Array[][] = [...this.pending].reverse();
+    let frames = this.pendingFrames;
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).openCursor(null, 'prev');
+    let cursor = await promisifyRequest(request);
+    while (cursor && frames < wanted) {
+      const chunk = cursor.value as CaptureChunk;
+      pieces.push(chunk.channels);
+      frames += chunk.channels[0].length;
+      cursor.continue();
+      cursor = await promisifyRequest(request);
+    }
+    if (frames === 0) return null;
+
+    // Drop the part of the oldest piece that's beyond the length.
+    const excess = Math.max(0, frames - wanted);
+    const oldest = pieces[pieces.length - 1];
+    pieces[pieces.length - 1] = oldest.map((channel) => channel.subarray(excess));
+    const length = frames - excess;
+
+    const parts: BlobPart[] = [createWavHeader(CHANNELS, sampleRate, length, { bitDepth: 32 })];
+    for (let i = pieces.length - 1; i >= 0; i--) parts.push(encodeWavFrames(pieces[i], 32));
+    return { blob: new Blob(parts, { type: 'audio/wav' }), duration: length / sampleRate };
+  }
+
+  private clampLength(seconds: number) {
+    return Math.max(MIN_CAPTURE_LENGTH, Math.min(MAX_CAPTURE_LENGTH, seconds));
+  }
+
+  /** Waits for samples still on the audio thread. */
+  private flush() {
+    if (!this.captureNode || !this.isStarted) return Promise.resolve();
+    return new Promise<void>((resolve) => {
+      this.resolveFlush = resolve;
+      this.captureNode!.port.postMessage({ type: 'flush' } satisfies PcmCaptureMessage);
+    });
+  }
+
+  private handleMessage(event: PcmCaptureEvent) {
+    if (event.type === 'flushed') {
+      this.resolveFlush?.();
+      this.resolveFlush = null;
+      return;
+    }
+    this.pending.push(event.channels);
+    this.pendingFrames += event.channels[0].length;
+    if (this.pendingFrames < this.chunkFrames) return;
+
+    const channels = Array.from({ length: CHANNELS }, () => new Float32Array(this.pendingFrames));
+    let offset = 0;
+    for (const piece of this.pending) {
+      channels.forEach((channel, ch) => channel.set(piece[ch] ?? piece[0], offset));
+      offset += piece[0].length;
+    }
+    this.pending = [];
+    this.pendingFrames = 0;
+    const chunk: CaptureChunk = { id: this.nextChunkId++, channels };
+    this.writes = this.writes.then(() => this.writeChunk(chunk)).catch((e) => {
+      console.error('Unable to write to the capture buffer:', e);
+    });
+  }
+
+  private async writeChunk(chunk: CaptureChunk) {
+    const db = await this.db;
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(chunk);
+    await transactionDone(transaction);
+    await this.prune();
+  }
+
+  /** Deletes chunks that are entirely older than the length. One extra is kept to cover the pending samples. */
+  private async prune() {
+    const keep = Math.ceil(this._length / CHUNK_DURATION) + 1;
+    const oldestKept = this.nextChunkId - keep;
+    if (oldestKept <= 0) return;
+    const db = await this.db;
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(IDBKeyRange.upperBound(oldestKept, true));
+    await transactionDone(transaction);
+  }
+}
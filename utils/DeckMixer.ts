@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicHelper } from './LiveMusicHelper';
+
+export type DeckId = 'A' | 'B';
+
+export const DECK_IDS: DeckId[] = ['A', 'B'];
+
+/** Time constant for smoothing gain changes, in seconds. */
+const GAIN_SMOOTHING = 0.01;
+
+export interface AudioOutputDevice {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * Mixes two LiveMusicHelper sessions that share a master bus, with an
+ * equal-power crossfader, per-deck gain and a pre-fader cue bus that can be
+ * routed to a separate output device for headphones.
+ */
+export class DeckMixer extends EventTarget {
+  readonly decks: Record<DeckId, LiveMusicHelper>;
+
+  public crossfader = 0.5;
+  private gains: Record<DeckId, number> = { A: 1, B: 1 };
+  private cued: Record<DeckId, boolean> = { A: false, B: false };
+
+  private readonly cueBus: GainNode;
+  private readonly cueDestination: MediaStreamAudioDestinationNode;
+  private readonly cueElement: HTMLAudioElement;
+  /** The device the cue bus plays to. None until one is picked, so cueing can't reach the main speakers. */
+  private cueOutput: string | null = null;
+
+  constructor(deckA: LiveMusicHelper, deckB: LiveMusicHelper) {
+    super();
+    if (deckA.masterBus !== deckB.masterBus) {
+      throw new Error('Decks must share a master bus.');
+    }
+    this.decks = { A: deckA, B: deckB };
+
+    const context = deckA.audioContext;
+    this.cueBus = context.createGain();
+    this.cueDestination = context.createMediaStreamDestination();
+    this.cueBus.connect(this.cueDestination);
+    this.cueElement = new Audio();
+    this.cueElement.srcObject = this.cueDestination.stream;
+    for (const id of DECK_IDS) {
+      this.decks[id].cueSend.connect(this.cueBus);
+    }
+
+    this.applyGains();
+  }
+
+  public getDeckGain(deck: DeckId) {
+    return this.gains[deck];
+  }
+
+  public isCued(deck: DeckId) {
+    return this.cued[deck];
+  }
+
+  /** 0 is fully deck A, 1 is fully deck B. */
+  public setCrossfader(value: number) {
+    this.crossfader = Math.max(0, Math.min(1, value));
+    this.applyGains();
+  }
+
+  public setDeckGain(deck: DeckId, gain: number) {
+    this.gains[deck] = Math.max(0, Math.min(2, gain));
+    this.applyGains();
+  }
+
+  private applyGains() {
+    const now = this.decks.A.audioContext.currentTime;
+    // Equal-power curve, so the centre position doesn't dip in loudness.
+    const curve: Record<DeckId, number> = {
+      A: Math.cos(this.crossfader * Math.PI / 2),
+      B: Math.sin(this.crossfader * Math.PI / 2),
+    };
+    for (const id of DECK_IDS) {
+      this.decks[id].deckGain.gain.setTargetAtTime(curve[id] * this.gains[id], now, GAIN_SMOOTHING);
+    }
+    this.dispatchEvent(new CustomEvent('mixer-changed'));
+  }
+
+  public setCue(deck: DeckId, cued: boolean) {
+    this.cued[deck] = cued;
+    const now = this.decks.A.audioContext.currentTime;
+    this.decks[deck].cueSend.gain.setTargetAtTime(cued ? 1 : 0, now, GAIN_SMOOTHING);
+    this.updateCuePlayback();
+    this.dispatchEvent(new CustomEvent('mixer-changed'));
+  }
+
+  private updateCuePlayback() {
+    if (this.cueOutput !== null && DECK_IDS.some((id) => this.cued[id])) {
+      this.cueElement.play().catch((e) => {
+        this.dispatchEvent(new CustomEvent('error', { detail: `Unable to start cue output: ${e.message}` }));
+      });
+    } else {
+      this.cueElement.pause();
+    }
+  }
+
+  /** Lists audio outputs the cue bus can be routed to. */
+  public static async getOutputDevices(): Promise<AudioOutputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audiooutput')
+      .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Output ${i + 1}` }));
+  }
+
+  /** Routes the cue bus to the device, or nowhere for null. */
+  public async setCueOutput(deviceId: string | null) {
+    if (deviceId !== null) {
+      const element = this.cueElement as HTMLAudioElement & { setSinkId?: (id: string) => Promise<void> };
+      if (!element.setSinkId) {
+        throw new Error('Your browser does not support choosing an audio output device.');
+      }
+      await element.setSinkId(deviceId);
+    }
+    this.cueOutput = deviceId;
+    this.updateCuePlayback();
+  }
+
+  /** Sets the `target` deck's BPM to the other deck's. This resets the target's context. */
+  public async syncBpm(target: DeckId) {
+    const source: DeckId = target === 'A' ? 'B' : 'A';
+    const { bpm } = this.decks[source].musicGenerationConfig;
+    if (bpm === undefined) {
+      throw new Error(`Set a BPM on deck ${source} before syncing to it.`);
+    }
+    await this.decks[target].setMusicGenerationConfig({ bpm });
+  }
+}
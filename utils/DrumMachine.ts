@@ -2,47 +2,247 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { decodeAiff, isAiff } from './aiff';
 
-// Base64 encoded audio data for drum samples
-const SAMPLE_DATA = [
-    // 808
-    'UklGRigAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAgAAAAA=',
-    // Kick
-    'UklGRiQAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAAAAAA==',
-    // Snare
-    'UklGRiAAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAgAAAAA=',
-    // Clap
-    'UklGRiQAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAAAAAA==',
-    // Closed Hat
-    'UklGRiAAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAgAAAAA=',
-    // Open Hat
-    'UklGRiQAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAAAAAA==',
-    // Crash
-    'UklGRiAAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAgAAAAA=',
-    // Perc
-    'UklGRiQAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhAAAAAA=='
+export type VoiceType = '808' | 'kick' | 'snare' | 'clap' | 'hat' | 'crash' | 'perc';
+
+/** How a synthesized voice sounds. */
+export interface VoiceParams {
+    /** From 0, dark, to 1, bright. What brightens it depends on the voice. */
+    tone: number;
+    /** Seconds for the voice to die away. */
+    decay: number;
+    /** The voice's fundamental, or for noisy voices the centre of its band, in Hz. */
+    pitch: number;
+}
+
+export interface Voice {
+    type: VoiceType;
+    params: VoiceParams;
+}
+
+/** What each parameter can be set to, so voices stay audible and quick to render. */
+export const VOICE_PARAM_RANGES: Record<keyof VoiceParams, { min: number; max: number; step: number }> = {
+    tone: { min: 0, max: 1, step: 0.05 },
+    decay: { min: 0.01, max: 4, step: 0.01 },
+    pitch: { min: 20, max: 5000, step: 1 },
+};
+
+/** The voices of the sequencer's tracks, in order. */
+export const DEFAULT_VOICES: Voice[] = [
+    { type: '808', params: { tone: 0.3, decay: 1.2, pitch: 49 } },
+    { type: 'kick', params: { tone: 0.5, decay: 0.45, pitch: 55 } },
+    { type: 'snare', params: { tone: 0.5, decay: 0.22, pitch: 185 } },
+    { type: 'clap', params: { tone: 0.5, decay: 0.2, pitch: 1200 } },
+    // Closed hat
+    { type: 'hat', params: { tone: 0.6, decay: 0.06, pitch: 40 } },
+    // Open hat
+    { type: 'hat', params: { tone: 0.6, decay: 0.4, pitch: 40 } },
+    { type: 'crash', params: { tone: 0.5, decay: 1.8, pitch: 60 } },
+    { type: 'perc', params: { tone: 0.3, decay: 0.25, pitch: 320 } },
 ];
 
-// Fallback audio data to prevent errors if the actual samples fail to load/decode
-const KICK_808 = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAAB/v38Cv//v/39/v3+AgIAAAAAAP79/v79/gICAgAEAAAA//79/v4CAv79/gEBAv3+/f79/gEBAv7+/f79/gIBAv79/P79/v79/v7+/f79/v79/Pz8/v7+/f79/Pz8/Pz8/v7+/f79/v7+/f79/v7+/f79/v79/v7+/f79/v79/gICAgAAAAAA`;
-const KICK = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const SNARE = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const CLAP = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const HH_CLOSED = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const HH_OPEN = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const CRASH = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const PERC = `data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhUAAAAACAgP/+Af8CAP4BAP4AAAD+AAAA/gAAAP4AAAD+AAAA/gAAAP4AAAD+AAAAAgAAAP4CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA/wIAAP8CAAD/AgAA`;
-const SAMPLES = [KICK_808, KICK, SNARE, CLAP, HH_CLOSED, HH_OPEN, CRASH, PERC];
+/** Level a voice's envelope falls to by the end of its decay. */
+const SILENCE = 0.001;
+/** Rendered past the decay, for filters to ring out. */
+const RENDER_TAIL = 0.05;
+/** Seeds the noise, so every render of a voice is the same. */
+const NOISE_SEED = 0x2545f491;
+/** Frequency ratios of the square waves summed for cymbals, as in the 808. */
+const METALLIC_RATIOS = [2, 3, 4.16, 5.43, 6.79, 8.21];
+
+/** White noise from a fixed seed, so the live and exported voices match. */
+function createNoise(context: BaseAudioContext, duration: number) {
+    const buffer = context.createBuffer(1, Math.max(1, Math.ceil(duration * context.sampleRate)), context.sampleRate);
+    const data = buffer.getChannelData(0);
+    let state = NOISE_SEED;
+    for (let i = 0; i < data.length; i++) {
+        // xorshift32
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        data[i] = ((state >>> 0) / 0xffffffff) * 2 - 1;
+    }
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.start(0);
+    return source;
+}
+
+/** A gain that falls from `peak` at `start` to silence `decay` seconds later. */
+function createEnvelope(context: BaseAudioContext, peak: number, decay: number, start = 0) {
+    const gain = context.createGain();
+    if (start > 0) gain.gain.setValueAtTime(0, 0);
+    gain.gain.setValueAtTime(peak, start);
+    // A ramp can't reach 0, and from a peak of 0 it stays there.
+    gain.gain.exponentialRampToValueAtTime(Math.max(peak, SILENCE) * SILENCE, start + decay);
+    return gain;
+}
+
+function createFilter(context: BaseAudioContext, type: BiquadFilterType, frequency: number, Q = 1) {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = Q;
+    return filter;
+}
+
+/** A sine that sweeps down from `from` to `to` Hz, as drums do when struck. */
+function createSweep(context: BaseAudioContext, from: number, to: number, time: number, type: OscillatorType = 'sine') {
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(from, 0);
+    oscillator.frequency.exponentialRampToValueAtTime(to, time);
+    oscillator.start(0);
+    return oscillator;
+}
 
+/** Square waves at inharmonic ratios of `pitch`, summed into a metallic clang. */
+function createMetallic(context: BaseAudioContext, pitch: number) {
+    const mix = context.createGain();
+    mix.gain.value = 1 / METALLIC_RATIOS.length;
+    for (const ratio of METALLIC_RATIOS) {
+        const oscillator = context.createOscillator();
+        oscillator.type = 'square';
+        oscillator.frequency.value = pitch * ratio;
+        oscillator.connect(mix);
+        oscillator.start(0);
+    }
+    return mix;
+}
+
+/** Soft clipping, harder as `drive` rises. */
+function createSaturation(context: BaseAudioContext, drive: number) {
+    const shaper = context.createWaveShaper();
+    const curve = new Float32Array(1024);
+    for (let i = 0; i < curve.length; i++) {
+        const x = (i / (curve.length - 1)) * 2 - 1;
+        curve[i] = Math.tanh(drive * x) / Math.tanh(drive);
+    }
+    shaper.curve = curve;
+    return shaper;
+}
+
+type Synth = (context: BaseAudioContext, output: AudioNode, params: VoiceParams) => void;
+
+/** Builds each type of voice, starting at time 0, from oscillators and noise. */
+const SYNTHS: Record<VoiceType, Synth> = {
+    // A long sine with a short drop in pitch. Tone saturates it.
+    '808': (context, output, { tone, decay, pitch }) => {
+        createSweep(context, pitch * 3, pitch, 0.04)
+            .connect(createSaturation(context, 1 + tone * 9))
+            .connect(createEnvelope(context, 0.9, decay))
+            .connect(output);
+    },
+    // A sine with a fast drop in pitch. Tone adds a click to the attack.
+    kick: (context, output, { tone, decay, pitch }) => {
+        createSweep(context, pitch * 8, pitch, 0.06)
+            .connect(createEnvelope(context, 1, decay))
+            .connect(output);
+        createNoise(context, 0.02)
+            .connect(createFilter(context, 'highpass', 2000))
+            .connect(createEnvelope(context, tone * 0.6, 0.01))
+            .connect(output);
+    },
+    // A triangle for the shell and noise for the wires. Tone raises the noise's cutoff.
+    snare: (context, output, { tone, decay, pitch }) => {
+        createSweep(context, pitch * 1.5, pitch, 0.02, 'triangle')
+            .connect(createEnvelope(context, 0.6, decay * 0.5))
+            .connect(output);
+        createNoise(context, decay)
+            .connect(createFilter(context, 'highpass', 800 + tone * 4000))
+            .connect(createEnvelope(context, 0.7, decay))
+            .connect(output);
+    },
+    // Bursts of band-passed noise, then a tail. Tone widens the band.
+    clap: (context, output, { tone, decay, pitch }) => {
+        const band = createFilter(context, 'bandpass', pitch, 4 - tone * 3);
+        createNoise(context, decay + 0.03).connect(band);
+        for (const start of [0, 0.01, 0.02]) {
+            band.connect(createEnvelope(context, 0.8, 0.01, start)).connect(output);
+        }
+        band.connect(createEnvelope(context, 0.6, decay, 0.03)).connect(output);
+    },
+    // A metallic clang, high-passed. Tone raises the cutoff.
+    hat: (context, output, { tone, decay, pitch }) => {
+        createMetallic(context, pitch)
+            .connect(createFilter(context, 'bandpass', 10000))
+            .connect(createFilter(context, 'highpass', 4000 + tone * 6000))
+            .connect(createEnvelope(context, 0.8, decay))
+            .connect(output);
+    },
+    // A metallic clang and noise, high-passed. Tone raises the cutoff.
+    crash: (context, output, { tone, decay, pitch }) => {
+        const highpass = createFilter(context, 'highpass', 3000 + tone * 5000);
+        createMetallic(context, pitch).connect(highpass);
+        const noise = context.createGain();
+        noise.gain.value = 0.5;
+        createNoise(context, decay).connect(noise).connect(highpass);
+        highpass.connect(createEnvelope(context, 0.7, decay)).connect(output);
+    },
+    // A tuned sine like a tom or conga. Tone mixes in a square for a harder, cowbell-like hit.
+    perc: (context, output, { tone, decay, pitch }) => {
+        createSweep(context, pitch * 1.5, pitch, 0.02)
+            .connect(createEnvelope(context, 0.8, decay))
+            .connect(output);
+        createSweep(context, pitch * 2.2, pitch * 1.48, 0.02, 'square')
+            .connect(createFilter(context, 'lowpass', 4000))
+            .connect(createEnvelope(context, tone * 0.3, decay * 0.6))
+            .connect(output);
+    },
+};
+
+/** Renders a voice, at the given sample rate, into a buffer. */
+async function renderVoice({ type, params }: Voice, sampleRate: number) {
+    const context = new OfflineAudioContext(1, Math.ceil((params.decay + RENDER_TAIL) * sampleRate), sampleRate);
+    SYNTHS[type](context, context.destination, params);
+    return context.startRendering();
+}
+
+/** A track's sound in a kit: its synthesized voice, or a sample imported over it. */
+export interface KitVoice {
+    synth: Voice;
+    /** An imported audio file, played instead of the synthesized voice. */
+    sample: Blob | null;
+    /** The imported file's name. */
+    sampleName: string | null;
+    /** In dB. */
+    gain: number;
+    /** In semitones. */
+    tune: number;
+}
+
+/** The sounds of all the tracks, saved and shared together. */
+export interface DrumKit {
+    name: string;
+    voices: KitVoice[];
+}
+
+/** The kit of synthesized voices, which can't be overwritten or deleted. */
+export const DEFAULT_KIT_NAME = 'Synth';
+
+export function createDefaultKit(): DrumKit {
+    return {
+        name: DEFAULT_KIT_NAME,
+        voices: DEFAULT_VOICES.map((synth) => ({ synth, sample: null, sampleName: null, gain: 0, tune: 0 })),
+    };
+}
+
+function copyVoices(voices: KitVoice[]): KitVoice[] {
+    return voices.map((voice) => ({ ...voice, synth: { type: voice.synth.type, params: { ...voice.synth.params } } }));
+}
 
 export class DrumMachine {
     private audioContext: BaseAudioContext;
+    private kitVoices: KitVoice[];
     private samples: AudioBuffer[] = [];
     private loaded = false;
-    private masterGain: GainNode;
+    /** Every voice goes through it, e.g. to record the drums as a stem. */
+    public readonly masterGain: GainNode;
 
-    constructor(audioContext: BaseAudioContext) {
+    constructor(audioContext: BaseAudioContext, voices: KitVoice[] = createDefaultKit().voices) {
         this.audioContext = audioContext;
+        this.kitVoices = copyVoices(voices);
         this.masterGain = this.audioContext.createGain();
     }
 
@@ -50,38 +250,93 @@ export class DrumMachine {
         this.masterGain.connect(destination);
     }
 
-    public async loadSamples() {
-        if (this.loaded) return;
+    /** The voices as they've been changed, e.g. to save them as a kit or render an export with the same sounds. */
+    public get voices(): KitVoice[] {
+        return copyVoices(this.kitVoices);
+    }
+
+    /** The sample imported over the voice if there is one, otherwise the voice synthesized. */
+    private async loadVoice({ synth, sample }: KitVoice) {
+        if (!sample) return renderVoice(synth, this.audioContext.sampleRate);
+        const data = await sample.arrayBuffer();
+        return isAiff(data) ? decodeAiff(data, this.audioContext) : this.audioContext.decodeAudioData(data);
+    }
 
-        const loadPromises = SAMPLES.map(async (sampleUrl, index) => {
+    private async prepareVoices(voices: KitVoice[]) {
+        const samples: AudioBuffer[] = [];
+        const loadPromises = voices.map(async (voice, index) => {
             try {
-                const response = await fetch(sampleUrl);
-                const arrayBuffer = await response.arrayBuffer();
-                const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-                this.samples[index] = audioBuffer;
+                samples[index] = await this.loadVoice(voice);
             } catch (e) {
-                console.error(`Failed to load sample ${index}`, e);
+                console.error(`Failed to load voice ${index}`, e);
             }
         });
-
         await Promise.all(loadPromises);
+        return samples;
+    }
+
+    /** Synthesizes or decodes every voice, so playing one only has to start a buffer. */
+    public async loadSamples() {
+        if (this.loaded) return;
+        this.samples = await this.prepareVoices(this.kitVoices);
+        this.loaded = true;
+    }
+
+    /** Switches to another kit once all its voices are ready, so playback carries on meanwhile. */
+    public async loadKit(kit: DrumKit) {
+        const voices = copyVoices(kit.voices);
+        const samples = await this.prepareVoices(voices);
+        this.kitVoices = voices;
+        this.samples = samples;
         this.loaded = true;
     }
-    
-    public play(index: number, time?: number, pitchBend = 0) {
+
+    /** Replaces a voice with an audio file. Throws if the file can't be decoded. */
+    public async setSample(index: number, file: File) {
+        const voice = this.kitVoices[index];
+        if (!voice) return;
+        const buffer = await this.loadVoice({ ...voice, sample: file });
+        voice.sample = file;
+        voice.sampleName = file.name;
+        this.samples[index] = buffer;
+    }
+
+    /** Goes back to the synthesized voice. */
+    public async clearSample(index: number) {
+        const voice = this.kitVoices[index];
+        if (!voice) return;
+        voice.sample = null;
+        voice.sampleName = null;
+        this.samples[index] = await this.loadVoice(voice);
+    }
+
+    /** Changes some of a voice's parameters and renders it again, unless a sample is playing in its place. */
+    public async setVoiceParams(index: number, params: Partial<VoiceParams>) {
+        const voice = this.kitVoices[index];
+        if (!voice) return;
+        voice.synth.params = { ...voice.synth.params, ...params };
+        if (!voice.sample) this.samples[index] = await this.loadVoice(voice);
+    }
+
+    /** Sets a voice's gain or tuning, which apply from the next time it plays. */
+    public adjustVoice(index: number, changes: Partial<Pick<KitVoice, 'gain' | 'tune'>>) {
+        const voice = this.kitVoices[index];
+        if (voice) Object.assign(voice, changes);
+    }
+
+    public play(index: number, time?: number, pitchBend = 0, velocity = 1) {
         if (!this.loaded || index < 0 || index >= this.samples.length || !this.samples[index]) return;
+        const { gain, tune } = this.kitVoices[index];
 
         const source = this.audioContext.createBufferSource();
         source.buffer = this.samples[index];
-        source.detune.value = pitchBend;
-        
+        source.detune.value = tune * 100 + pitchBend;
+
         const gainNode = this.audioContext.createGain();
-        if (index === 0) { // 808
-            gainNode.gain.value = 1.5; // Boost 808 a bit
-        }
-        
+        gainNode.gain.value = velocity * 10 ** (gain / 20);
+
         source.connect(gainNode);
         gainNode.connect(this.masterGain);
         source.start(time || this.audioContext.currentTime);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The mix followed by any lanes. Edits apply to all of them alike, so they stay in sync. */
+export type Tracks = AudioBuffer[];
+
+/**
+ * An undoable edit. Commands keep only what they need to undo themselves,
+ * e.g. the samples they removed or overwrote, never a copy of the whole take.
+ */
+export interface EditCommand {
+  readonly label: string;
+  /** Bytes kept to undo it, once applied. */
+  readonly size: number;
+  apply(tracks: Tracks): Tracks;
+  revert(tracks: Tracks): Tracks;
+  /** Where a frame ends up once applied, or null if it's removed. Left out by edits that don't move audio. */
+  mapFrame?(frame: number): number | null;
+}
+
+/** Undo history is trimmed, oldest first, to keep under this many bytes. */
+const MAX_HISTORY_BYTES = 256 * 1024 * 1024;
+
+export function createBufferLike(buffer: AudioBuffer, length: number) {
+  const { numberOfChannels, sampleRate } = buffer;
+  return new AudioBuffer({ numberOfChannels, length, sampleRate });
+}
+
+export function channelsOf(buffer: AudioBuffer) {
+  return Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+}
+
+/** Frames kept by a command, in bytes. */
+export function sizeOf(kept: Float32Array[][]) {
+  return kept.reduce((sum, channels) => sum + channels.reduce((s, channel) => s + channel.byteLength, 0), 0);
+}
+
+/** Removes frames `start` to `end`, keeping them to put back. */
+export class CutCommand implements EditCommand {
+  readonly label = 'Cut';
+  private start: number;
+  private end: number;
+  private removed: Float32Array[][] = [];
+
+  constructor(start: number, end: number) {
+    this.start = start;
+    this.end = end;
+  }
+
+  get size() {
+    return sizeOf(this.removed);
+  }
+
+  mapFrame(frame: number) {
+    if (frame < this.start) return frame;
+    return frame < this.end ? null : frame - (this.end - this.start);
+  }
+
+  apply(tracks: Tracks) {
+    const { start, end } = this;
+    this.removed = tracks.map((buffer) => channelsOf(buffer).map((channel) => channel.slice(start, end)));
+    return tracks.map((buffer) => {
+      const cut = createBufferLike(buffer, buffer.length - (end - start));
+      channelsOf(buffer).forEach((channel, ch) => {
+        const output = cut.getChannelData(ch);
+        output.set(channel.subarray(0, start));
+        output.set(channel.subarray(end), start);
+      });
+      return cut;
+    });
+  }
+
+  revert(tracks: Tracks) {
+    const { start, end } = this;
+    const restored = tracks.map((buffer, track) => {
+      const whole = createBufferLike(buffer, buffer.length + (end - start));
+      channelsOf(buffer).forEach((channel, ch) => {
+        const output = whole.getChannelData(ch);
+        output.set(channel.subarray(0, start));
+        output.set(this.removed[track][ch], start);
+        output.set(channel.subarray(start), end);
+      });
+      return whole;
+    });
+    this.removed = [];
+    return restored;
+  }
+}
+
+/**
+ * Undo and redo stacks of edit commands, bounded by the memory the commands
+ * keep rather than by count.
+ */
+export class EditHistory {
+  private undoStack: EditCommand[] = [];
+  private redoStack: EditCommand[] = [];
+  private maxBytes: number;
+
+  constructor(maxBytes = MAX_HISTORY_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  /** Label of the edit undo would revert, e.g. for a tooltip. */
+  get undoLabel() {
+    return this.undoStack.at(-1)?.label ?? null;
+  }
+
+  get redoLabel() {
+    return this.redoStack.at(-1)?.label ?? null;
+  }
+
+  execute(tracks: Tracks, command: EditCommand) {
+    const result = command.apply(tracks);
+    this.undoStack.push(command);
+    this.redoStack = [];
+    this.trim();
+    return result;
+  }
+
+  undo(tracks: Tracks) {
+    const command = this.undoStack.pop();
+    if (!command) return tracks;
+    this.redoStack.push(command);
+    return command.revert(tracks);
+  }
+
+  redo(tracks: Tracks) {
+    const command = this.redoStack.pop();
+    if (!command) return tracks;
+    this.undoStack.push(command);
+    const result = command.apply(tracks);
+    this.trim();
+    return result;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /** Forgets the oldest edits until the history fits, always keeping the latest. */
+  private trim() {
+    let total = this.undoStack.reduce((sum, command) => sum + command.size, 0);
+    while (total > this.maxBytes && this.undoStack.length > 1) {
+      total -= this.undoStack.shift()!.size;
+    }
+  }
+}
@@ -0,0 +1,463 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BITCRUSHER_PROCESSOR_NAME, bitcrusherProcessor } from './BitcrusherProcessor';
+import { loadWorkletProcessor } from './worklet';
+
+/** Time constant for smoothing parameter changes, in seconds. */
+const PARAM_SMOOTHING = 0.02;
+const DEFAULT_TEMPO = 120;
+
+export interface EffectParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  format?: (value: number) => string;
+}
+
+/** The state of one effect, as saved with presets. */
+export interface EffectSettings {
+  bypassed: boolean;
+  wet: number;
+  params: Record<string, number>;
+}
+
+/** Settings keyed by effect id. Effects that are missing keep their current state. */
+export type EffectsChainSettings = Record<string, EffectSettings>;
+
+/**
+ * Base class for an insert effect. Audio goes from `input` to `output` through
+ * a dry path and through the wet path between `wetInput` and `wetOutput`,
+ * which subclasses fill in. Bypassing silences the wet path rather than
+ * disconnecting it, so tails of delays and reverbs are cut cleanly.
+ */
+export abstract class Effect {
+  abstract readonly id: string;
+  abstract readonly label: string;
+  abstract readonly params: EffectParam[];
+  /** Wet level used until it is changed. */
+  readonly defaultWet: number = 1;
+
+  readonly input: GainNode;
+  readonly output: GainNode;
+  protected readonly context: BaseAudioContext;
+  protected readonly wetInput: GainNode;
+  protected readonly wetOutput: GainNode;
+  private readonly dryGain: GainNode;
+  private readonly wetGain: GainNode;
+
+  private _bypassed = true;
+  private _wet: number | null = null;
+  private values: Record<string, number> = {};
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dryGain = context.createGain();
+    this.wetGain = context.createGain();
+    this.wetInput = context.createGain();
+    this.wetOutput = context.createGain();
+
+    this.input.connect(this.dryGain).connect(this.output);
+    this.input.connect(this.wetInput);
+    this.wetOutput.connect(this.wetGain).connect(this.output);
+    this.wetGain.gain.value = 0;
+  }
+
+  get bypassed() {
+    return this._bypassed;
+  }
+
+  get wet() {
+    return this._wet ?? this.defaultWet;
+  }
+
+  getParam(key: string) {
+    return this.values[key] ?? this.params.find((p) => p.key === key)!.default;
+  }
+
+  setBypassed(bypassed: boolean) {
+    this._bypassed = bypassed;
+    this.applyMix();
+  }
+
+  setWet(wet: number) {
+    this._wet = Math.max(0, Math.min(1, wet));
+    this.applyMix();
+  }
+
+  setParam(key: string, value: number) {
+    const param = this.params.find((p) => p.key === key);
+    if (!param) return;
+    this.values[key] = Math.max(param.min, Math.min(param.max, value));
+    this.applyParam(key, this.values[key]);
+  }
+
+  /** Called by the chain when the tempo changes, for tempo-synced effects. */
+  setTempo(_bpm: number) {}
+
+  getSettings(): EffectSettings {
+    return {
+      bypassed: this.bypassed,
+      wet: this.wet,
+      params: Object.fromEntries(this.params.map((p) => [p.key, this.getParam(p.key)])),
+    };
+  }
+
+  applySettings(settings: EffectSettings) {
+    for (const [key, value] of Object.entries(settings.params)) {
+      this.setParam(key, value);
+    }
+    this._wet = Math.max(0, Math.min(1, settings.wet));
+    this.setBypassed(settings.bypassed);
+  }
+
+  /** Applies every parameter's current value. Subclasses call this once their nodes exist. */
+  protected applyAllParams() {
+    for (const param of this.params) {
+      this.applyParam(param.key, this.getParam(param.key));
+    }
+  }
+
+  protected abstract applyParam(key: string, value: number): void;
+
+  protected setAudioParam(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.context.currentTime, PARAM_SMOOTHING);
+  }
+
+  private applyMix() {
+    const wet = this._bypassed ? 0 : this.wet;
+    this.setAudioParam(this.dryGain.gain, 1 - wet);
+    this.setAudioParam(this.wetGain.gain, wet);
+  }
+}
+
+const formatFixed = (digits: number) => (v: number) => v.toFixed(digits);
+
+/** Maps 0..1 onto [min, max] exponentially, for frequency sweeps. */
+function expScale(t: number, min: number, max: number) {
+  return min * (max / min) ** t;
+}
+
+/** Three-band isolator EQ. Each band can be killed (0) or boosted. */
+export class IsolatorEffect extends Effect {
+  readonly id = 'isolator';
+  readonly label = 'Isolator';
+  readonly params: EffectParam[] = [
+    { key: 'low', label: 'Low', min: 0, max: 1.5, step: 0.01, default: 1, format: formatFixed(2) },
+    { key: 'mid', label: 'Mid', min: 0, max: 1.5, step: 0.01, default: 1, format: formatFixed(2) },
+    { key: 'high', label: 'High', min: 0, max: 1.5, step: 0.01, default: 1, format: formatFixed(2) },
+  ];
+
+  private static readonly LOW_CROSSOVER = 300;
+  private static readonly HIGH_CROSSOVER = 4000;
+
+  private readonly bands: Record<string, GainNode> = {};
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    const { LOW_CROSSOVER, HIGH_CROSSOVER } = IsolatorEffect;
+    // Two cascaded Butterworth sections per crossover, so the bands sum flat.
+    const filters = (type: BiquadFilterType, frequency: number) => [0, 1].map(() => {
+      const filter = context.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = frequency;
+      filter.Q.value = Math.SQRT1_2;
+      return filter;
+    });
+    const bandFilters: Record<string, BiquadFilterNode[]> = {
+      low: filters('lowpass', LOW_CROSSOVER),
+      mid: [...filters('highpass', LOW_CROSSOVER), ...filters('lowpass', HIGH_CROSSOVER)],
+      high: filters('highpass', HIGH_CROSSOVER),
+    };
+    for (const [band, chain] of Object.entries(bandFilters)) {
+      const gain = context.createGain();
+      let node: AudioNode = this.wetInput;
+      for (const filter of chain) node = node.connect(filter);
+      node.connect(gain).connect(this.wetOutput);
+      this.bands[band] = gain;
+    }
+    this.applyAllParams();
+  }
+
+  protected applyParam(key: string, value: number) {
+    this.setAudioParam(this.bands[key].gain, value);
+  }
+}
+
+/**
+ * DJ-style bipolar filter. Turning the cutoff below the centre sweeps a
+ * low-pass down, above the centre sweeps a high-pass up.
+ */
+export class DjFilterEffect extends Effect {
+  readonly id = 'filter';
+  readonly label = 'Filter';
+  readonly params: EffectParam[] = [
+    {
+      key: 'cutoff', label: 'Cutoff', min: -1, max: 1, step: 0.01, default: 0,
+      format: (v) => v === 0 ? 'Open' : `${v < 0 ? 'LP' : 'HP'} ${Math.abs(v).toFixed(2)}`,
+    },
+    { key: 'resonance', label: 'Reso', min: 0.5, max: 15, step: 0.1, default: 1, format: formatFixed(1) },
+  ];
+
+  private readonly lowpass: BiquadFilterNode;
+  private readonly highpass: BiquadFilterNode;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.lowpass = context.createBiquadFilter();
+    this.lowpass.type = 'lowpass';
+    this.highpass = context.createBiquadFilter();
+    this.highpass.type = 'highpass';
+    this.wetInput.connect(this.lowpass).connect(this.highpass).connect(this.wetOutput);
+    this.applyAllParams();
+  }
+
+  protected applyParam(key: string, value: number) {
+    if (key === 'cutoff') {
+      const nyquist = this.context.sampleRate / 2;
+      const lowpassFrequency = value < 0 ? expScale(-value, nyquist, 40) : nyquist;
+      const highpassFrequency = value > 0 ? expScale(value, 10, 10000) : 10;
+      this.setAudioParam(this.lowpass.frequency, lowpassFrequency);
+      this.setAudioParam(this.highpass.frequency, highpassFrequency);
+      this.applyResonance();
+    } else if (key === 'resonance') {
+      this.applyResonance();
+    }
+  }
+
+  /**
+   * Resonance only on the filter that's engaged. The other is parked at an end
+   * of the range, where a resonant peak would add energy nobody asked for,
+   * e.g. sub-sonic rumble from the highpass at 10 Hz.
+   */
+  private applyResonance() {
+    const cutoff = this.getParam('cutoff');
+    const resonance = this.getParam('resonance');
+    this.setAudioParam(this.lowpass.Q, cutoff < 0 ? resonance : Math.SQRT1_2);
+    this.setAudioParam(this.highpass.Q, cutoff > 0 ? resonance : Math.SQRT1_2);
+  }
+}
+
+/** Reduces bit depth and sample rate. */
+export class BitcrusherEffect extends Effect {
+  readonly id = 'bitcrusher';
+  readonly label = 'Crusher';
+  readonly params: EffectParam[] = [
+    { key: 'bits', label: 'Bits', min: 1, max: 16, step: 1, default: 8 },
+    { key: 'downsample', label: 'Rate', min: 1, max: 32, step: 1, default: 4, format: (v) => `1/${v}` },
+  ];
+
+  private node: AudioWorkletNode | null = null;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    // The wet path stays silent until the processor has loaded.
+    loadWorkletProcessor(context, BITCRUSHER_PROCESSOR_NAME, bitcrusherProcessor).then(() => {
+      this.node = new AudioWorkletNode(context, BITCRUSHER_PROCESSOR_NAME, { outputChannelCount: [2] });
+      this.wetInput.connect(this.node).connect(this.wetOutput);
+      this.applyAllParams();
+    }).catch((e) => {
+      console.error('Unable to load the bitcrusher:', e);
+    });
+  }
+
+  protected applyParam(key: string, value: number) {
+    const param = this.node?.parameters.get(key);
+    if (param) param.setValueAtTime(value, this.context.currentTime);
+  }
+}
+
+/** Note divisions the delay time snaps to, in beats. */
+const DELAY_DIVISIONS: { label: string, beats: number }[] = [
+  { label: '1/16', beats: 0.25 },
+  { label: '1/8', beats: 0.5 },
+  { label: '3/16', beats: 0.75 },
+  { label: '1/4', beats: 1 },
+  { label: '3/8', beats: 1.5 },
+  { label: '1/2', beats: 2 },
+  { label: '1/1', beats: 4 },
+];
+
+/** A feedback delay whose time follows the tempo. */
+export class TempoDelayEffect extends Effect {
+  readonly id = 'delay';
+  readonly label = 'Delay';
+  override readonly defaultWet = 0.35;
+  readonly params: EffectParam[] = [
+    {
+      key: 'division', label: 'Time', min: 0, max: DELAY_DIVISIONS.length - 1, step: 1, default: 2,
+      format: (i) => DELAY_DIVISIONS[i].label,
+    },
+    { key: 'feedback', label: 'Feedback', min: 0, max: 0.95, step: 0.01, default: 0.4, format: formatFixed(2) },
+  ];
+
+  private static readonly MAX_DELAY_TIME = 4;
+
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private tempo = DEFAULT_TEMPO;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.delay = context.createDelay(TempoDelayEffect.MAX_DELAY_TIME);
+    this.feedback = context.createGain();
+    // Darken the repeats a little so long feedback doesn't get harsh.
+    const tone = context.createBiquadFilter();
+    tone.type = 'lowpass';
+    tone.frequency.value = 6000;
+    this.wetInput.connect(this.delay).connect(this.wetOutput);
+    this.delay.connect(tone).connect(this.feedback).connect(this.delay);
+    this.applyAllParams();
+  }
+
+  override setTempo(bpm: number) {
+    this.tempo = bpm;
+    this.applyParam('division', this.getParam('division'));
+  }
+
+  protected applyParam(key: string, value: number) {
+    if (key === 'division') {
+      const time = (60 / this.tempo) * DELAY_DIVISIONS[value].beats;
+      this.setAudioParam(this.delay.delayTime, Math.min(time, TempoDelayEffect.MAX_DELAY_TIME));
+    } else if (key === 'feedback') {
+      this.setAudioParam(this.feedback.gain, value);
+    }
+  }
+}
+
+/** Convolution reverb with a generated, exponentially decaying impulse response. */
+export class ReverbEffect extends Effect {
+  readonly id = 'reverb';
+  readonly label = 'Reverb';
+  override readonly defaultWet = 0.3;
+  readonly params: EffectParam[] = [
+    { key: 'decay', label: 'Decay', min: 0.2, max: 8, step: 0.1, default: 2, format: (v) => `${v.toFixed(1)}s` },
+    {
+      key: 'damping', label: 'Damp', min: 0, max: 1, step: 0.01, default: 0.3, format: formatFixed(2),
+    },
+  ];
+
+  /** Delay before regenerating the impulse response, so knob sweeps don't regenerate it per step. */
+  private static readonly REBUILD_DELAY_MS = 150;
+
+  private readonly convolver: ConvolverNode;
+  private readonly damping: BiquadFilterNode;
+  private rebuildTimerId: number | null = null;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.convolver = context.createConvolver();
+    this.damping = context.createBiquadFilter();
+    this.damping.type = 'lowpass';
+    this.wetInput.connect(this.convolver).connect(this.damping).connect(this.wetOutput);
+    this.convolver.buffer = this.createImpulseResponse(this.getParam('decay'));
+    this.applyParam('damping', this.getParam('damping'));
+  }
+
+  private createImpulseResponse(decay: number) {
+    const length = Math.round(decay * this.context.sampleRate);
+    const impulse = this.context.createBuffer(2, length, this.context.sampleRate);
+    for (let ch = 0; ch < impulse.numberOfChannels; ch++) {
+      const data = impulse.getChannelData(ch);
+      for (let i = 0; i < length; i++) {
+        // -60dB at the end of the decay.
+        data[i] = (Math.random() * 2 - 1) * 10 ** (-3 * i / length);
+      }
+    }
+    return impulse;
+  }
+
+  protected applyParam(key: string, value: number) {
+    if (key === 'decay') {
+      if (this.rebuildTimerId) clearTimeout(this.rebuildTimerId);
+      this.rebuildTimerId = window.setTimeout(() => {
+        this.rebuildTimerId = null;
+        this.convolver.buffer = this.createImpulseResponse(this.getParam('decay'));
+      }, ReverbEffect.REBUILD_DELAY_MS);
+    } else if (key === 'damping') {
+      this.setAudioParam(this.damping.frequency, expScale(1 - value, 1000, 20000));
+    }
+  }
+}
+
+/** The default master chain, in signal order. */
+export function createDefaultEffects(context: BaseAudioContext): Effect[] {
+  return [
+    new IsolatorEffect(context),
+    new DjFilterEffect(context),
+    new BitcrusherEffect(context),
+    new TempoDelayEffect(context),
+    new ReverbEffect(context),
+  ];
+}
+
+/**
+ * A series chain of insert effects between `input` and `output`. Any Effect
+ * subclass can be plugged in; all effects start bypassed.
+ *
+ * Dispatches `effects-changed` whenever an effect's state changes.
+ */
+export class EffectsChain extends EventTarget {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  readonly effects: Effect[];
+
+  constructor(context: BaseAudioContext, effects: Effect[] = createDefaultEffects(context)) {
+    super();
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.effects = effects;
+
+    let node: AudioNode = this.input;
+    for (const effect of effects) {
+      node.connect(effect.input);
+      node = effect.output;
+    }
+    node.connect(this.output);
+  }
+
+  getEffect(id: string) {
+    return this.effects.find((effect) => effect.id === id);
+  }
+
+  setBypassed(id: string, bypassed: boolean) {
+    this.getEffect(id)?.setBypassed(bypassed);
+    this.dispatchChange();
+  }
+
+  setWet(id: string, wet: number) {
+    this.getEffect(id)?.setWet(wet);
+    this.dispatchChange();
+  }
+
+  setParam(id: string, key: string, value: number) {
+    this.getEffect(id)?.setParam(key, value);
+    this.dispatchChange();
+  }
+
+  setTempo(bpm: number) {
+    for (const effect of this.effects) effect.setTempo(bpm);
+  }
+
+  getSettings(): EffectsChainSettings {
+    return Object.fromEntries(this.effects.map((effect) => [effect.id, effect.getSettings()]));
+  }
+
+  applySettings(settings: EffectsChainSettings) {
+    for (const effect of this.effects) {
+      const effectSettings = settings[effect.id];
+      if (effectSettings) effect.applySettings(effectSettings);
+    }
+    this.dispatchChange();
+  }
+
+  private dispatchChange() {
+    this.dispatchEvent(new CustomEvent('effects-changed'));
+  }
+}
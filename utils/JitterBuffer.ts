@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Bounds for the amount of audio to queue before starting playback, in seconds. */
+const MIN_BUFFER_TIME = 0.5;
+const MAX_BUFFER_TIME = 4;
+const INITIAL_BUFFER_TIME = 2;
+
+/** How many jitter deviations of headroom to keep queued. */
+const JITTER_HEADROOM = 4;
+/** Smoothing factor for the running jitter estimate. */
+const JITTER_SMOOTHING = 0.125;
+/** Extra headroom added on every underrun, decaying as chunks arrive on time. */
+const UNDERRUN_PENALTY = 0.5;
+const UNDERRUN_PENALTY_DECAY = 0.02;
+
+export interface BufferStats {
+  /** Seconds of audio currently queued ahead of the playhead. */
+  bufferedTime: number;
+  /** Seconds of audio the buffer aims to queue when starting playback. */
+  targetBufferTime: number;
+  /** Smoothed deviation of chunk arrival times from their expected time, in seconds. */
+  jitter: number;
+  chunksReceived: number;
+  /** Chunks that arrived too close to the end of the queued audio to be joined seamlessly. */
+  lateChunks: number;
+  /** Times the queued audio ran out before the next chunk arrived. */
+  underruns: number;
+}
+
+/**
+ * Tracks the arrival timing of streamed audio chunks and derives how much
+ * audio should be queued to ride out network jitter. The target grows with
+ * observed jitter and after underruns, and shrinks back as chunks keep
+ * arriving on time. It is applied whenever playback starts from an empty
+ * queue; gaps while playing are covered by StreamPlayer instead.
+ */
+export class JitterBuffer {
+  private lastArrival: number | null = null;
+  private lastChunkDuration = 0;
+  private jitter = 0;
+  private underrunPenalty = 0;
+
+  private chunksReceived = 0;
+  private lateChunks = 0;
+  private underruns = 0;
+
+  /** Records a chunk's arrival. `now` and `duration` are in seconds. */
+  recordArrival(now: number, duration: number) {
+    if (this.lastArrival !== null) {
+      const interval = now - this.lastArrival;
+      const deviation = Math.abs(interval - this.lastChunkDuration);
+      this.jitter += (deviation - this.jitter) * JITTER_SMOOTHING;
+    }
+    this.lastArrival = now;
+    this.lastChunkDuration = duration;
+    this.chunksReceived++;
+    this.underrunPenalty = Math.max(0, this.underrunPenalty - UNDERRUN_PENALTY_DECAY);
+  }
+
+  recordLateChunk() {
+    this.lateChunks++;
+  }
+
+  recordUnderrun() {
+    this.underruns++;
+    this.underrunPenalty += UNDERRUN_PENALTY;
+  }
+
+  get targetBufferTime() {
+    if (this.chunksReceived < 2) return INITIAL_BUFFER_TIME;
+    const target = MIN_BUFFER_TIME + this.jitter * JITTER_HEADROOM + this.underrunPenalty;
+    return Math.min(MAX_BUFFER_TIME, Math.max(MIN_BUFFER_TIME, target));
+  }
+
+  /** Forgets arrival timing, e.g. after a pause, but keeps the counters. */
+  resetTiming() {
+    this.lastArrival = null;
+  }
+
+  getStats(bufferedTime: number): BufferStats {
+    return {
+      bufferedTime,
+      targetBufferTime: this.targetBufferTime,
+      jitter: this.jitter,
+      chunksReceived: this.chunksReceived,
+      lateChunks: this.lateChunks,
+      underruns: this.underruns,
+    };
+  }
+}
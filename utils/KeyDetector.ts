@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioAnalyser } from './AudioAnalyser';
+
+export type KeyMode = 'major' | 'minor';
+
+export interface DetectedKey {
+  /** Pitch class of the tonic, 0 (C) to 11 (B). */
+  tonic: number;
+  mode: KeyMode;
+  /** e.g. "A minor". */
+  label: string;
+  /** Correlation of the stream's chroma with the key's profile, 0 to 1. */
+  confidence: number;
+}
+
+const PITCH_CLASSES = ['C', 'C♯', 'D', 'E♭', 'E', 'F', 'F♯', 'G', 'A♭', 'A', 'B♭', 'B'];
+
+/** Krumhansl-Kessler key profiles, starting at the tonic. */
+const PROFILES: Record<KeyMode, number[]> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+};
+
+/** A long FFT, so neighbouring semitones in the bass land in different bins. */
+const FFT_SIZE = 16384;
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 2000;
+/** Seconds between estimates. */
+const UPDATE_INTERVAL = 0.25;
+/** Time constant of the chroma average, in seconds. Long, as keys change slowly. */
+const CHROMA_TIME_CONSTANT = 8;
+/** Frames quieter than this, in dBFS, are ignored. */
+const SILENCE_THRESHOLD = -80;
+
+function pearson(a: number[], b: number[]) {
+  const mean = (v: number[]) => v.reduce((x, y) => x + y, 0) / v.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  let covariance = 0;
+  let va = 0;
+  let vb = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - ma) * (b[i] - mb);
+    va += (a[i] - ma) ** 2;
+    vb += (b[i] - mb) ** 2;
+  }
+  return va > 0 && vb > 0 ? covariance / Math.sqrt(va * vb) : 0;
+}
+
+/** ASCII form of a key for filenames, e.g. "Bb-minor". */
+export function keyToFilenamePart(key: DetectedKey) {
+  return key.label.replace('♯', '#').replace('♭', 'b').replace(' ', '-');
+}
+
+/**
+ * Estimates the musical key of the audio reaching an AudioAnalyser's tap by
+ * matching a running chroma (energy per pitch class) against major and minor
+ * key profiles. Runs while the analyser is started.
+ *
+ * Dispatches `key-changed` with a DetectedKey four times a second.
+ */
+export class KeyDetector extends EventTarget {
+  public key: DetectedKey | null = null;
+
+  private readonly node: AnalyserNode;
+  private readonly freqData: Float32Array;
+  /** Pitch class of each FFT bin in range, or -1. */
+  private readonly binPitchClasses: Int8Array;
+  private readonly chroma = new Array<number>(12).fill(0);
+  private lastUpdate = 0;
+
+  constructor(analyser: AudioAnalyser) {
+    super();
+    const context = analyser.node.context;
+    this.node = context.createAnalyser();
+    this.node.fftSize = FFT_SIZE;
+    this.node.smoothingTimeConstant = 0;
+    analyser.node.connect(this.node);
+    this.freqData = new Float32Array(this.node.frequencyBinCount);
+
+    const binWidth = context.sampleRate / FFT_SIZE;
+    this.binPitchClasses = new Int8Array(this.node.frequencyBinCount).map((_, bin) => {
+      const frequency = bin * binWidth;
+      if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) return -1;
+      const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+      return ((midi % 12) + 12) % 12;
+    });
+
+    analyser.addEventListener('analysis-updated', () => this.update());
+  }
+
+  private update() {
+    const now = this.node.context.currentTime;
+    if (now - this.lastUpdate < UPDATE_INTERVAL) return;
+    const elapsed = now - this.lastUpdate;
+    this.lastUpdate = now;
+
+    this.node.getFloatFrequencyData(this.freqData);
+    const frame = new Array<number>(12).fill(0);
+    let peak = -Infinity;
+    for (let bin = 0; bin < this.freqData.length; bin++) {
+      const pitchClass = this.binPitchClasses[bin];
+      if (pitchClass < 0) continue;
+      peak = Math.max(peak, this.freqData[bin]);
+      frame[pitchClass] += 10 ** (this.freqData[bin] / 20);
+    }
+    if (peak < SILENCE_THRESHOLD) return;
+
+    const total = frame.reduce((a, b) => a + b, 0);
+    const decay = Math.exp(-Math.min(elapsed, CHROMA_TIME_CONSTANT) / CHROMA_TIME_CONSTANT);
+    for (let i = 0; i < 12; i++) {
+      this.chroma[i] = this.chroma[i] * decay + frame[i] / total;
+    }
+
+    let best: DetectedKey | null = null;
+    for (const mode of ['major', 'minor'] as KeyMode[]) {
+      for (let tonic = 0; tonic < 12; tonic++) {
+        const rotated = this.chroma.map((_, i) => this.chroma[(i + tonic) % 12]);
+        const correlation = pearson(rotated, PROFILES[mode]);
+        if (!best || correlation > best.confidence) {
+          best = { tonic, mode, label: `${PITCH_CLASSES[tonic]} ${mode}`, confidence: Math.max(0, correlation) };
+        }
+      }
+    }
+    this.key = best;
+    this.dispatchEvent(new CustomEvent<DetectedKey>('key-changed', { detail: best! }));
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DEFAULT_VOICES, VOICE_PARAM_RANGES } from './DrumMachine';
+import type { DrumKit, KitVoice, Voice, VoiceParams } from './DrumMachine';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+
+const DB_NAME = 'PromptDjKits';
+const KITS_STORE = 'kits';
+
+/** Identifies a kit bundle, a JSON file with the kit's samples inlined as data URLs. */
+const BUNDLE_FORMAT = 'prompt-dj-kit';
+const BUNDLE_VERSION = 1;
+
+interface BundleVoice {
+  synth: Voice;
+  gain: number;
+  tune: number;
+  sample: { name: string; data: string } | null;
+}
+
+interface KitBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  name: string;
+  voices: BundleVoice[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase() {
+  dbPromise ??= openDatabase(DB_NAME, 1, { [KITS_STORE]: { keyPath: 'name' } });
+  return dbPromise;
+}
+
+/** Saves the kit, replacing any saved under the same name. */
+export async function saveKit(kit: DrumKit) {
+  const db = await getDatabase();
+  const transaction = db.transaction(KITS_STORE, 'readwrite');
+  transaction.objectStore(KITS_STORE).put(kit);
+  await transactionDone(transaction);
+}
+
+/** All saved kits, by name. */
+export async function listKits(): Promise<DrumKit[]> {
+  const db = await getDatabase();
+  const kits: DrumKit[] = await promisifyRequest(db.transaction(KITS_STORE).objectStore(KITS_STORE).getAll());
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteKit(name: string) {
+  const db = await getDatabase();
+  const transaction = db.transaction(KITS_STORE, 'readwrite');
+  transaction.objectStore(KITS_STORE).delete(name);
+  await transactionDone(transaction);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** The kit and its samples as one file, to share it. */
+export async function exportKitBundle(kit: DrumKit): Promise<Blob> {
+  const voices = await Promise.all(kit.voices.map(async ({ synth, gain, tune, sample, sampleName }): Promise<BundleVoice> => ({
+    synth,
+    gain,
+    tune,
+    sample: sample ? { name: sampleName ?? 'sample', data: await blobToDataUrl(sample) } : null,
+  })));
+  const bundle: KitBundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, name: kit.name, voices };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+}
+
+/**
+ * A bundled voice's parameters kept to their ranges, so a bundle can't make a
+ * voice take minutes to render. Missing or broken ones are the default voice's.
+ */
+function readVoiceParams(params: Partial<VoiceParams> | undefined, defaults: VoiceParams): VoiceParams {
+  const read = (key: keyof VoiceParams) => {
+    const value = params?.[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return defaults[key];
+    const { min, max } = VOICE_PARAM_RANGES[key];
+    return Math.max(min, Math.min(max, value));
+  };
+  return { tone: read('tone'), decay: read('decay'), pitch: read('pitch') };
+}
+
+/** Reads a kit from a file written by exportKitBundle. Throws if it isn't one. */
+export async function importKitBundle(file: Blob): Promise<DrumKit> {
+  let bundle: KitBundle;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Not a drum kit bundle');
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.voices) || typeof bundle.name !== 'string') {
+    throw new Error('Not a drum kit bundle');
+  }
+  if (bundle.version > BUNDLE_VERSION) throw new Error('The kit was made by a newer version of the app');
+  if (bundle.voices.length !== DEFAULT_VOICES.length) throw new Error(`A kit needs ${DEFAULT_VOICES.length} voices`);
+  // Only inlined samples, so opening a bundle can't fetch from elsewhere.
+  if (bundle.voices.some(({ sample }) => sample && !sample.data?.startsWith('data:'))) {
+    throw new Error('Not a drum kit bundle');
+  }
+
+  const voices = await Promise.all(bundle.voices.map(async ({ synth, gain, tune, sample }, index): Promise<KitVoice> => ({
+    synth: DEFAULT_VOICES.some(({ type }) => type === synth?.type)
+      ? { type: synth.type, params: readVoiceParams(synth.params, DEFAULT_VOICES[index].params) }
+      : DEFAULT_VOICES[index],
+    gain: Number(gain) || 0,
+    tune: Number(tune) || 0,
+    // Data URLs decode with fetch, without leaving the page.
+    sample: sample ? await (await fetch(sample.data)).blob() : null,
+    sampleName: sample?.name ?? null,
+  })));
+  return { name: bundle.name, voices };
+}
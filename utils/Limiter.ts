@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LIMITER_PROCESSOR_NAME, limiterProcessor } from './LimiterProcessor';
+import type { LimiterEvent, LimiterProcessorOptions } from './LimiterProcessor';
+import { loadWorkletProcessor } from './worklet';
+
+const LOOKAHEAD_TIME = 0.005;
+
+/**
+ * A lookahead brickwall limiter between `input` and `output`. Audio passes
+ * straight through until the processor has loaded.
+ *
+ * Dispatches `gain-reduction-changed` with the reduction in dB periodically.
+ */
+export class Limiter extends EventTarget {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  /** The deepest gain reduction in the last report period, in dB. */
+  public gainReduction = 0;
+
+  private node: AudioWorkletNode | null = null;
+  private _ceiling = -1;
+
+  constructor(context: BaseAudioContext) {
+    super();
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.input.connect(this.output);
+
+    loadWorkletProcessor(context, LIMITER_PROCESSOR_NAME, limiterProcessor).then(() => {
+      const processorOptions: LimiterProcessorOptions = { lookahead: LOOKAHEAD_TIME };
+      this.node = new AudioWorkletNode(context, LIMITER_PROCESSOR_NAME, {
+        outputChannelCount: [2],
+        processorOptions,
+      });
+      this.node.port.onmessage = (e: MessageEvent<LimiterEvent>) => this.handleProcessorEvent(e.data);
+      this.ceiling = this._ceiling;
+      this.input.disconnect(this.output);
+      this.input.connect(this.node).connect(this.output);
+    }).catch((e) => {
+      console.error('Unable to load the limiter:', e);
+    });
+  }
+
+  /** The output ceiling in dBFS. */
+  get ceiling() {
+    return this._ceiling;
+  }
+
+  set ceiling(db: number) {
+    this._ceiling = db;
+    this.node?.parameters.get('ceiling')!.setValueAtTime(db, this.input.context.currentTime);
+  }
+
+  private handleProcessorEvent(event: LimiterEvent) {
+    this.gainReduction = event.reduction;
+    this.dispatchEvent(new CustomEvent<number>('gain-reduction-changed', { detail: event.reduction }));
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const LIMITER_PROCESSOR_NAME = 'limiter-processor';
+
+export interface LimiterProcessorOptions {
+  /** How far ahead peaks are detected, in seconds. Also the limiter's latency. */
+  lookahead: number;
+}
+
+/** Posted periodically with the deepest gain reduction since the last report. */
+export interface LimiterEvent {
+  type: 'gain-reduction';
+  /** Gain reduction in dB, as a positive number. */
+  reduction: number;
+}
+
+/**
+ * The AudioWorklet side of Limiter.
+ *
+ * The input is delayed by the lookahead, while a sliding-window minimum of the
+ * gain each incoming sample needs is tracked. The applied gain glides down to
+ * that minimum over the lookahead, so it's reached before the peak is output,
+ * and releases exponentially. A final clamp at the ceiling catches whatever
+ * the smoothing lets through, making it a brickwall.
+ */
+export function limiterProcessor() {
+  const REPORT_INTERVAL_FRAMES = Math.round(sampleRate / 20);
+
+  class LimiterProcessor extends AudioWorkletProcessor {
+    private lookaheadFrames: number;
+    private delay: Float32Array[];
+    private delayIndex: number;
+    /** Required gains over the lookahead window, as a monotonic deque for the sliding minimum. */
+    private windowGains: Float32Array;
+    private windowFrames: Int32Array;
+    private windowHead: number;
+    private windowLength: number;
+    private frame: number;
+    private gain: number;
+    private attack: number;
+    private minGain: number;
+    private framesSinceReport: number;
+
+    static get parameterDescriptors() {
+      return [
+        { name: 'ceiling', defaultValue: -1, minValue: -24, maxValue: 0, automationRate: 'k-rate' },
+        { name: 'release', defaultValue: 0.1, minValue: 0.01, maxValue: 2, automationRate: 'k-rate' },
+      ];
+    }
+
+    constructor(options: AudioWorkletNodeOptions) {
+      super();
+      const opts = options.processorOptions as LimiterProcessorOptions;
+      this.lookaheadFrames = Math.max(1, Math.round(opts.lookahead * sampleRate));
+      this.delay = [];
+      this.delayIndex = 0;
+      this.windowGains = new Float32Array(this.lookaheadFrames + 1);
+      this.windowFrames = new Int32Array(this.lookaheadFrames + 1);
+      this.windowHead = 0;
+      this.windowLength = 0;
+      this.frame = 0;
+      this.gain = 1;
+      // Reach ~99% of a reduction within the lookahead.
+      this.attack = 1 - Math.exp(-4.6 / this.lookaheadFrames);
+      this.minGain = 1;
+      this.framesSinceReport = 0;
+    }
+
+    /**
+     * Pushes the gain needed by the newest sample and drops expired or larger
+     * ones. Expired ones go first, so the window's lookahead + 1 frames fit.
+     */
+    private pushRequiredGain(gain: number) {
+      const capacity = this.windowGains.length;
+      while (this.windowLength > 0 && this.frame - this.windowFrames[this.windowHead] > this.lookaheadFrames) {
+        this.windowHead = (this.windowHead + 1) % capacity;
+        this.windowLength--;
+      }
+      while (this.windowLength > 0) {
+        const last = (this.windowHead + this.windowLength - 1) % capacity;
+        if (this.windowGains[last] < gain) break;
+        this.windowLength--;
+      }
+      const tail = (this.windowHead + this.windowLength) % capacity;
+      this.windowGains[tail] = gain;
+      this.windowFrames[tail] = this.frame;
+      this.windowLength++;
+      return this.windowGains[this.windowHead];
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+      const input = inputs[0];
+      const output = outputs[0];
+      const ceiling = 10 ** (parameters.ceiling[0] / 20);
+      const release = 1 - Math.exp(-1 / (parameters.release[0] * sampleRate));
+      while (this.delay.length < output.length) {
+        this.delay.push(new Float32Array(this.lookaheadFrames));
+      }
+
+      for (let i = 0; i < output[0].length; i++) {
+        let peak = 0;
+        for (let ch = 0; ch < input.length; ch++) {
+          peak = Math.max(peak, Math.abs(input[ch][i]));
+        }
+        const target = this.pushRequiredGain(peak > ceiling ? ceiling / peak : 1);
+        this.frame++;
+
+        const coefficient = target < this.gain ? this.attack : release;
+        this.gain += (target - this.gain) * coefficient;
+        this.minGain = Math.min(this.minGain, this.gain);
+
+        for (let ch = 0; ch < output.length; ch++) {
+          const delayed = this.delay[ch][this.delayIndex];
+          this.delay[ch][this.delayIndex] = input.length > 0 ? input[Math.min(ch, input.length - 1)][i] : 0;
+          const sample = delayed * this.gain;
+          output[ch][i] = Math.max(-ceiling, Math.min(ceiling, sample));
+        }
+        this.delayIndex = (this.delayIndex + 1) % this.lookaheadFrames;
+      }
+
+      this.framesSinceReport += output[0].length;
+      if (this.framesSinceReport >= REPORT_INTERVAL_FRAMES) {
+        this.framesSinceReport = 0;
+        this.port.postMessage({ type: 'gain-reduction', reduction: -20 * Math.log10(this.minGain) });
+        this.minGain = this.gain;
+      }
+      return true;
+    }
+  }
+
+  // Keep in sync with LIMITER_PROCESSOR_NAME.
+  registerProcessor('limiter-processor', LimiterProcessor);
+}
@@ -3,10 +3,88 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import type { PlaybackState, Prompt, RecordingState } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicGenerationConfig, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
+import { decode } from './audio';
 import { throttle } from './throttle';
 import { AudioRecorder } from './AudioRecorder';
+import type { RecorderFinishedEventDetail, RecordingFormat, Stem } from './AudioRecorder';
+import { JitterBuffer } from './JitterBuffer';
+import type { BufferStats } from './JitterBuffer';
+import { StreamPlayer } from './StreamPlayer';
+import { EffectsChain } from './EffectsChain';
+import { Limiter } from './Limiter';
+import { LoudnessMeter } from './LoudnessMeter';
+import type { DetectedKey, KeyDetector } from './KeyDetector';
+import type { Marker } from './markers';
+import type { Take } from './RecordingStore';
+
+/** Generation config fields that only take effect after the model's context is reset. */
+export const RESET_REQUIRED_CONFIG_KEYS: (keyof LiveMusicGenerationConfig)[] = ['bpm', 'scale'];
+
+export interface GenerationConfigChangedEventDetail {
+  config: LiveMusicGenerationConfig;
+  contextReset: boolean;
+}
+
+export interface ReconnectingEventDetail {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export interface ReconnectedEventDetail {
+  attempts: number;
+}
+
+/** What was known about the music when a recording finished. */
+export interface RecordingMetadata {
+  key: DetectedKey | null;
+  format: RecordingFormat;
+  /** Every prompt that was playing at some point during the recording. */
+  prompts: string[];
+  /** When the recording started, in ms since the epoch. */
+  startedAt: number;
+  /** In seconds. */
+  duration: number;
+  /** The session's tempo, if it was set. */
+  bpm?: number;
+  /** Dropped while recording. */
+  markers?: Marker[];
+  /** The take in the recordings library, for recordings kept there. */
+  takeId?: string;
+}
+
+export function takeMetadata(take: Take): RecordingMetadata {
+  const { key, format, prompts, startedAt, duration, bpm, markers, id } = take;
+  return { key, format, prompts, startedAt, duration, bpm, markers, takeId: id };
+}
+
+export interface RecordingFinishedEventDetail {
+  blob: Blob;
+  metadata: RecordingMetadata;
+  /** For multitrack recordings. */
+  stems?: Stem[];
+}
+
+/** Reconnect backoff: 0.5s, 1s, 2s, ... capped at 16s. */
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+/** A chunk arriving with less than this many seconds queued counts as late. */
+const LATE_CHUNK_TIME = 0.1;
+/** Length of the output fade on play and pause, in seconds. */
+const OUTPUT_FADE_TIME = 0.1;
+
+export interface LiveMusicHelperOptions {
+  /**
+   * Mix into another helper's effects chain, master bus and limiter (and
+   * AudioContext) instead of creating new ones, e.g. for a second deck.
+   */
+  mixWith?: LiveMusicHelper;
+}
 
 export class LiveMusicHelper extends EventTarget {
 
@@ -18,30 +96,104 @@ export class LiveMusicHelper extends EventTarget {
   private sessionPromise: Promise<LiveMusicSession> | null = null;
 
   private connectionError = true;
+  /** Incremented per connection so callbacks from a dropped socket are ignored. */
+  private connectionId = 0;
+
+  private reconnectAttempt = 0;
+  private reconnectTimerId: number | null = null;
 
   private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
-  private bufferTime = 2;
+  private jitterBuffer = new JitterBuffer();
+  private player: StreamPlayer | null = null;
+  private playerPromise: Promise<StreamPlayer> | null = null;
+  /** The flush waiting for a paused output to fade out, so playing again can do it first. */
+  private pendingFlush: { timerId: number; flush: () => void } | null = null;
 
   public readonly audioContext: AudioContext;
   public readonly masterBus: GainNode;
+  /** Master effects, between the decks and the master bus. */
+  public readonly effects: EffectsChain;
+  /** The last stage of the master bus, before the speakers and recordings. */
+  public readonly limiter: Limiter;
+  /** Meters the limiter's output. */
+  public readonly meter: LoudnessMeter;
+  /** This session's channel gain into the master effects, e.g. for crossfading. */
+  public readonly deckGain: GainNode;
+  /** Pre-fader send for cueing into headphones. Silent until its gain is raised. */
+  public readonly cueSend: GainNode;
+  /** The stream as it arrives, before the deck fader and effects. A tap, connected to nothing. */
+  public readonly streamOutput: GainNode;
   public extraDestination: AudioNode | null = null;
+  /** Source of the key stamped into recordings' metadata. */
+  public keyDetector: KeyDetector | null = null;
   public recordingState: RecordingState = 'idle';
 
   private outputNode: GainNode;
+  /** The helpers mixed into this one's master bus, itself included, shared between them. */
+  private readonly busDecks: LiveMusicHelper[];
+  /** Sources recorded as separate tracks in multitrack recordings, by name. */
+  private readonly stems = new Map<string, AudioNode>();
   public playbackState: PlaybackState = 'stopped';
 
   private prompts: Map<string, Prompt>;
+  private generationConfig: LiveMusicGenerationConfig = {};
 
-  constructor(ai: GoogleGenAI, model: string) {
+  constructor(ai: GoogleGenAI, model: string, options: LiveMusicHelperOptions = {}) {
     super();
     this.ai = ai;
     this.model = model;
     this.prompts = new Map();
-    this.audioContext = new AudioContext({ sampleRate: 48000 });
+    if (options.mixWith) {
+      this.audioContext = options.mixWith.audioContext;
+      this.masterBus = options.mixWith.masterBus;
+      this.effects = options.mixWith.effects;
+      this.limiter = options.mixWith.limiter;
+      this.meter = options.mixWith.meter;
+      this.busDecks = options.mixWith.busDecks;
+      this.busDecks.push(this);
+    } else {
+      this.busDecks = [this];
+      this.audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
+      this.masterBus = this.audioContext.createGain();
+      this.limiter = new Limiter(this.audioContext);
+      this.meter = new LoudnessMeter(this.audioContext);
+      this.masterBus.connect(this.limiter.input);
+      this.limiter.output.connect(this.audioContext.destination);
+      this.limiter.output.connect(this.meter.input);
+      this.effects = new EffectsChain(this.audioContext);
+      this.effects.output.connect(this.masterBus);
+    }
     this.outputNode = this.audioContext.createGain();
-    this.masterBus = this.audioContext.createGain();
-    this.masterBus.connect(this.audioContext.destination);
+    this.deckGain = this.audioContext.createGain();
+    this.deckGain.connect(this.effects.input);
+    this.cueSend = this.audioContext.createGain();
+    this.cueSend.gain.value = 0;
+    this.streamOutput = this.audioContext.createGain();
+    this.addStem('Lyria', this.streamOutput);
+  }
+
+  private getPlayer(): Promise<StreamPlayer> {
+    if (!this.playerPromise) this.playerPromise = this.createPlayer();
+    return this.playerPromise;
+  }
+
+  private async createPlayer(): Promise<StreamPlayer> {
+    const player = await StreamPlayer.create(this.audioContext, NUM_CHANNELS);
+    player.addEventListener('started', () => {
+      if (this.playbackState === 'loading') this.setPlaybackState('playing');
+    });
+    player.addEventListener('underrun', () => {
+      this.jitterBuffer.recordUnderrun();
+      player.setTargetBufferTime(this.jitterBuffer.targetBufferTime);
+      if (this.playbackState === 'playing') this.setPlaybackState('loading');
+    });
+    player.addEventListener('status', () => {
+      this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', {
+        detail: this.jitterBuffer.getStats(player.bufferedTime),
+      }));
+    });
+    this.player = player;
+    return player;
   }
 
   private getSession(): Promise<LiveMusicSession> {
@@ -50,10 +202,12 @@ export class LiveMusicHelper extends EventTarget {
   }
 
   private async connect(): Promise<LiveMusicSession> {
+    const connectionId = ++this.connectionId;
     this.sessionPromise = this.ai.live.music.connect({
       model: this.model,
       callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
+        onmessage: (e: LiveMusicServerMessage) => {
+          if (connectionId !== this.connectionId) return;
           if (e.setupComplete) {
             this.connectionError = false;
           }
@@ -62,24 +216,112 @@ export class LiveMusicHelper extends EventTarget {
             this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
           }
           if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
+            this.processAudioChunks(e.serverContent.audioChunks);
           }
         },
         onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
+          if (connectionId !== this.connectionId) return;
+          this.handleConnectionLost();
         },
         onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
+          if (connectionId !== this.connectionId) return;
+          this.handleConnectionLost();
         },
       },
     });
     return this.sessionPromise;
   }
 
+  public get isReconnecting() {
+    return this.reconnectAttempt > 0;
+  }
+
+  /**
+   * Drops the dead session and, if music is playing, starts reconnecting.
+   * Audio that is already queued keeps playing in the meantime, and the
+   * player's underrun switches to the loading state if it runs out.
+   */
+  private handleConnectionLost() {
+    this.connectionError = true;
+    this.connectionId++;
+    this.session = null;
+    this.sessionPromise = null;
+
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
+      // Nothing to resume, the next play() will open a new session.
+      return;
+    }
+    if (this.isReconnecting) return;
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.reconnectAttempt++;
+    if (this.reconnectAttempt > RECONNECT_MAX_ATTEMPTS) {
+      this.stop();
+      this.dispatchEvent(new CustomEvent('error', { detail: 'Connection lost, please restart audio.' }));
+      return;
+    }
+
+    const delayMs = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempt - 1),
+      RECONNECT_MAX_DELAY_MS,
+    );
+    this.dispatchEvent(new CustomEvent<ReconnectingEventDetail>('reconnecting', {
+      detail: { attempt: this.reconnectAttempt, maxAttempts: RECONNECT_MAX_ATTEMPTS, delayMs },
+    }));
+    this.reconnectTimerId = window.setTimeout(() => this.reconnect(), delayMs);
+  }
+
+  private async reconnect() {
+    this.reconnectTimerId = null;
+    try {
+      const sessionPromise = this.getSession();
+      const connectionId = this.connectionId;
+      const session = await sessionPromise;
+      // The user may have paused or stopped while we were connecting.
+      if (!this.isReconnecting) return;
+      this.session = session;
+      await this.resumeSession(session);
+      // It dropped again while resuming, which handleConnectionLost leaves to us.
+      if (connectionId !== this.connectionId) {
+        if (this.isReconnecting) this.scheduleReconnect();
+        return;
+      }
+    } catch (e) {
+      if (!this.isReconnecting) return;
+      this.connectionId++;
+      this.session = null;
+      this.sessionPromise = null;
+      this.scheduleReconnect();
+      return;
+    }
+
+    const attempts = this.reconnectAttempt;
+    this.cancelReconnect();
+    this.dispatchEvent(new CustomEvent<ReconnectedEventDetail>('reconnected', { detail: { attempts } }));
+  }
+
+  /** Restores the last prompts and generation config on a fresh session. */
+  private async resumeSession(session: LiveMusicSession) {
+    if (this.activePrompts.length > 0) {
+      await session.setWeightedPrompts({ weightedPrompts: this.activePrompts });
+    }
+    if (Object.keys(this.generationConfig).length > 0) {
+      await session.setMusicGenerationConfig({ musicGenerationConfig: this.generationConfig });
+    }
+    session.play();
+  }
+
+  private cancelReconnect() {
+    this.reconnectAttempt = 0;
+    if (this.reconnectTimerId) {
+      clearTimeout(this.reconnectTimerId);
+      this.reconnectTimerId = null;
+    }
+  }
+
   private setPlaybackState(state: PlaybackState) {
     this.playbackState = state;
     this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
@@ -90,30 +332,37 @@ export class LiveMusicHelper extends EventTarget {
     this.dispatchEvent(new CustomEvent('recording-state-changed', { detail: state }));
   }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
+  private processAudioChunks(audioChunks: AudioChunk[]) {
     if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
+    if (!this.player) return;
+    const pcm = decode(audioChunks[0].data!);
+    const duration = pcm.byteLength / 2 / NUM_CHANNELS / SAMPLE_RATE;
+    this.jitterBuffer.recordArrival(this.audioContext.currentTime, duration);
+    if (this.player.isPlaying && this.player.bufferedTime < LATE_CHUNK_TIME) {
+      this.jitterBuffer.recordLateChunk();
     }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
-    }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+    this.player.setTargetBufferTime(this.jitterBuffer.targetBufferTime);
+    this.player.push(pcm);
+  }
+
+  /** Drops the player's queued audio once `output` has faded out, then detaches it. */
+  private flushPlayer(output: GainNode) {
+    const player = this.player;
+    if (!player) return;
+    this.finishFlush();
+    const flush = () => {
+      this.pendingFlush = null;
+      player.node.disconnect(output);
+      player.reset();
+    };
+    this.pendingFlush = { timerId: window.setTimeout(flush, OUTPUT_FADE_TIME * 1000), flush };
+  }
+
+  /** Flushes now rather than after the fade, before the player gets audio it should keep. */
+  private finishFlush() {
+    if (!this.pendingFlush) return;
+    clearTimeout(this.pendingFlush.timerId);
+    this.pendingFlush.flush();
   }
 
   public get activePrompts() {
@@ -123,6 +372,38 @@ export class LiveMusicHelper extends EventTarget {
       })
   }
 
+  public get musicGenerationConfig(): LiveMusicGenerationConfig {
+    return { ...this.generationConfig };
+  }
+
+  /**
+   * Merges `config` into the current generation config and sends the full
+   * config to the session. Changes to any of RESET_REQUIRED_CONFIG_KEYS are
+   * followed by a `resetContext`, which causes an audible transition.
+   */
+  public async setMusicGenerationConfig(config: LiveMusicGenerationConfig) {
+    const contextReset = RESET_REQUIRED_CONFIG_KEYS.some(
+      (key) => key in config && config[key] !== this.generationConfig[key],
+    );
+    this.generationConfig = { ...this.generationConfig, ...config };
+    if (config.bpm !== undefined) this.effects.setTempo(config.bpm);
+
+    // store the config to send later if we haven't connected yet
+    if (this.session) {
+      try {
+        await this.session.setMusicGenerationConfig({ musicGenerationConfig: this.generationConfig });
+        if (contextReset) this.session.resetContext();
+      } catch (e: any) {
+        this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+        return;
+      }
+    }
+
+    this.dispatchEvent(new CustomEvent<GenerationConfigChangedEventDetail>('generation-config-changed', {
+      detail: { config: this.musicGenerationConfig, contextReset: contextReset && !!this.session },
+    }));
+  }
+
   public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>, transitionBars?: number) => {
     this.prompts = prompts;
 
@@ -159,34 +440,48 @@ export class LiveMusicHelper extends EventTarget {
   }, 200);
 
   public async play() {
+    this.finishFlush();
     this.setPlaybackState('loading');
+    const player = await this.getPlayer();
+    player.setTargetBufferTime(this.jitterBuffer.targetBufferTime);
+    player.node.connect(this.outputNode);
     this.session = await this.getSession();
     await this.setWeightedPrompts(this.prompts);
+    if (Object.keys(this.generationConfig).length > 0) {
+      await this.session.setMusicGenerationConfig({ musicGenerationConfig: this.generationConfig });
+    }
     this.audioContext.resume();
     this.session.play();
-    this.outputNode.connect(this.masterBus);
+    this.outputNode.connect(this.deckGain);
+    this.outputNode.connect(this.cueSend);
+    this.outputNode.connect(this.streamOutput);
     if (this.extraDestination) this.outputNode.connect(this.extraDestination);
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
+    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + OUTPUT_FADE_TIME);
   }
 
   public pause() {
+    this.cancelReconnect();
     if (this.session) this.session.pause();
-    this.stopRecording();
     this.setPlaybackState('paused');
+    this.stopBusRecording();
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + OUTPUT_FADE_TIME);
+    this.flushPlayer(this.outputNode);
+    this.jitterBuffer.resetTiming();
     this.outputNode = this.audioContext.createGain();
   }
 
   public stop() {
+    this.cancelReconnect();
     if (this.session) this.session.stop();
-    this.stopRecording();
     this.setPlaybackState('stopped');
+    this.stopBusRecording();
+    this.finishFlush();
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + OUTPUT_FADE_TIME);
+    this.player?.reset();
+    this.jitterBuffer.resetTiming();
     this.session = null;
     this.sessionPromise = null;
   }
@@ -203,19 +498,51 @@ export class LiveMusicHelper extends EventTarget {
     }
   }
 
-  public startRecording(duration?: number) {
-    if (this.playbackState !== 'playing' || this.recordingState === 'recording') {
+  /** Adds a source, e.g. the drum machine, to multitrack recordings from the next one on. */
+  public addStem(name: string, node: AudioNode) {
+    this.stems.set(name, node);
+  }
+
+  public removeStem(name: string) {
+    this.stems.delete(name);
+  }
+
+  /** Whether any deck on the master bus is playing, which recording the bus needs. */
+  public get isBusPlaying() {
+    return this.busDecks.some((deck) => deck.playbackState === 'playing');
+  }
+
+  /** Ends the bus's recording once no deck on it is playing or about to. */
+  private stopBusRecording() {
+    const silent = this.busDecks.every((deck) => deck.playbackState === 'paused' || deck.playbackState === 'stopped');
+    if (silent) this.busDecks.forEach((deck) => deck.stopRecording());
+  }
+
+  public startRecording(duration?: number, format?: RecordingFormat, multitrack = false) {
+    if (!this.isBusPlaying || this.recordingState === 'recording') {
         this.dispatchEvent(new CustomEvent('error', { detail: 'Must be playing to record.' }));
         return;
     }
-    this.recorder = new AudioRecorder(this.masterBus);
-    this.recorder.addEventListener('finished', (e: Event) => {
-        const customEvent = e as CustomEvent<Blob>;
-        this.dispatchEvent(new CustomEvent('recording-finished', { detail: customEvent.detail }));
+    const recorder = new AudioRecorder(this.limiter.output, format, () => ({
+        prompts: this.activePrompts.map((p) => p.text),
+        key: this.keyDetector?.key ?? null,
+        bpm: this.generationConfig.bpm,
+    }), multitrack ? new Map(this.stems) : undefined);
+    this.recorder = recorder;
+    recorder.addEventListener('finished', (e: Event) => {
+        const { blob, stems, take } = (e as CustomEvent<RecorderFinishedEventDetail>).detail;
+        this.dispatchEvent(new CustomEvent<RecordingFinishedEventDetail>('recording-finished', {
+          detail: { blob, stems, metadata: takeMetadata(take) },
+        }));
         this.setRecordingState('idle');
         this.recorder = null;
     });
-    this.recorder.start(duration);
+    recorder.addEventListener('error', (e: Event) => {
+        this.dispatchEvent(new CustomEvent('error', { detail: (e as CustomEvent<string>).detail }));
+        this.setRecordingState('idle');
+        this.recorder = null;
+    });
+    recorder.start(duration);
     this.setRecordingState('recording');
   }
 
@@ -225,4 +552,10 @@ export class LiveMusicHelper extends EventTarget {
       }
   }
 
+  /** Drops a marker in the recording, labelled with the prompts playing. Null when not recording. */
+  public addMarker(): Marker | null {
+    const label = this.activePrompts.map((p) => p.text).join(', ');
+    return this.recorder?.addMarker(label || 'Marker') ?? null;
+  }
+
 }
\ No newline at end of file
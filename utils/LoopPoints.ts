@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ONSET_HOP_SIZE } from './OnsetProcessor';
+
+export type LoopSnap = 'off' | 'zero-crossing' | 'beat';
+
+export const LOOP_SNAPS: { id: LoopSnap; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'zero-crossing', label: 'Zero crossings' },
+  { id: 'beat', label: 'Beats' },
+];
+
+/** How far either way a loop point may move to reach a zero crossing, in seconds. */
+const ZERO_CROSSING_WINDOW = 0.01;
+/** Onsets stronger than the mean by this many standard deviations count as beats. */
+const ONSET_THRESHOLD = 1.5;
+/** Closest two beats can be, in seconds. */
+const MIN_ONSET_SPACING = 0.1;
+const EPSILON = 1e-6;
+
+/** The channels summed, which is what the seam of a loop is heard as. */
+function sumChannels(buffer: AudioBuffer, start: number, end: number) {
+  const sum = new Float32Array(end - start);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const channel = buffer.getChannelData(ch);
+    for (let i = start; i < end; i++) sum[i - start] += channel[i];
+  }
+  return sum;
+}
+
+/**
+ * The rising zero crossing closest to `frame`. Using rising crossings at both
+ * ends of a loop joins its end to its start without a step in the waveform.
+ * `frame` itself if there's none nearby.
+ */
+export function nearestZeroCrossing(buffer: AudioBuffer, frame: number) {
+  const window = Math.round(ZERO_CROSSING_WINDOW * buffer.sampleRate);
+  const start = Math.max(1, frame - window);
+  const end = Math.min(buffer.length, frame + window + 1);
+  if (end <= start) return frame;
+  const samples = sumChannels(buffer, start - 1, end);
+  let best = frame;
+  let bestDistance = Infinity;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) {
+      const crossing = start - 1 + i;
+      const distance = Math.abs(crossing - frame);
+      if (distance < bestDistance) {
+        best = crossing;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Frames where a beat or other hit starts: peaks in the rise of log energy from
+ * one hop to the next, as the tempo tracker measures it live, that stand out
+ * from the rest of the take.
+ */
+export function detectOnsets(buffer: AudioBuffer): number[] {
+  const hops = Math.floor(buffer.length / ONSET_HOP_SIZE);
+  if (hops < 2) return [];
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  const strength = new Float32Array(hops);
+  let previous = Math.log(EPSILON);
+  for (let hop = 0; hop < hops; hop++) {
+    let energy = 0;
+    for (const channel of channels) {
+      for (let i = hop * ONSET_HOP_SIZE; i < (hop + 1) * ONSET_HOP_SIZE; i++) energy += channel[i] * channel[i];
+    }
+    const level = Math.log(energy / ONSET_HOP_SIZE + EPSILON);
+    strength[hop] = Math.max(0, level - previous);
+    previous = level;
+  }
+
+  let mean = 0;
+  for (const value of strength) mean += value;
+  mean /= hops;
+  let variance = 0;
+  for (const value of strength) variance += (value - mean) ** 2;
+  const threshold = mean + ONSET_THRESHOLD * Math.sqrt(variance / hops);
+
+  // Only the strongest hop within the minimum spacing counts.
+  const spacing = Math.max(1, Math.round((MIN_ONSET_SPACING * buffer.sampleRate) / ONSET_HOP_SIZE));
+  const onsets: number[] = [];
+  for (let hop = 1; hop < hops; hop++) {
+    if (strength[hop] <= threshold) continue;
+    let isPeak = true;
+    for (let other = Math.max(0, hop - spacing); other <= Math.min(hops - 1, hop + spacing); other++) {
+      if (strength[other] > strength[hop] || (strength[other] === strength[hop] && other < hop)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (isPeak) onsets.push(hop * ONSET_HOP_SIZE);
+  }
+  return onsets;
+}
+
+function nearest(frames: number[], frame: number) {
+  let best: number | null = null;
+  for (const candidate of frames) {
+    if (best === null || Math.abs(candidate - frame) < Math.abs(best - frame)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Moves the frames `start` and `end` of a loop so it repeats cleanly: onto
+ * zero crossings, or onto the nearest beats and then onto zero crossings.
+ * Ends where they were if snapping would leave nothing between them.
+ */
+export function snapLoopPoints(buffer: AudioBuffer, start: number, end: number, snap: LoopSnap): [number, number] {
+  let snappedStart = start;
+  let snappedEnd = end;
+  if (snap === 'beat') {
+    const onsets = detectOnsets(buffer);
+    snappedStart = nearest(onsets, start) ?? start;
+    snappedEnd = nearest(onsets, end) ?? end;
+    // Both ends on the same beat would leave nothing to loop.
+    if (snappedEnd <= snappedStart) snappedEnd = end;
+  }
+  if (snap !== 'off') {
+    snappedStart = nearestZeroCrossing(buffer, snappedStart);
+    snappedEnd = nearestZeroCrossing(buffer, snappedEnd);
+  }
+  return snappedEnd > snappedStart ? [snappedStart, snappedEnd] : [start, end];
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LOUDNESS_METER_PROCESSOR_NAME, loudnessMeterProcessor } from './LoudnessMeterProcessor';
+import type { LoudnessMeterEvent, LoudnessMeterMessage, LoudnessStats } from './LoudnessMeterProcessor';
+import { loadWorkletProcessor } from './worklet';
+
+export type { LoudnessStats } from './LoudnessMeterProcessor';
+
+const SILENCE: LoudnessStats = {
+  momentary: -Infinity,
+  shortTerm: -Infinity,
+  integrated: -Infinity,
+  truePeak: -Infinity,
+  maxTruePeak: -Infinity,
+};
+
+/**
+ * Measures true peak and momentary, short-term and integrated loudness (LUFS)
+ * of whatever is connected to `input`.
+ *
+ * Dispatches `loudness-changed` with LoudnessStats every 100ms.
+ */
+export class LoudnessMeter extends EventTarget {
+  readonly input: GainNode;
+  public stats: LoudnessStats = SILENCE;
+
+  private node: AudioWorkletNode | null = null;
+
+  constructor(context: BaseAudioContext) {
+    super();
+    this.input = context.createGain();
+
+    loadWorkletProcessor(context, LOUDNESS_METER_PROCESSOR_NAME, loudnessMeterProcessor).then(() => {
+      // Without outputs the node is processed without being connected to the destination.
+      this.node = new AudioWorkletNode(context, LOUDNESS_METER_PROCESSOR_NAME, { numberOfOutputs: 0 });
+      this.node.port.onmessage = (e: MessageEvent<LoudnessMeterEvent>) => this.handleProcessorEvent(e.data);
+      this.input.connect(this.node);
+    }).catch((e) => {
+      console.error('Unable to load the loudness meter:', e);
+    });
+  }
+
+  /** Restarts integrated loudness and the maximum true peak. */
+  reset() {
+    this.stats = { ...this.stats, integrated: -Infinity, maxTruePeak: -Infinity };
+    const message: LoudnessMeterMessage = { type: 'reset' };
+    this.node?.port.postMessage(message);
+  }
+
+  private handleProcessorEvent(event: LoudnessMeterEvent) {
+    this.stats = event.stats;
+    this.dispatchEvent(new CustomEvent<LoudnessStats>('loudness-changed', { detail: event.stats }));
+  }
+}
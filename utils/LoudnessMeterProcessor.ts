@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const LOUDNESS_METER_PROCESSOR_NAME = 'loudness-meter-processor';
+
+export interface LoudnessStats {
+  /** LUFS over the last 400ms. */
+  momentary: number;
+  /** LUFS over the last 3s. */
+  shortTerm: number;
+  /** Gated LUFS since the last reset. */
+  integrated: number;
+  /** Highest inter-sample peak since the last report, in dBTP. */
+  truePeak: number;
+  /** Highest inter-sample peak since the last reset, in dBTP. */
+  maxTruePeak: number;
+}
+
+export type LoudnessMeterMessage = { type: 'reset' };
+
+export type LoudnessMeterEvent = { type: 'stats', stats: LoudnessStats };
+
+/**
+ * The AudioWorklet side of LoudnessMeter.
+ *
+ * Loudness follows ITU-R BS.1770 / EBU R128: K-weighted mean square over
+ * 100ms sub-blocks, combined into 400ms momentary and 3s short-term windows,
+ * and integrated over 400ms blocks with the -70 LUFS absolute and -10 LU
+ * relative gates. Gated blocks are kept in a 0.1 LU histogram so integration
+ * costs the same after hours as after seconds. True peak is measured on a 4x
+ * oversampled signal.
+ */
+export function loudnessMeterProcessor() {
+  const SUB_BLOCK_FRAMES = Math.round(sampleRate / 10);
+  const MOMENTARY_SUB_BLOCKS = 4;
+  const SHORT_TERM_SUB_BLOCKS = 30;
+  const ABSOLUTE_GATE = -70;
+  const RELATIVE_GATE = -10;
+  const HISTOGRAM_MAX = 5;
+  const HISTOGRAM_STEP = 0.1;
+  const HISTOGRAM_BINS = Math.round((HISTOGRAM_MAX - ABSOLUTE_GATE) / HISTOGRAM_STEP);
+  const OVERSAMPLING = 4;
+  const TAPS_PER_PHASE = 12;
+
+  const powerToLufs = (power: number) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+  const gainToDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+
+  /** Biquad coefficients [b0, b1, b2, a1, a2] of the two K-weighting stages at this sample rate. */
+  function kWeightingCoefficients() {
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    const Vh = 10 ** (3.999843853973347 / 20);
+    const Vb = Vh ** 0.4996667741545416;
+    let Q = 0.7071752369554196;
+    let a0 = 1 + K / Q + K * K;
+    const shelf = [
+      (Vh + Vb * K / Q + K * K) / a0,
+      2 * (K * K - Vh) / a0,
+      (Vh - Vb * K / Q + K * K) / a0,
+      2 * (K * K - 1) / a0,
+      (1 - K / Q + K * K) / a0,
+    ];
+    K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highpass = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0];
+    return [shelf, highpass];
+  }
+
+  /** Windowed-sinc interpolation filter, split into one set of taps per output phase. */
+  function oversamplingPhases() {
+    const length = OVERSAMPLING * TAPS_PER_PHASE;
+    const phases: Float32Array[] = [];
+    for (let p = 0; p < OVERSAMPLING; p++) phases.push(new Float32Array(TAPS_PER_PHASE));
+    for (let n = 0; n < length; n++) {
+      const x = (n - (length - 1) / 2) / OVERSAMPLING;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+      phases[n % OVERSAMPLING][Math.floor(n / OVERSAMPLING)] = sinc * window;
+    }
+    return phases;
+  }
+
+  class LoudnessMeterProcessor extends AudioWorkletProcessor {
+    private filters: number[][];
+    /** Biquad state per channel and stage: [x1, x2, y1, y2]. */
+    private filterState: Float64Array[][];
+    private phases: Float32Array[];
+    private history: Float32Array[];
+    private historyIndex: number;
+
+    private subBlockSum: number;
+    private subBlockFrames: number;
+    /** Mean square of the most recent sub-blocks, newest last. */
+    private subBlocks: number[];
+    private histogramCounts: Float64Array;
+    private histogramPowers: Float64Array;
+
+    private peak: number;
+    private maxPeak: number;
+
+    constructor() {
+      super();
+      this.filters = kWeightingCoefficients();
+      this.filterState = [];
+      this.phases = oversamplingPhases();
+      this.history = [];
+      this.historyIndex = 0;
+      this.subBlockSum = 0;
+      this.subBlockFrames = 0;
+      this.subBlocks = [];
+      this.histogramCounts = new Float64Array(HISTOGRAM_BINS);
+      this.histogramPowers = new Float64Array(HISTOGRAM_BINS);
+      this.peak = 0;
+      this.maxPeak = 0;
+      this.port.onmessage = (e: MessageEvent<LoudnessMeterMessage>) => {
+        if (e.data.type === 'reset') this.reset();
+      };
+    }
+
+    private reset() {
+      this.histogramCounts.fill(0);
+      this.histogramPowers.fill(0);
+      this.maxPeak = 0;
+    }
+
+    private kWeight(ch: number, sample: number) {
+      const states = this.filterState[ch];
+      let x = sample;
+      for (let stage = 0; stage < this.filters.length; stage++) {
+        const [b0, b1, b2, a1, a2] = this.filters[stage];
+        const s = states[stage];
+        const y = b0 * x + b1 * s[0] + b2 * s[1] - a1 * s[2] - a2 * s[3];
+        s[1] = s[0];
+        s[0] = x;
+        s[3] = s[2];
+        s[2] = y;
+        x = y;
+      }
+      return x;
+    }
+
+    /** The largest absolute value of the oversampled signal around the newest sample. */
+    private oversampledPeak(ch: number) {
+      const history = this.history[ch];
+      let peak = 0;
+      for (let p = 0; p < OVERSAMPLING; p++) {
+        const taps = this.phases[p];
+        let sum = 0;
+        for (let k = 0; k < TAPS_PER_PHASE; k++) {
+          sum += taps[k] * history[(this.historyIndex - k + TAPS_PER_PHASE) % TAPS_PER_PHASE];
+        }
+        peak = Math.max(peak, Math.abs(sum));
+      }
+      return peak;
+    }
+
+    private meanSquare(count: number) {
+      const blocks = this.subBlocks.slice(-count);
+      return blocks.reduce((a, b) => a + b, 0) / Math.max(1, blocks.length);
+    }
+
+    private integrated() {
+      let count = 0;
+      let power = 0;
+      for (let i = 0; i < HISTOGRAM_BINS; i++) {
+        count += this.histogramCounts[i];
+        power += this.histogramPowers[i];
+      }
+      if (count === 0) return -Infinity;
+      const relativeGate = powerToLufs(power / count) + RELATIVE_GATE;
+      const firstBin = Math.max(0, Math.ceil((relativeGate - ABSOLUTE_GATE) / HISTOGRAM_STEP));
+      count = 0;
+      power = 0;
+      for (let i = firstBin; i < HISTOGRAM_BINS; i++) {
+        count += this.histogramCounts[i];
+        power += this.histogramPowers[i];
+      }
+      return count > 0 ? powerToLufs(power / count) : -Infinity;
+    }
+
+    private endSubBlock() {
+      this.subBlocks.push(this.subBlockSum / this.subBlockFrames);
+      if (this.subBlocks.length > SHORT_TERM_SUB_BLOCKS) this.subBlocks.shift();
+      this.subBlockSum = 0;
+      this.subBlockFrames = 0;
+
+      // Gating blocks are 400ms long and overlap by 75%, so one ends every sub-block.
+      if (this.subBlocks.length >= MOMENTARY_SUB_BLOCKS) {
+        const power = this.meanSquare(MOMENTARY_SUB_BLOCKS);
+        const loudness = powerToLufs(power);
+        if (loudness > ABSOLUTE_GATE) {
+          const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((loudness - ABSOLUTE_GATE) / HISTOGRAM_STEP));
+          this.histogramCounts[bin]++;
+          this.histogramPowers[bin] += power;
+        }
+      }
+
+      const stats: LoudnessStats = {
+        momentary: powerToLufs(this.meanSquare(MOMENTARY_SUB_BLOCKS)),
+        shortTerm: powerToLufs(this.meanSquare(SHORT_TERM_SUB_BLOCKS)),
+        integrated: this.integrated(),
+        truePeak: gainToDb(this.peak),
+        maxTruePeak: gainToDb(this.maxPeak),
+      };
+      this.port.postMessage({ type: 'stats', stats });
+      this.peak = 0;
+    }
+
+    process(inputs: Float32Array[][]) {
+      const input = inputs[0];
+      // Nothing is connected; keep the processor alive for when it is.
+      if (input.length === 0) return true;
+      while (this.filterState.length < input.length) {
+        this.filterState.push(this.filters.map(() => new Float64Array(4)));
+        this.history.push(new Float32Array(TAPS_PER_PHASE));
+      }
+
+      for (let i = 0; i < input[0].length; i++) {
+        this.historyIndex = (this.historyIndex + 1) % TAPS_PER_PHASE;
+        for (let ch = 0; ch < input.length; ch++) {
+          const sample = input[ch][i];
+          const weighted = this.kWeight(ch, sample);
+          this.subBlockSum += weighted * weighted;
+          this.history[ch][this.historyIndex] = sample;
+          this.peak = Math.max(this.peak, this.oversampledPeak(ch));
+        }
+        this.maxPeak = Math.max(this.maxPeak, this.peak);
+        this.subBlockFrames++;
+        if (this.subBlockFrames >= SUB_BLOCK_FRAMES) this.endSubBlock();
+      }
+      return true;
+    }
+  }
+
+  // Keep in sync with LOUDNESS_METER_PROCESSOR_NAME.
+  registerProcessor('loudness-meter-processor', LoudnessMeterProcessor);
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const ONSET_PROCESSOR_NAME = 'onset-processor';
+
+/** Frames per onset strength value. */
+export const ONSET_HOP_SIZE = 512;
+
+/** A batch of onset strength values, oldest first. */
+export interface OnsetEvent {
+  type: 'onsets';
+  /** Onset strength of the whole signal. */
+  full: Float32Array;
+  /** Rise in energy below ~150Hz, where kicks live. Unlike `full` it's linear, so louder kicks score higher. */
+  low: Float32Array;
+  /** Context time at the end of each hop. */
+  times: Float64Array;
+}
+
+/**
+ * The AudioWorklet side of TempoTracker.
+ *
+ * Computes onset strength as the rectified rise in log energy from one hop to
+ * the next, and the rectified rise in linear energy of the low end.
+ */
+export function onsetProcessor() {
+  // Mirror of ONSET_HOP_SIZE, which isn't in scope once stringified.
+  const HOP_SIZE = 512;
+  /** Hops per message. */
+  const BATCH_SIZE = 8;
+  const LOW_CUTOFF = 150;
+  const EPSILON = 1e-6;
+
+  class OnsetProcessor extends AudioWorkletProcessor {
+    private lowCoefficient: number;
+    private lowState: number;
+    private fullEnergy: number;
+    private lowEnergy: number;
+    private previousFull: number;
+    private previousLow: number;
+    private hopFrames: number;
+    private batchIndex: number;
+    private full: Float32Array;
+    private low: Float32Array;
+    private times: Float64Array;
+
+    constructor() {
+      super();
+      this.lowCoefficient = 1 - Math.exp((-2 * Math.PI * LOW_CUTOFF) / sampleRate);
+      this.lowState = 0;
+      this.fullEnergy = 0;
+      this.lowEnergy = 0;
+      this.previousFull = Math.log(EPSILON);
+      this.previousLow = 0;
+      this.hopFrames = 0;
+      this.batchIndex = 0;
+      this.full = new Float32Array(BATCH_SIZE);
+      this.low = new Float32Array(BATCH_SIZE);
+      this.times = new Float64Array(BATCH_SIZE);
+    }
+
+    private endHop(frame: number) {
+      const full = Math.log(this.fullEnergy / HOP_SIZE + EPSILON);
+      const low = this.lowEnergy / HOP_SIZE;
+      this.full[this.batchIndex] = Math.max(0, full - this.previousFull);
+      this.low[this.batchIndex] = Math.max(0, low - this.previousLow);
+      this.times[this.batchIndex] = frame / sampleRate;
+      this.previousFull = full;
+      this.previousLow = low;
+      this.fullEnergy = 0;
+      this.lowEnergy = 0;
+      this.hopFrames = 0;
+
+      if (++this.batchIndex === BATCH_SIZE) {
+        this.port.postMessage({ type: 'onsets', full: this.full, low: this.low, times: this.times });
+        this.full = new Float32Array(BATCH_SIZE);
+        this.low = new Float32Array(BATCH_SIZE);
+        this.times = new Float64Array(BATCH_SIZE);
+        this.batchIndex = 0;
+      }
+    }
+
+    process(inputs: Float32Array[][]) {
+      const input = inputs[0];
+      if (input.length === 0) return true;
+      for (let i = 0; i < input[0].length; i++) {
+        let sample = 0;
+        for (let ch = 0; ch < input.length; ch++) sample += input[ch][i];
+        sample /= input.length;
+        this.lowState += (sample - this.lowState) * this.lowCoefficient;
+        this.fullEnergy += sample * sample;
+        this.lowEnergy += this.lowState * this.lowState;
+        if (++this.hopFrames === HOP_SIZE) this.endHop(currentFrame + i + 1);
+      }
+      return true;
+    }
+  }
+
+  // Keep in sync with ONSET_PROCESSOR_NAME.
+  registerProcessor('onset-processor', OnsetProcessor);
+}
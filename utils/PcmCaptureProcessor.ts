@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const PCM_CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+
+/** Asks the processor to post what it has buffered, followed by `flushed`. */
+export interface PcmCaptureMessage {
+  type: 'flush';
+}
+
+export type PcmCaptureEvent =
+  | { type: 'pcm'; channels: Float32Array[] }
+  | { type: 'flushed' };
+
+/**
+ * The AudioWorklet side of AudioRecorder's lossless formats.
+ *
+ * Copies its input to the main thread untouched, in batches to keep the
+ * message rate down.
+ */
+export function pcmCaptureProcessor() {
+  /** Frames per message. */
+  const BATCH_SIZE = 8192;
+
+  class PcmCaptureProcessor extends AudioWorkletProcessor {
+    private batch: Float32Array[];
+    private batchFrames: number;
+
+    constructor() {
+      super();
+      this.batch = [];
+      this.batchFrames = 0;
+      this.port.onmessage = (e: MessageEvent<PcmCaptureMessage>) => {
+        if (e.data.type !== 'flush') return;
+        this.post();
+        this.port.postMessage({ type: 'flushed' });
+      };
+    }
+
+    private post() {
+      if (this.batchFrames === 0) return;
+      const channels = this.batch.map((channel) => channel.slice(0, this.batchFrames));
+      this.port.postMessage({ type: 'pcm', channels }, channels.map((channel) => channel.buffer));
+      this.batchFrames = 0;
+    }
+
+    process(inputs: Float32Array[][]) {
+      const input = inputs[0];
+      if (input.length === 0) return true;
+      if (this.batch.length !== input.length) {
+        this.post();
+        this.batch = input.map(() => new Float32Array(BATCH_SIZE));
+      }
+      const frames = input[0].length;
+      input.forEach((channel, ch) => this.batch[ch].set(channel, this.batchFrames));
+      this.batchFrames += frames;
+      if (this.batchFrames + frames > BATCH_SIZE) this.post();
+      return true;
+    }
+  }
+
+  // Keep in sync with PCM_CAPTURE_PROCESSOR_NAME.
+  registerProcessor('pcm-capture-processor', PcmCaptureProcessor);
+}
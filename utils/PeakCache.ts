@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Frames per block at the finest cached level. Below it, samples are read directly. */
+const BASE_BLOCK_SIZE = 256;
+
+interface PeakLevel {
+  blockSize: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Minimum and maximum sample per block of a buffer, across its channels, at
+ * block sizes doubling from BASE_BLOCK_SIZE. Drawing a range then reads about
+ * one block per pixel at any zoom, rather than every sample.
+ */
+export class PeakCache {
+  private buffer: AudioBuffer;
+  private levels: PeakLevel[] = [];
+
+  constructor(buffer: AudioBuffer) {
+    this.buffer = buffer;
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+    const blocks = Math.ceil(buffer.length / BASE_BLOCK_SIZE);
+    let level: PeakLevel = { blockSize: BASE_BLOCK_SIZE, min: new Float32Array(blocks), max: new Float32Array(blocks) };
+    for (let block = 0; block < blocks; block++) {
+      const start = block * BASE_BLOCK_SIZE;
+      const end = Math.min(buffer.length, start + BASE_BLOCK_SIZE);
+      let min = Infinity, max = -Infinity;
+      for (const channel of channels) {
+        for (let i = start; i < end; i++) {
+          const value = channel[i];
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+      level.min[block] = min;
+      level.max[block] = max;
+    }
+    this.levels.push(level);
+
+    while (level.min.length > 1) {
+      const count = Math.ceil(level.min.length / 2);
+      const next: PeakLevel = { blockSize: level.blockSize * 2, min: new Float32Array(count), max: new Float32Array(count) };
+      for (let block = 0; block < count; block++) {
+        const a = block * 2;
+        const b = Math.min(a + 1, level.min.length - 1);
+        next.min[block] = Math.min(level.min[a], level.min[b]);
+        next.max[block] = Math.max(level.max[a], level.max[b]);
+      }
+      this.levels.push(next);
+      level = next;
+    }
+  }
+
+  /** The lowest and highest sample from frame `start` to `end`, or null if the range is empty. */
+  range(start: number, end: number): [number, number] | null {
+    start = Math.max(0, Math.floor(start));
+    end = Math.min(this.buffer.length, Math.ceil(end));
+    if (end <= start) return null;
+
+    let min = Infinity, max = -Infinity;
+    const frames = end - start;
+    if (frames < BASE_BLOCK_SIZE) {
+      for (let ch = 0; ch < this.buffer.numberOfChannels; ch++) {
+        const channel = this.buffer.getChannelData(ch);
+        for (let i = start; i < end; i++) {
+          const value = channel[i];
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+      return [min, max];
+    }
+
+    // The coarsest level whose blocks still fit in the range.
+    let level = this.levels[0];
+    for (const candidate of this.levels) {
+      if (candidate.blockSize > frames) break;
+      level = candidate;
+    }
+    const first = Math.floor(start / level.blockSize);
+    const last = Math.min(level.min.length, Math.ceil(end / level.blockSize));
+    for (let block = first; block < last; block++) {
+      if (level.min[block] < min) min = level.min[block];
+      if (level.max[block] > max) max = level.max[block];
+    }
+    return [min, max];
+  }
+}
+
+const caches = new WeakMap<AudioBuffer, PeakCache>();
+
+/** The buffer's peaks, computed on first use. */
+export function peaksOf(buffer: AudioBuffer) {
+  let cache = caches.get(buffer);
+  if (!cache) {
+    cache = new PeakCache(buffer);
+    caches.set(buffer, cache);
+  }
+  return cache;
+}
+
+/** Drops a buffer's peaks after its samples were changed in place. */
+export function invalidatePeaks(buffer: AudioBuffer) {
+  caches.delete(buffer);
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { RecordingFormat } from './AudioRecorder';
+import { openDatabase, promisifyRequest, transactionDone } from './idb';
+import type { DetectedKey } from './KeyDetector';
+import type { Marker } from './markers';
+
+/** A recording in the library. Its audio is stored as encoded chunks, in order. */
+export interface Take {
+  id: string;
+  /** When recording started, in ms since the epoch. */
+  startedAt: number;
+  /** Seconds of audio stored so far. */
+  duration: number;
+  /** Frames stored so far, which headers written on assembly need. */
+  length: number;
+  format: RecordingFormat;
+  sampleRate: number;
+  numberOfChannels: number;
+  /** Every prompt that was playing at some point during the take. */
+  prompts: string[];
+  key: DetectedKey | null;
+  /** The session's tempo when the take started, if it was set. */
+  bpm?: number;
+  /** Dropped while recording, in order. */
+  markers?: Marker[];
+  /** Names of the stems recorded alongside the mix, whose audio is stored with each chunk. */
+  stems?: string[];
+  /** False until the recorder stops, so takes left unfinished were interrupted, e.g. by a crash. */
+  finished: boolean;
+}
+
+export interface TakeChunk {
+  takeId: string;
+  index: number;
+  data: Blob;
+  /** The same stretch of each stem, in the order of the take's `stems`. */
+  stems?: Blob[];
+}
+
+const DB_NAME = 'PromptDjRecordings';
+const TAKES_STORE = 'takes';
+const CHUNKS_STORE = 'chunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase() {
+  dbPromise ??= openDatabase(DB_NAME, 1, {
+    [TAKES_STORE]: { keyPath: 'id' },
+    [CHUNKS_STORE]: { keyPath: ['takeId', 'index'] },
+  });
+  return dbPromise;
+}
+
+function chunkRange(takeId: string) {
+  return IDBKeyRange.bound([takeId, 0], [takeId, Infinity]);
+}
+
+export async function saveTake(take: Take) {
+  const db = await getDatabase();
+  const transaction = db.transaction(TAKES_STORE, 'readwrite');
+  transaction.objectStore(TAKES_STORE).put(take);
+  await transactionDone(transaction);
+}
+
+/** Stores the take's next chunk of audio along with its updated duration. */
+export async function appendChunk(take: Take, index: number, data: Blob, stems?: Blob[]) {
+  const db = await getDatabase();
+  const transaction = db.transaction([TAKES_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(CHUNKS_STORE).put({ takeId: take.id, index, data, stems } satisfies TakeChunk);
+  transaction.objectStore(TAKES_STORE).put(take);
+  await transactionDone(transaction);
+}
+
+/** All takes, newest first. */
+export async function listTakes(): Promise<Take[]> {
+  const db = await getDatabase();
+  const takes: Take[] = await promisifyRequest(db.transaction(TAKES_STORE).objectStore(TAKES_STORE).getAll());
+  return takes.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** The take's chunks, in order. */
+export async function loadChunks(takeId: string): Promise<TakeChunk[]> {
+  const db = await getDatabase();
+  const store = db.transaction(CHUNKS_STORE).objectStore(CHUNKS_STORE);
+  return promisifyRequest(store.getAll(chunkRange(takeId)));
+}
+
+export async function deleteTake(takeId: string) {
+  const db = await getDatabase();
+  const transaction = db.transaction([TAKES_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(TAKES_STORE).delete(takeId);
+  transaction.objectStore(CHUNKS_STORE).delete(chunkRange(takeId));
+  await transactionDone(transaction);
+}
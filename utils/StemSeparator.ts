@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface SeparatedStem {
+  name: string;
+  buffer: AudioBuffer;
+}
+
+/**
+ * Splits a mix into stems, locally. Implementations can be anything that
+ * runs in the page: the built-in band split, or a separation model compiled
+ * to WASM that loads its weights on the first `separate` call.
+ */
+export interface StemSeparator {
+  /** Shown when choosing how to split. */
+  readonly label: string;
+  /** Names of the stems `separate` returns, in order. */
+  readonly stems: string[];
+  separate(buffer: AudioBuffer): Promise<SeparatedStem[]>;
+}
+
+/** Below this, in Hz, is bass. */
+const BASS_CROSSOVER = 150;
+/** Above this, in Hz, are highs. */
+const HIGH_CROSSOVER = 4000;
+/** Q of the two biquads in a fourth-order Butterworth filter. */
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+/** Envelope times, in seconds, for telling transients from sustained sound. */
+const FAST_ATTACK = 0.001;
+const FAST_RELEASE = 0.02;
+const SLOW_ATTACK = 0.03;
+const SLOW_RELEASE = 0.3;
+/** Release of the transient gain, in seconds, so a hit keeps its body. */
+const TRANSIENT_HOLD = 0.06;
+/** Scales how far the fast envelope must jump above the slow one to count as fully transient. */
+const TRANSIENT_SENSITIVITY = 2;
+
+/** A fourth-order Butterworth low-pass, as two cascaded RBJ biquads. */
+function lowPass(input: Float32Array, sampleRate: number, frequency: number) {
+  let signal = input;
+  for (const q of BUTTERWORTH_Q) {
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+    const b0 = (1 - cos) / 2 / a0;
+    const b1 = (1 - cos) / a0;
+    const a1 = (-2 * cos) / a0;
+    const a2 = (1 - alpha) / a0;
+    const output = new Float32Array(signal.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < signal.length; i++) {
+      const x = signal[i];
+      const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
+    }
+    signal = output;
+  }
+  return signal;
+}
+
+function smoothingCoefficient(seconds: number, sampleRate: number) {
+  return Math.exp(-1 / (seconds * sampleRate));
+}
+
+/**
+ * How transient each sample is, from 0 to 1: how far a fast envelope of the
+ * signal is above a slow one.
+ */
+function transientGain(channels: Float32Array[], sampleRate: number) {
+  const length = channels[0].length;
+  const gain = new Float32Array(length);
+  const fastAttack = smoothingCoefficient(FAST_ATTACK, sampleRate);
+  const fastRelease = smoothingCoefficient(FAST_RELEASE, sampleRate);
+  const slowAttack = smoothingCoefficient(SLOW_ATTACK, sampleRate);
+  const slowRelease = smoothingCoefficient(SLOW_RELEASE, sampleRate);
+  const hold = smoothingCoefficient(TRANSIENT_HOLD, sampleRate);
+  let fast = 0, slow = 0, held = 0;
+  for (let i = 0; i < length; i++) {
+    let level = 0;
+    for (const channel of channels) level = Math.max(level, Math.abs(channel[i]));
+    const fastCoefficient = level > fast ? fastAttack : fastRelease;
+    fast = fastCoefficient * fast + (1 - fastCoefficient) * level;
+    const slowCoefficient = level > slow ? slowAttack : slowRelease;
+    slow = slowCoefficient * slow + (1 - slowCoefficient) * level;
+    const target = fast > 1e-6 ? Math.min(1, Math.max(0, (1 - slow / fast) * TRANSIENT_SENSITIVITY)) : 0;
+    held = target > held ? target : hold * held + (1 - hold) * target;
+    gain[i] = held;
+  }
+  return gain;
+}
+
+/**
+ * Separation by filtering, with no model: bass is the low end of the mid
+ * (centre) channel; above it, transients go to drums, and the rest is split
+ * into mids and highs. Each band is the mix minus the ones below it, so the
+ * stems add back up to the mix exactly. Kicks stay in the bass and sustained
+ * cymbals in the highs; it's a rough split, fast enough for long takes.
+ */
+export class BandSplitSeparator implements StemSeparator {
+  readonly label = 'Band split';
+  readonly stems = ['Bass', 'Drums', 'Mids', 'Highs'];
+
+  async separate(buffer: AudioBuffer): Promise<SeparatedStem[]> {
+    const { numberOfChannels, length, sampleRate } = buffer;
+    const input = Array.from({ length: numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+    const mid = new Float32Array(length);
+    for (const channel of input) {
+      for (let i = 0; i < length; i++) mid[i] += channel[i] / numberOfChannels;
+    }
+    const bass = lowPass(mid, sampleRate, BASS_CROSSOVER);
+    const rest = input.map((channel) => channel.map((value, i) => value - bass[i]));
+    const transient = transientGain(rest, sampleRate);
+
+    const stems = this.stems.map((name) => ({
+      name,
+      buffer: new AudioBuffer({ numberOfChannels, length, sampleRate }),
+    }));
+    const [bassStem, drumsStem, midsStem, highsStem] = stems.map(({ buffer }) => buffer);
+    rest.forEach((channel, ch) => {
+      const mids = lowPass(channel, sampleRate, HIGH_CROSSOVER);
+      const bassOut = bassStem.getChannelData(ch);
+      const drumsOut = drumsStem.getChannelData(ch);
+      const midsOut = midsStem.getChannelData(ch);
+      const highsOut = highsStem.getChannelData(ch);
+      for (let i = 0; i < length; i++) {
+        const sustained = 1 - transient[i];
+        bassOut[i] = bass[i];
+        drumsOut[i] = channel[i] * transient[i];
+        midsOut[i] = mids[i] * sustained;
+        highsOut[i] = (channel[i] - mids[i]) * sustained;
+      }
+    });
+    return stems;
+  }
+}
+
+const separators: StemSeparator[] = [new BandSplitSeparator()];
+
+/** Offers another way to split stems in the editor, e.g. a WASM model. */
+export function registerStemSeparator(separator: StemSeparator) {
+  separators.push(separator);
+}
+
+export function getStemSeparators(): readonly StemSeparator[] {
+  return separators;
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  READ_INDEX,
+  STREAM_PLAYER_PROCESSOR_NAME,
+  WRITE_INDEX,
+  streamPlayerProcessor,
+} from './StreamPlayerProcessor';
+import type { StreamPlayerEvent, StreamPlayerMessage, StreamPlayerProcessorOptions } from './StreamPlayerProcessor';
+import { loadWorkletProcessor } from './worklet';
+
+/** Seconds of audio the ring buffer can hold. */
+const CAPACITY_TIME = 20;
+/** Length of the fade in, and of the crossfade from a gap's repeat into the late chunk, in seconds. */
+const FADE_TIME = 0.02;
+const DEFAULT_TARGET_BUFFER_TIME = 2;
+/** Seconds of a late chunk to queue before crossfading into it, short so a gap is covered rather than waited out. */
+const RESUME_BUFFER_TIME = 0.2;
+/** Seconds of the last audio repeated over a gap, and how long the repeat takes to fade out. */
+const REPEAT_TIME = 0.1;
+const CONCEAL_TIME = 0.5;
+
+/**
+ * Plays a stream of interleaved int16 PCM chunks through an AudioWorklet.
+ *
+ * Chunks are handed to the audio thread as-is, either through a
+ * SharedArrayBuffer ring buffer when the page is cross-origin isolated or over
+ * the worklet's message port otherwise, so neither decoding nor playback
+ * timing depends on the main thread keeping up.
+ *
+ * Dispatches `started` when queued audio starts playing, `underrun` when it
+ * runs dry and the gap is being covered, `overflow` when chunks don't fit and `status` periodically.
+ */
+export class StreamPlayer extends EventTarget {
+  readonly node: AudioWorkletNode;
+  /** Seconds of audio queued as of the last status report. */
+  public bufferedTime = 0;
+  public isPlaying = false;
+
+  private readonly channels: number;
+  private readonly capacity: number;
+  private readonly sampleRate: number;
+  private readonly shared: { samples: Int16Array, indices: Int32Array } | null = null;
+
+  static async create(context: AudioContext, channels = 2): Promise<StreamPlayer> {
+    await loadWorkletProcessor(context, STREAM_PLAYER_PROCESSOR_NAME, streamPlayerProcessor);
+    return new StreamPlayer(context, channels);
+  }
+
+  private constructor(context: AudioContext, channels: number) {
+    super();
+    this.channels = channels;
+    this.sampleRate = context.sampleRate;
+    this.capacity = Math.round(CAPACITY_TIME * context.sampleRate);
+
+    const processorOptions: StreamPlayerProcessorOptions = {
+      channels,
+      capacityFrames: this.capacity,
+      targetFrames: Math.round(DEFAULT_TARGET_BUFFER_TIME * this.sampleRate),
+      resumeFrames: Math.round(RESUME_BUFFER_TIME * this.sampleRate),
+      fadeFrames: Math.round(FADE_TIME * this.sampleRate),
+      repeatFrames: Math.round(REPEAT_TIME * this.sampleRate),
+      concealFrames: Math.round(CONCEAL_TIME * this.sampleRate),
+    };
+    if (typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated) {
+      processorOptions.sharedSamples = new SharedArrayBuffer(this.capacity * channels * Int16Array.BYTES_PER_ELEMENT);
+      processorOptions.sharedIndices = new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT);
+      this.shared = {
+        samples: new Int16Array(processorOptions.sharedSamples),
+        indices: new Int32Array(processorOptions.sharedIndices),
+      };
+    }
+
+    this.node = new AudioWorkletNode(context, STREAM_PLAYER_PROCESSOR_NAME, {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [channels],
+      processorOptions,
+    });
+    this.node.port.onmessage = (e: MessageEvent<StreamPlayerEvent>) => this.handleProcessorEvent(e.data);
+  }
+
+  /** Queues a chunk of little-endian, interleaved int16 PCM. */
+  push(pcm: Uint8Array) {
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / Int16Array.BYTES_PER_ELEMENT);
+    if (this.shared) {
+      this.writeShared(samples);
+      return;
+    }
+    // Transfer rather than copy when the chunk owns its whole buffer.
+    const owned = samples.byteOffset === 0 && samples.byteLength === samples.buffer.byteLength
+      ? samples
+      : samples.slice();
+    this.postMessage({ type: 'push', samples: owned }, [owned.buffer]);
+  }
+
+  private writeShared(samples: Int16Array) {
+    const { indices } = this.shared!;
+    const ring = this.shared!.samples;
+    const read = Atomics.load(indices, READ_INDEX);
+    let write = Atomics.load(indices, WRITE_INDEX);
+    const available = (write - read + this.capacity) % this.capacity;
+    const frames = samples.length / this.channels;
+    const writable = Math.min(frames, this.capacity - 1 - available);
+
+    // Copy in at most two runs, around the end of the ring.
+    const firstRun = Math.min(writable, this.capacity - write);
+    ring.set(samples.subarray(0, firstRun * this.channels), write * this.channels);
+    ring.set(samples.subarray(firstRun * this.channels, writable * this.channels), 0);
+    write = (write + writable) % this.capacity;
+    Atomics.store(indices, WRITE_INDEX, write);
+
+    if (writable < frames) {
+      this.dispatchEvent(new CustomEvent('overflow', { detail: frames - writable }));
+    }
+  }
+
+  /** Sets how much audio must be queued before playback starts, after a reset. */
+  setTargetBufferTime(seconds: number) {
+    this.postMessage({ type: 'target', frames: Math.round(seconds * this.sampleRate) });
+  }
+
+  /** Drops all queued audio. */
+  reset() {
+    this.bufferedTime = 0;
+    this.isPlaying = false;
+    this.postMessage({ type: 'reset' });
+  }
+
+  private postMessage(message: StreamPlayerMessage, transfer: Transferable[] = []) {
+    this.node.port.postMessage(message, transfer);
+  }
+
+  private handleProcessorEvent(event: StreamPlayerEvent) {
+    switch (event.type) {
+      case 'status':
+        this.bufferedTime = event.bufferedFrames / this.sampleRate;
+        this.isPlaying = event.playing;
+        this.dispatchEvent(new CustomEvent('status'));
+        break;
+      case 'started':
+        this.isPlaying = true;
+        this.dispatchEvent(new CustomEvent('started'));
+        break;
+      case 'underrun':
+        this.isPlaying = false;
+        this.bufferedTime = 0;
+        this.dispatchEvent(new CustomEvent('underrun'));
+        break;
+      case 'overflow':
+        this.dispatchEvent(new CustomEvent('overflow', { detail: event.droppedFrames }));
+        break;
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const STREAM_PLAYER_PROCESSOR_NAME = 'stream-player-processor';
+
+/** Indices into the shared `indices` array. */
+export const READ_INDEX = 0;
+export const WRITE_INDEX = 1;
+
+export interface StreamPlayerProcessorOptions {
+  channels: number;
+  capacityFrames: number;
+  targetFrames: number;
+  /** Frames queued after a gap that are enough to resume, fewer than the target. */
+  resumeFrames: number;
+  fadeFrames: number;
+  /** Frames of the last audio repeated over a gap. */
+  repeatFrames: number;
+  /** How long the repeat lasts, fading out, before a gap goes silent. */
+  concealFrames: number;
+  /** Ring buffer storage shared with the main thread, when cross-origin isolated. */
+  sharedSamples?: SharedArrayBuffer;
+  sharedIndices?: SharedArrayBuffer;
+}
+
+export type StreamPlayerMessage =
+  | { type: 'push', samples: Int16Array }
+  | { type: 'target', frames: number }
+  | { type: 'reset' };
+
+export type StreamPlayerEvent =
+  | { type: 'started' }
+  | { type: 'underrun' }
+  | { type: 'overflow', droppedFrames: number }
+  | { type: 'status', bufferedFrames: number, playing: boolean };
+
+/**
+ * The AudioWorklet side of StreamPlayer.
+ *
+ * Interleaved int16 PCM is queued in a ring buffer and converted to float on
+ * the audio thread. Playback starts once `targetFrames` are queued. When the
+ * queue runs dry, the last audio is repeated back and forth, fading out, and
+ * crossfaded into the late chunk once `resumeFrames` of it are queued.
+ */
+export function streamPlayerProcessor() {
+  const STATUS_INTERVAL_FRAMES = Math.round(sampleRate / 20);
+  // Mirrors of the module constants, which aren't in scope once stringified.
+  const READ = 0;
+  const WRITE = 1;
+
+  class StreamPlayerProcessor extends AudioWorkletProcessor {
+    private channels: number;
+    private capacity: number;
+    private samples: Int16Array;
+    private indices: Int32Array;
+    private targetFrames: number;
+    private resumeFrames: number;
+    private fadeFrames: number;
+    private fadeInRemaining: number;
+    private playing: boolean;
+    /** Whether a gap was reached since the last reset, so resumeFrames are enough to play. */
+    private resuming: boolean;
+    /** The last frames played, per channel, as a ring. */
+    private history: Float32Array[];
+    private historyWrite: number;
+    private historyFrames: number;
+    /** The history when the gap was reached, oldest first, which plays while new audio goes into the history. */
+    private repeat: Float32Array[];
+    private repeatFrames: number;
+    private repeatPosition: number;
+    private repeatDirection: number;
+    private concealFrames: number;
+    private concealRemaining: number;
+    private framesSinceStatus: number;
+
+    constructor(options: AudioWorkletNodeOptions) {
+      super();
+      const opts = options.processorOptions as StreamPlayerProcessorOptions;
+      this.channels = opts.channels;
+      this.capacity = opts.capacityFrames;
+      const shared = !!opts.sharedSamples && !!opts.sharedIndices;
+      this.samples = shared
+        ? new Int16Array(opts.sharedSamples!)
+        : new Int16Array(this.capacity * this.channels);
+      this.indices = shared ? new Int32Array(opts.sharedIndices!) : new Int32Array(2);
+      this.targetFrames = opts.targetFrames;
+      this.resumeFrames = opts.resumeFrames;
+      this.fadeFrames = opts.fadeFrames;
+      this.fadeInRemaining = 0;
+      this.playing = false;
+      this.resuming = false;
+      this.history = Array.from({ length: this.channels }, () => new Float32Array(opts.repeatFrames));
+      this.historyWrite = 0;
+      this.historyFrames = 0;
+      this.repeat = Array.from({ length: this.channels }, () => new Float32Array(opts.repeatFrames));
+      this.repeatFrames = 0;
+      this.repeatPosition = 0;
+      this.repeatDirection = -1;
+      this.concealFrames = opts.concealFrames;
+      this.concealRemaining = 0;
+      this.framesSinceStatus = 0;
+      this.port.onmessage = (e: MessageEvent<StreamPlayerMessage>) => this.handleMessage(e.data);
+    }
+
+    private handleMessage(message: StreamPlayerMessage) {
+      switch (message.type) {
+        case 'push':
+          this.write(message.samples);
+          break;
+        case 'target':
+          this.targetFrames = message.frames;
+          break;
+        case 'reset':
+          Atomics.store(this.indices, READ, Atomics.load(this.indices, WRITE));
+          this.playing = false;
+          this.resuming = false;
+          this.historyFrames = 0;
+          this.concealRemaining = 0;
+          break;
+      }
+    }
+
+    private available() {
+      const read = Atomics.load(this.indices, READ);
+      const write = Atomics.load(this.indices, WRITE);
+      return (write - read + this.capacity) % this.capacity;
+    }
+
+    /** Only used when the ring buffer isn't shared, otherwise the main thread writes. */
+    private write(samples: Int16Array) {
+      const frames = samples.length / this.channels;
+      const free = this.capacity - 1 - this.available();
+      const writable = Math.min(frames, free);
+      let write = Atomics.load(this.indices, WRITE);
+      for (let i = 0; i < writable; i++) {
+        const offset = write * this.channels;
+        for (let ch = 0; ch < this.channels; ch++) {
+          this.samples[offset + ch] = samples[i * this.channels + ch];
+        }
+        write = (write + 1) % this.capacity;
+      }
+      Atomics.store(this.indices, WRITE, write);
+      if (writable < frames) {
+        this.port.postMessage({ type: 'overflow', droppedFrames: frames - writable });
+      }
+    }
+
+    /** Starts repeating the last audio over a gap, backwards from where it stopped so it joins up. */
+    private beginConcealment() {
+      this.playing = false;
+      this.resuming = true;
+      this.fadeInRemaining = 0;
+      this.concealRemaining = this.historyFrames > 0 ? this.concealFrames : 0;
+      const capacity = this.history[0].length;
+      for (let ch = 0; ch < this.channels; ch++) {
+        for (let i = 0; i < this.historyFrames; i++) {
+          this.repeat[ch][i] = this.history[ch][(this.historyWrite - this.historyFrames + i + capacity) % capacity];
+        }
+      }
+      this.repeatFrames = this.historyFrames;
+      this.repeatPosition = this.repeatFrames - 1;
+      this.repeatDirection = -1;
+      this.port.postMessage({ type: 'underrun' });
+    }
+
+    /** The next frame of the repeat, turning round at either end so it never jumps. */
+    private nextRepeatFrame() {
+      const frame = this.repeatPosition;
+      if (this.repeatFrames > 1) {
+        const next = this.repeatPosition + this.repeatDirection;
+        if (next < 0 || next >= this.repeatFrames) this.repeatDirection = -this.repeatDirection;
+        this.repeatPosition += this.repeatDirection;
+      }
+      return frame;
+    }
+
+    process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+      const output = outputs[0];
+      const length = output[0].length;
+      let available = this.available();
+
+      if (!this.playing && available >= (this.resuming ? this.resumeFrames : this.targetFrames)) {
+        this.playing = true;
+        this.fadeInRemaining = this.fadeFrames;
+        this.port.postMessage({ type: 'started' });
+      }
+
+      const capacity = this.history[0].length;
+      let read = Atomics.load(this.indices, READ);
+      for (let i = 0; i < length; i++) {
+        if (this.playing && available === 0) this.beginConcealment();
+
+        let gain = this.playing ? 1 : 0;
+        if (this.playing && this.fadeInRemaining > 0) {
+          gain = 1 - this.fadeInRemaining / this.fadeFrames;
+          this.fadeInRemaining--;
+        }
+        // The repeat fades out over the gap, and under the late chunk as it fades in.
+        let repeatGain = 0;
+        let repeatFrame = 0;
+        if (this.concealRemaining > 0) {
+          repeatGain = (this.concealRemaining / this.concealFrames) * (1 - gain);
+          repeatFrame = this.nextRepeatFrame();
+          this.concealRemaining = this.playing && this.fadeInRemaining === 0 ? 0 : this.concealRemaining - 1;
+        }
+
+        const offset = read * this.channels;
+        for (let ch = 0; ch < output.length; ch++) {
+          const source = Math.min(ch, this.channels - 1);
+          const sample = this.playing ? this.samples[offset + source] / 32768 : 0;
+          output[ch][i] = sample * gain + this.repeat[source][repeatFrame] * repeatGain;
+        }
+        if (!this.playing) continue;
+
+        for (let ch = 0; ch < this.channels; ch++) {
+          this.history[ch][this.historyWrite] = this.samples[offset + ch] / 32768;
+        }
+        this.historyWrite = (this.historyWrite + 1) % capacity;
+        this.historyFrames = Math.min(capacity, this.historyFrames + 1);
+        read = (read + 1) % this.capacity;
+        available--;
+      }
+      Atomics.store(this.indices, READ, read);
+
+      this.framesSinceStatus += length;
+      if (this.framesSinceStatus >= STATUS_INTERVAL_FRAMES) {
+        this.framesSinceStatus = 0;
+        this.port.postMessage({ type: 'status', bufferedFrames: available, playing: this.playing });
+      }
+      return true;
+    }
+  }
+
+  // Keep in sync with STREAM_PLAYER_PROCESSOR_NAME.
+  registerProcessor('stream-player-processor', StreamPlayerProcessor);
+}
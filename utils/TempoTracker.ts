@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioAnalyser } from './AudioAnalyser';
+import { ONSET_HOP_SIZE, ONSET_PROCESSOR_NAME, onsetProcessor } from './OnsetProcessor';
+import type { OnsetEvent } from './OnsetProcessor';
+import { loadWorkletProcessor } from './worklet';
+
+export interface TempoEstimate {
+  bpm: number;
+  /** Periodicity of the onsets at the detected tempo, 0 to 1. */
+  confidence: number;
+  /** Context time of a recent beat. Later beats follow every 60 / bpm seconds. */
+  beatTime: number;
+  /** Context time of a recent downbeat, assuming 4/4. */
+  downbeatTime: number;
+}
+
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+/** Tempo octave the estimate is biased towards, as most dance music sits near it. */
+const PREFERRED_BPM = 120;
+/** Seconds of onset history analysed. */
+const HISTORY_TIME = 8;
+/** Seconds between estimates. */
+const ESTIMATE_INTERVAL = 0.5;
+/** Estimates with less confidence than this are not reported. */
+const MIN_CONFIDENCE = 0.1;
+/** Relative BPM change treated as drift rather than a new tempo. */
+const BPM_TOLERANCE = 0.03;
+const BPM_SMOOTHING = 0.3;
+const BEATS_PER_BAR = 4;
+
+/**
+ * Estimates the tempo and beat phase of the audio reaching an AudioAnalyser's
+ * tap. Onset strength is computed on the audio thread; tempo comes from its
+ * autocorrelation, beat phase from a comb over the onsets at that tempo, and
+ * the downbeat from which beat of the bar has the strongest low end.
+ *
+ * Dispatches `tempo-changed` with a TempoEstimate twice a second while the
+ * music has a detectable pulse.
+ */
+export class TempoTracker extends EventTarget {
+  public estimate: TempoEstimate | null = null;
+
+  private readonly framesPerSecond: number;
+  private readonly historyLength: number;
+  private full: number[] = [];
+  private low: number[] = [];
+  private times: number[] = [];
+  private framesSinceEstimate = 0;
+  /** A tempo that differs from the current estimate, adopted if the next estimate agrees. */
+  private candidateBpm: number | null = null;
+
+  constructor(analyser: AudioAnalyser) {
+    super();
+    const context = analyser.node.context;
+    this.framesPerSecond = context.sampleRate / ONSET_HOP_SIZE;
+    this.historyLength = Math.round(HISTORY_TIME * this.framesPerSecond);
+
+    loadWorkletProcessor(context, ONSET_PROCESSOR_NAME, onsetProcessor).then(() => {
+      // Without outputs the node is processed without being connected to the destination.
+      const node = new AudioWorkletNode(context, ONSET_PROCESSOR_NAME, { numberOfOutputs: 0 });
+      node.port.onmessage = (e: MessageEvent<OnsetEvent>) => this.handleOnsets(e.data);
+      analyser.node.connect(node);
+    }).catch((e) => {
+      console.error('Unable to load the tempo tracker:', e);
+    });
+  }
+
+  /** The context time of the first downbeat at or after `time`, or null without an estimate. */
+  public nextDownbeatTime(time: number) {
+    if (!this.estimate) return null;
+    const barDuration = (60 / this.estimate.bpm) * BEATS_PER_BAR;
+    const bars = Math.ceil((time - this.estimate.downbeatTime) / barDuration);
+    return this.estimate.downbeatTime + bars * barDuration;
+  }
+
+  private handleOnsets(event: OnsetEvent) {
+    this.full.push(...event.full);
+    this.low.push(...event.low);
+    this.times.push(...event.times);
+    const excess = this.full.length - this.historyLength;
+    if (excess > 0) {
+      this.full.splice(0, excess);
+      this.low.splice(0, excess);
+      this.times.splice(0, excess);
+    }
+
+    this.framesSinceEstimate += event.full.length;
+    if (this.framesSinceEstimate < ESTIMATE_INTERVAL * this.framesPerSecond) return;
+    this.framesSinceEstimate = 0;
+    // Wait for a few bars' worth of onsets.
+    if (this.full.length < this.historyLength / 2) return;
+    this.updateEstimate();
+  }
+
+  /** Lag, in hops, with the strongest weighted autocorrelation, and its normalized strength. */
+  private findPeriod(envelope: number[]) {
+    const autocorrelate = (lag: number) => {
+      let sum = 0;
+      for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+      return sum / (envelope.length - lag);
+    };
+    const energy = autocorrelate(0);
+    if (energy <= 0) return null;
+
+    const minLag = Math.floor((60 / MAX_BPM) * this.framesPerSecond);
+    const maxLag = Math.ceil((60 / MIN_BPM) * this.framesPerSecond);
+    const correlations: number[] = [];
+    let bestLag = -1;
+    let bestScore = -Infinity;
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+      correlations[lag] = autocorrelate(lag);
+      if (lag < minLag || lag > maxLag) continue;
+      const bpm = (60 * this.framesPerSecond) / lag;
+      const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+      const score = correlations[lag] * weight;
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    // Parabolic interpolation between neighbouring lags.
+    const [a, b, c] = [correlations[bestLag - 1], correlations[bestLag], correlations[bestLag + 1]];
+    const denominator = a - 2 * b + c;
+    const offset = denominator < 0 ? 0.5 * (a - c) / denominator : 0;
+    return { lag: bestLag + offset, confidence: Math.max(0, Math.min(1, b / energy)) };
+  }
+
+  /** Sums `envelope` at every `period` hops going back from `start`. */
+  private comb(envelope: number[], start: number, period: number) {
+    let sum = 0;
+    for (let position = start; position >= 0; position -= period) {
+      sum += envelope[Math.round(position)];
+    }
+    return sum;
+  }
+
+  private updateEstimate() {
+    const mean = this.full.reduce((a, b) => a + b, 0) / this.full.length;
+    const envelope = this.full.map((value) => value - mean);
+    const period = this.findPeriod(envelope);
+    if (!period || period.confidence < MIN_CONFIDENCE) return;
+
+    const last = this.full.length - 1;
+    let beatOffset = 0;
+    let bestBeatScore = -Infinity;
+    for (let offset = 0; offset < Math.floor(period.lag); offset++) {
+      const score = this.comb(this.full, last - offset, period.lag);
+      if (score > bestBeatScore) {
+        bestBeatScore = score;
+        beatOffset = offset;
+      }
+    }
+    const beatIndex = last - beatOffset;
+
+    let downbeatIndex = beatIndex;
+    let bestDownbeatScore = -Infinity;
+    for (let beat = 0; beat < BEATS_PER_BAR; beat++) {
+      const index = beatIndex - beat * period.lag;
+      if (index < 0) break;
+      const score = this.comb(this.low, index, period.lag * BEATS_PER_BAR);
+      if (score > bestDownbeatScore) {
+        bestDownbeatScore = score;
+        downbeatIndex = Math.round(index);
+      }
+    }
+
+    this.estimate = {
+      bpm: this.smoothBpm((60 * this.framesPerSecond) / period.lag),
+      confidence: period.confidence,
+      beatTime: this.times[beatIndex],
+      downbeatTime: this.times[downbeatIndex],
+    };
+    this.dispatchEvent(new CustomEvent<TempoEstimate>('tempo-changed', { detail: this.estimate }));
+  }
+
+  /** Follows small drifts smoothly, and only jumps to a new tempo once it's seen twice. */
+  private smoothBpm(bpm: number) {
+    const current = this.estimate?.bpm;
+    if (current === undefined) return bpm;
+    if (Math.abs(bpm - current) / current <= BPM_TOLERANCE) {
+      this.candidateBpm = null;
+      return current + (bpm - current) * BPM_SMOOTHING;
+    }
+    if (this.candidateBpm !== null && Math.abs(bpm - this.candidateBpm) / this.candidateBpm <= BPM_TOLERANCE) {
+      this.candidateBpm = null;
+      return bpm;
+    }
+    this.candidateBpm = bpm;
+    return current;
+  }
+}
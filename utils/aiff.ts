@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Compression types of AIFF-C files that are plain PCM, by whether they're little-endian. */
+const PCM_COMPRESSION: Record<string, boolean> = { NONE: false, twos: false, sowt: true };
+const FLOAT_COMPRESSION = new Set(['fl32', 'FL32']);
+
+function readId(view: DataView, offset: number) {
+  return String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+}
+
+/** An 80-bit IEEE extended float, which is how AIFF stores its sample rate. */
+function readExtended(view: DataView, offset: number) {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+  if (exponent === 0 && mantissa === 0) return 0;
+  const value = mantissa * 2 ** (exponent - 16383 - 63);
+  return view.getUint16(offset) & 0x8000 ? -value : value;
+}
+
+/** Whether the data is an AIFF or AIFF-C file. */
+export function isAiff(data: ArrayBuffer) {
+  if (data.byteLength < 12) return false;
+  const view = new DataView(data);
+  return readId(view, 0) === 'FORM' && ['AIFF', 'AIFC'].includes(readId(view, 8));
+}
+
+/**
+ * Decodes an uncompressed AIFF or AIFF-C file, which not every browser's
+ * decodeAudioData can. The buffer keeps the file's sample rate.
+ */
+export function decodeAiff(data: ArrayBuffer, context: BaseAudioContext): AudioBuffer {
+  if (!isAiff(data)) throw new Error('Not an AIFF file');
+  const view = new DataView(data);
+  const end = Math.min(data.byteLength, 8 + view.getUint32(4));
+
+  let format: { channels: number; frames: number; bits: number; sampleRate: number; compression: string } | null = null;
+  let soundOffset = -1;
+  for (let offset = 12; offset + 8 <= end;) {
+    const id = readId(view, offset);
+    const size = view.getUint32(offset + 4);
+    const body = offset + 8;
+    if (id === 'COMM') {
+      format = {
+        channels: view.getInt16(body),
+        frames: view.getUint32(body + 2),
+        bits: view.getInt16(body + 6),
+        sampleRate: readExtended(view, body + 8),
+        compression: size >= 22 ? readId(view, body + 18) : 'NONE',
+      };
+    } else if (id === 'SSND') {
+      soundOffset = body + 8 + view.getUint32(body);
+    }
+    // Chunks are padded to an even length.
+    offset = body + size + (size & 1);
+  }
+  if (!format || soundOffset < 0) throw new Error('AIFF file has no audio');
+
+  const { channels, frames, bits, sampleRate, compression } = format;
+  const isFloat = FLOAT_COMPRESSION.has(compression);
+  const littleEndian = PCM_COMPRESSION[compression];
+  if (!isFloat && littleEndian === undefined) throw new Error(`Unsupported AIFF compression: ${compression}`);
+
+  const bytesPerSample = isFloat ? 4 : Math.ceil(bits / 8);
+  const available = Math.floor((end - soundOffset) / (bytesPerSample * channels));
+  const length = Math.min(frames, available);
+  if (length <= 0 || channels <= 0) throw new Error('AIFF file has no audio');
+
+  const buffer = context.createBuffer(channels, length, sampleRate);
+  const outputs = Array.from({ length: channels }, (_, ch) => buffer.getChannelData(ch));
+  // Integer samples are left-justified in their bytes.
+  const scale = 2 ** (bytesPerSample * 8 - 1);
+  for (let frame = 0; frame < length; frame++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const offset = soundOffset + (frame * channels + ch) * bytesPerSample;
+      if (isFloat) {
+        outputs[ch][frame] = view.getFloat32(offset);
+        continue;
+      }
+      let value = 0;
+      for (let i = 0; i < bytesPerSample; i++) {
+        const byte = view.getUint8(offset + (littleEndian ? bytesPerSample - 1 - i : i));
+        value = value * 256 + byte;
+      }
+      if (value >= scale) value -= scale * 2;
+      outputs[ch][frame] = value / scale;
+    }
+  }
+  return buffer;
+}
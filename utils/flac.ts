@@ -0,0 +1,386 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacOptions {
+  bitDepth?: FlacBitDepth;
+  /** Vorbis comments, e.g. { KEY: 'Am' }. */
+  comments?: Record<string, string>;
+}
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+const MAX_RICE_PARAMETER = 14;
+const VENDOR = 'Prompt DJ';
+
+/** Writes big-endian bit fields into a growing byte array. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private accumulator = 0;
+  private accumulatorBits = 0;
+
+  get byteLength() {
+    return this.length;
+  }
+
+  /** Writes the low `count` bits of `value`. Negative values are written as two's complement. */
+  write(value: number, count: number) {
+    while (count > 24) {
+      count -= 24;
+      this.write(Math.floor(value / 2 ** count) & 0xffffff, 24);
+    }
+    if (count === 0) return;
+    this.accumulator = (this.accumulator << count) | (value & ((1 << count) - 1));
+    this.accumulatorBits += count;
+    while (this.accumulatorBits >= 8) {
+      this.accumulatorBits -= 8;
+      this.pushByte((this.accumulator >>> this.accumulatorBits) & 0xff);
+    }
+    this.accumulator &= (1 << this.accumulatorBits) - 1;
+  }
+
+  /** `count` zeros followed by a one. */
+  writeUnary(count: number) {
+    while (count > 24) {
+      this.write(0, 24);
+      count -= 24;
+    }
+    this.write(1, count + 1);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    for (const byte of bytes) this.write(byte, 8);
+  }
+
+  alignToByte() {
+    if (this.accumulatorBits > 0) this.write(0, 8 - this.accumulatorBits);
+  }
+
+  slice(start: number, end = this.length) {
+    return this.bytes.subarray(start, end);
+  }
+
+  finish() {
+    this.alignToByte();
+    return this.bytes.slice(0, this.length);
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+function crcTable(polynomial: number, bits: number) {
+  const topBit = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  return Array.from({ length: 256 }, (_, byte) => {
+    let crc = byte << (bits - 8);
+    for (let i = 0; i < 8; i++) crc = crc & topBit ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    return crc;
+  });
+}
+
+const CRC8_TABLE = crcTable(0x07, 8);
+const CRC16_TABLE = crcTable(0x8005, 16);
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+}
+
+/** Residuals of FLAC's fixed polynomial predictor of the given order. */
+function fixedResidual(samples: Int32Array, order: number) {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+}
+
+/** Residuals as unsigned values: 0, -1, 1, -2, ... map to 0, 1, 2, 3, ... */
+function zigzag(residual: Int32Array) {
+  return residual.map((value) => value >= 0 ? 2 * value : -2 * value - 1);
+}
+
+interface RicePartitioning {
+  order: number;
+  parameters: number[];
+  bits: number;
+}
+
+/** The partition order and per-partition Rice parameters that code `unsigned` in the fewest bits. */
+function chooseRicePartitioning(unsigned: Int32Array, blockSize: number, predictorOrder: number): RicePartitioning {
+  let best: RicePartitioning | null = null;
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+    const partitionSize = blockSize >> order;
+    if (blockSize % (1 << order) !== 0 || partitionSize <= predictorOrder) break;
+    const parameters: number[] = [];
+    let bits = 0;
+    let start = 0;
+    for (let partition = 0; partition < 1 << order; partition++) {
+      const end = start + partitionSize - (partition === 0 ? predictorOrder : 0);
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += unsigned[i];
+      const count = end - start;
+      const mean = sum / count;
+      const parameter = Math.max(0, Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean || 1))));
+      parameters.push(parameter);
+      // Unary quotients, their terminating ones, and the low bits.
+      let quotients = 0;
+      for (let i = start; i < end; i++) quotients += unsigned[i] >>> parameter;
+      bits += 4 + quotients + count * (1 + parameter);
+      start = end;
+    }
+    if (!best || bits < best.bits) best = { order, parameters, bits };
+  }
+  return best!;
+}
+
+interface Subframe {
+  bits: number;
+  write(writer: BitWriter): void;
+}
+
+/** The smallest of a constant, verbatim or fixed-prediction encoding of one channel's block. */
+function encodeSubframe(samples: Int32Array, bitDepth: number): Subframe {
+  if (samples.every((sample) => sample === samples[0])) {
+    return {
+      bits: 8 + bitDepth,
+      write: (writer) => {
+        writer.write(0b00000000, 8);
+        writer.write(samples[0], bitDepth);
+      },
+    };
+  }
+
+  let best: Subframe = {
+    bits: 8 + samples.length * bitDepth,
+    write: (writer) => {
+      writer.write(0b00000010, 8);
+      for (const sample of samples) writer.write(sample, bitDepth);
+    },
+  };
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const unsigned = zigzag(fixedResidual(samples, order));
+    const partitioning = chooseRicePartitioning(unsigned, samples.length, order);
+    const bits = 8 + order * bitDepth + 6 + partitioning.bits;
+    if (bits >= best.bits) continue;
+    best = {
+      bits,
+      write: (writer) => {
+        writer.write(0b00010000 | (order << 1), 8);
+        for (let i = 0; i < order; i++) writer.write(samples[i], bitDepth);
+        writer.write(0b00, 2); // Rice coding with 4-bit parameters
+        writer.write(partitioning.order, 4);
+        const partitionSize = samples.length >> partitioning.order;
+        let start = 0;
+        partitioning.parameters.forEach((parameter, partition) => {
+          const end = start + partitionSize - (partition === 0 ? order : 0);
+          writer.write(parameter, 4);
+          for (let i = start; i < end; i++) {
+            writer.writeUnary(unsigned[i] >>> parameter);
+            writer.write(unsigned[i], parameter);
+          }
+          start = end;
+        });
+      },
+    };
+  }
+  return best;
+}
+
+/** FLAC's UTF-8-like coding of the frame number. */
+function writeFrameNumber(writer: BitWriter, frameNumber: number) {
+  if (frameNumber < 0x80) {
+    writer.write(frameNumber, 8);
+    return;
+  }
+  const continuationBytes = frameNumber < 0x800 ? 1 : frameNumber < 0x10000 ? 2 : frameNumber < 0x200000 ? 3 : 4;
+  const leadingBits = 6 - continuationBytes;
+  const prefix = (0xff00 >> (continuationBytes + 1)) & 0xff;
+  writer.write(prefix | (frameNumber >>> (6 * continuationBytes)) & ((1 << leadingBits) - 1), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | ((frameNumber >>> (6 * i)) & 0x3f), 8);
+  }
+}
+
+function toIntegers(channel: Float32Array, bitDepth: number) {
+  const scale = 2 ** (bitDepth - 1);
+  return Int32Array.from(channel, (value) => {
+    const sample = Math.max(-1, Math.min(1, value));
+    return Math.round(sample < 0 ? sample * scale : sample * (scale - 1));
+  });
+}
+
+/**
+ * The "fLaC" marker and metadata blocks that precede the frames written by
+ * FlacEncoder. Written last, as it holds the total length.
+ */
+export function createFlacHeader(
+  sampleRate: number,
+  numOfChan: number,
+  length: number,
+  { bitDepth = 24, comments = {} }: FlacOptions = {},
+) {
+  const writer = new BitWriter();
+  const commentEntries = Object.entries(comments);
+
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+
+  // STREAMINFO. Frame sizes and the MD5 signature are left as unknown.
+  writer.write(commentEntries.length ? 0 : 1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(numOfChan - 1, 3);
+  writer.write(bitDepth - 1, 5);
+  writer.write(length, 36);
+  for (let i = 0; i < 16; i++) writer.write(0, 8);
+
+  if (commentEntries.length) {
+    // VORBIS_COMMENT, whose lengths are little-endian.
+    const encoder = new TextEncoder();
+    const vendor = encoder.encode(VENDOR);
+    const strings = commentEntries.map(([name, value]) => encoder.encode(`${name}=${value}`));
+    const block = new DataView(new ArrayBuffer(strings.reduce((sum, s) => sum + 4 + s.length, 8 + vendor.length)));
+    let pos = 0;
+    const setString = (s: Uint8Array) => {
+      block.setUint32(pos, s.length, true);
+      new Uint8Array(block.buffer, pos + 4, s.length).set(s);
+      pos += 4 + s.length;
+    };
+    setString(vendor);
+    block.setUint32(pos, strings.length, true);
+    pos += 4;
+    strings.forEach(setString);
+    writer.write(1, 1);
+    writer.write(4, 7);
+    writer.write(block.byteLength, 24);
+    writer.writeBytes(new Uint8Array(block.buffer));
+  }
+
+  return writer.finish();
+}
+
+/**
+ * Encodes audio into FLAC frames as it arrives: fixed-size blocks, fixed
+ * polynomial prediction with partitioned Rice coding, and stereo
+ * decorrelation picked per block. Slower to encode than WAV but around half
+ * the size. A complete file is createFlacHeader followed by every encode and
+ * the finish.
+ */
+export class FlacEncoder {
+  private readonly numOfChan: number;
+  private readonly bitDepth: FlacBitDepth;
+  /** Samples short of a whole block, carried over to the next call. */
+  private remainder: Int32Array[];
+  private frameNumber = 0;
+
+  constructor(numOfChan: number, bitDepth: FlacBitDepth = 24) {
+    this.numOfChan = numOfChan;
+    this.bitDepth = bitDepth;
+    this.remainder = Array.from({ length: numOfChan }, () => new Int32Array(0));
+  }
+
+  /** Frames for as many whole blocks as there are samples. */
+  encode(channels: Float32Array[]) {
+    const samples = this.remainder.map((remainder, ch) => {
+      const incoming = toIntegers(channels[ch] ?? channels[0], this.bitDepth);
+      const joined = new Int32Array(remainder.length + incoming.length);
+      joined.set(remainder);
+      joined.set(incoming, remainder.length);
+      return joined;
+    });
+    const whole = samples[0].length - (samples[0].length % BLOCK_SIZE);
+    this.remainder = samples.map((channel) => channel.slice(whole));
+    return this.encodeBlocks(samples.map((channel) => channel.subarray(0, whole)));
+  }
+
+  /** Frames for the samples left over, as a shorter final block. */
+  finish() {
+    const samples = this.remainder;
+    this.remainder = samples.map(() => new Int32Array(0));
+    return this.encodeBlocks(samples);
+  }
+
+  private encodeBlocks(channels: Int32Array[]) {
+    const writer = new BitWriter();
+    const { numOfChan, bitDepth } = this;
+    const length = channels[0].length;
+    for (let start = 0; start < length; start += BLOCK_SIZE) {
+      const blockSize = Math.min(BLOCK_SIZE, length - start);
+      const blocks = channels.map((channel) => channel.subarray(start, start + blockSize));
+
+      // Independent channels, or for stereo whichever of left/side, side/right
+      // and mid/side codes smallest. The side channel needs an extra bit.
+      let assignment = numOfChan - 1;
+      let subframes = blocks.map((block) => encodeSubframe(block, bitDepth));
+      if (numOfChan === 2) {
+        const [left, right] = blocks;
+        const side = left.map((l, i) => l - right[i]);
+        const mid = left.map((l, i) => (l + right[i]) >> 1);
+        const leftFrame = subframes[0];
+        const rightFrame = subframes[1];
+        const sideFrame = encodeSubframe(side, bitDepth + 1);
+        const midFrame = encodeSubframe(mid, bitDepth);
+        const options: [number, Subframe[]][] = [
+          [0b1000, [leftFrame, sideFrame]],
+          [0b1001, [sideFrame, rightFrame]],
+          [0b1010, [midFrame, sideFrame]],
+        ];
+        for (const [candidate, frames] of options) {
+          if (frames[0].bits + frames[1].bits < subframes[0].bits + subframes[1].bits) {
+            assignment = candidate;
+            subframes = frames;
+          }
+        }
+      }
+
+      const frameStart = writer.byteLength;
+      writer.write(0b11111111111110, 14); // sync code
+      writer.write(0, 1);
+      writer.write(0, 1); // fixed block size
+      writer.write(0b0111, 4); // 16-bit block size - 1 at the end of the header
+      writer.write(0b0000, 4); // sample rate from STREAMINFO
+      writer.write(assignment, 4);
+      writer.write(bitDepth === 16 ? 0b100 : 0b110, 3);
+      writer.write(0, 1);
+      writeFrameNumber(writer, this.frameNumber++);
+      writer.write(blockSize - 1, 16);
+      writer.write(crc8(writer.slice(frameStart)), 8);
+
+      subframes.forEach((subframe) => subframe.write(writer));
+      writer.alignToByte();
+      writer.write(crc16(writer.slice(frameStart)), 16);
+    }
+    return writer.finish();
+  }
+}
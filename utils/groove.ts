@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MAX_OFFSET } from './steps';
+import type { Step } from './steps';
+
+/** How a groove moves and accents one step. */
+export interface GrooveStep {
+  /** How early (negative) or late it plays, as a fraction of a step. */
+  offset: number;
+  /** Multiplies the step's velocity. */
+  velocity: number;
+}
+
+export interface Groove {
+  name: string;
+  /** Repeats over the pattern, one per step. */
+  steps: GrooveStep[];
+  /** The tracks it applies to, or all of them. */
+  tracks?: number[];
+}
+
+/** Swing as on the MPC: the share of each eighth the first of its sixteenths takes. 50% is straight. */
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+
+/** Tracks of the sequencer grooves refer to. */
+const KICK_TRACKS = [0, 1];
+const SNARE_TRACKS = [2, 3];
+const HAT_TRACKS = [4, 5];
+
+export const GROOVES: Groove[] = [
+  {
+    name: 'Shuffled hats',
+    steps: [{ offset: 0, velocity: 1 }, { offset: 0.33, velocity: 0.7 }],
+    tracks: HAT_TRACKS,
+  },
+  {
+    name: 'Laid-back snare',
+    steps: [{ offset: 0.15, velocity: 1 }],
+    tracks: SNARE_TRACKS,
+  },
+  {
+    name: 'Pushed kick',
+    steps: [{ offset: -0.08, velocity: 1 }],
+    tracks: KICK_TRACKS,
+  },
+  {
+    name: 'Accented offbeats',
+    steps: [
+      { offset: 0, velocity: 0.8 }, { offset: 0, velocity: 0.6 },
+      { offset: 0, velocity: 1 }, { offset: 0, velocity: 0.6 },
+    ],
+  },
+  {
+    // Small fixed drifts, so it loops the same way every time.
+    name: 'Humanize',
+    steps: [
+      { offset: 0.02, velocity: 1 }, { offset: -0.04, velocity: 0.85 },
+      { offset: 0.05, velocity: 0.92 }, { offset: -0.01, velocity: 0.8 },
+      { offset: -0.03, velocity: 0.97 }, { offset: 0.04, velocity: 0.83 },
+      { offset: 0.01, velocity: 0.9 }, { offset: -0.05, velocity: 0.78 },
+    ],
+  },
+];
+
+/**
+ * How late swing puts the step at `position`, counted from when playback
+ * started, as a fraction of a step. Only the second sixteenth of each eighth moves.
+ */
+export function swingOffset(position: number, swing: number) {
+  return position % 2 === 1 ? (swing * 2) / 100 - 1 : 0;
+}
+
+/**
+ * The step as played with the swing and groove. `index` is where it is in its
+ * track's pattern, which picks the groove's step; `position` is where it falls
+ * in time, which swing follows, so tracks of other lengths swing together.
+ */
+export function applyGroove(
+  step: Step, index: number, position: number, track: number, swing: number, groove: Groove | null,
+): Step {
+  let offset = step.offset + swingOffset(position, swing);
+  let velocity = step.velocity;
+  if (groove?.steps.length && (!groove.tracks || groove.tracks.includes(track))) {
+    const grooveStep = groove.steps[index % groove.steps.length];
+    offset += grooveStep.offset;
+    velocity *= grooveStep.velocity;
+  }
+  // No earlier than a step can be nudged, which the scheduler looks ahead for.
+  return { ...step, offset: Math.max(-MAX_OFFSET, offset), velocity: Math.min(1, velocity) };
+}
+
+function isGrooveStep(value: unknown): value is GrooveStep {
+  const step = value as GrooveStep;
+  return typeof step?.offset === 'number' && typeof step?.velocity === 'number';
+}
+
+/**
+ * Reads grooves from JSON: one groove, or a list of them, each with a name and
+ * its steps' offsets and velocities. Throws if it isn't one.
+ */
+export function parseGrooves(text: string): Groove[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a groove file');
+  }
+  const grooves = Array.isArray(data) ? data : [data];
+  return grooves.map((groove: Groove) => {
+    if (typeof groove?.name !== 'string' || !Array.isArray(groove.steps) || !groove.steps.length
+        || !groove.steps.every(isGrooveStep)) {
+      throw new Error('Not a groove file');
+    }
+    return {
+      name: groove.name,
+      steps: groove.steps.map(({ offset, velocity }) => ({
+        offset: Math.max(-MAX_OFFSET, Math.min(MAX_OFFSET, offset)),
+        velocity: Math.max(0, Math.min(1, velocity)),
+      })),
+      tracks: Array.isArray(groove.tracks) ? groove.tracks.filter((track) => Number.isInteger(track)) : undefined,
+    };
+  });
+}
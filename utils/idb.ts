@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Resolves with a request's result once it succeeds. */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Resolves once a transaction has committed. */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Opens a database, creating whichever of `stores` don't exist yet. */
+export function openDatabase(name: string, version: number, stores: Record<string, IDBObjectStoreParameters>) {
+  const request = indexedDB.open(name, version);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    for (const [store, options] of Object.entries(stores)) {
+      if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, options);
+    }
+  };
+  return promisifyRequest(request);
+}
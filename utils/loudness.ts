@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The same measurement as the LoudnessMeter worklet, for audio already in
+// memory. The worklet can't import this, so the constants are mirrored there.
+const BLOCK_DURATION = 0.4;
+const HOP_DURATION = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+const powerToLufs = (power: number) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+
+/** Biquad coefficients [b0, b1, b2, a1, a2] of the two K-weighting stages. */
+function kWeightingCoefficients(sampleRate: number) {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let Q = 0.7071752369554196;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = [
+    (Vh + Vb * K / Q + K * K) / a0,
+    2 * (K * K - Vh) / a0,
+    (Vh - Vb * K / Q + K * K) / a0,
+    2 * (K * K - 1) / a0,
+    (1 - K / Q + K * K) / a0,
+  ];
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highpass = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0];
+  return [shelf, highpass];
+}
+
+/** The squared K-weighted signal of one channel. */
+function kWeightedPower(channel: Float32Array, sampleRate: number) {
+  const power = new Float64Array(channel.length);
+  const filters = kWeightingCoefficients(sampleRate);
+  const states = filters.map(() => [0, 0, 0, 0]);
+  for (let i = 0; i < channel.length; i++) {
+    let x = channel[i];
+    filters.forEach(([b0, b1, b2, a1, a2], stage) => {
+      const s = states[stage];
+      const y = b0 * x + b1 * s[0] + b2 * s[1] - a1 * s[2] - a2 * s[3];
+      s[1] = s[0];
+      s[0] = x;
+      s[3] = s[2];
+      s[2] = y;
+      x = y;
+    });
+    power[i] = x * x;
+  }
+  return power;
+}
+
+/**
+ * Integrated loudness in LUFS per ITU-R BS.1770: gated 400ms blocks, 75%
+ * overlapped. Audio shorter than a block is measured as one block.
+ * -Infinity for silence.
+ */
+export function integratedLoudness(channels: Float32Array[], sampleRate: number) {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return -Infinity;
+
+  // Running sums make each block's mean square O(1).
+  const cumulative = new Float64Array(length + 1);
+  for (const channel of channels) {
+    const power = kWeightedPower(channel, sampleRate);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += power[i];
+      cumulative[i + 1] += sum;
+    }
+  }
+
+  const blockFrames = Math.min(length, Math.round(BLOCK_DURATION * sampleRate));
+  const hopFrames = Math.round(HOP_DURATION * sampleRate);
+  const blocks: number[] = [];
+  for (let start = 0; start + blockFrames <= length; start += hopFrames) {
+    blocks.push((cumulative[start + blockFrames] - cumulative[start]) / blockFrames);
+  }
+
+  const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+  const absolute = blocks.filter((power) => powerToLufs(power) > ABSOLUTE_GATE);
+  if (absolute.length === 0) return -Infinity;
+  const threshold = powerToLufs(mean(absolute)) + RELATIVE_GATE;
+  const relative = absolute.filter((power) => powerToLufs(power) > threshold);
+  return powerToLufs(mean(relative));
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EditCommand, Tracks } from './EditHistory';
+import type { WavCue } from './wav';
+
+/** A point dropped in a recording, e.g. where the prompts changed. */
+export interface Marker {
+  /** Seconds from the start of the take. */
+  time: number;
+  label: string;
+}
+
+/** Markers as WAV cue points. */
+export function markerCues(markers: Marker[], sampleRate: number): WavCue[] {
+  return markers.map(({ time, label }) => ({ frame: Math.round(time * sampleRate), label }));
+}
+
+/**
+ * Wraps an edit so markers move with the audio it moves, and markers in audio
+ * it removes go with it. Undoing it puts them back as they were.
+ */
+export class MarkerTrackingCommand implements EditCommand {
+  readonly label: string;
+  private command: EditCommand;
+  private sampleRate: number;
+  private getMarkers: () => Marker[];
+  private setMarkers: (markers: Marker[]) => void;
+  private before: Marker[] = [];
+
+  constructor(command: EditCommand, sampleRate: number, getMarkers: () => Marker[], setMarkers: (markers: Marker[]) => void) {
+    this.label = command.label;
+    this.command = command;
+    this.sampleRate = sampleRate;
+    this.getMarkers = getMarkers;
+    this.setMarkers = setMarkers;
+  }
+
+  get size() {
+    return this.command.size;
+  }
+
+  apply(tracks: Tracks) {
+    this.before = this.getMarkers();
+    const { command, sampleRate } = this;
+    if (command.mapFrame) {
+      this.setMarkers(this.before.flatMap((marker) => {
+        const frame = command.mapFrame!(Math.round(marker.time * sampleRate));
+        return frame === null ? [] : [{ ...marker, time: frame / sampleRate }];
+      }));
+    }
+    return command.apply(tracks);
+  }
+
+  revert(tracks: Tracks) {
+    this.setMarkers(this.before);
+    return this.command.revert(tracks);
+  }
+}
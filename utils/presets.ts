@@ -2,6 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
+import type { EffectsChainSettings } from './EffectsChain';
 
 export interface PresetPrompt {
   color: string;
@@ -12,6 +13,8 @@ export interface Preset {
   name: string;
   description: string;
   prompts: PresetPrompt[];
+  /** Master effects settings to apply along with the prompts. */
+  effects?: EffectsChainSettings;
 }
 
 export const REGIONAL_PRESETS: Record<string, Preset> = {
@@ -417,3 +420,29 @@ export const MODERN_PRESETS: Record<string, Preset> = {
 };
 
 export const ALL_PRESETS = { ...REGIONAL_PRESETS, ...MODERN_PRESETS };
+
+const USER_PRESETS_KEY = 'user_presets';
+
+/** Presets saved by the user, keyed by id. */
+export function loadUserPresets(): Record<string, Preset> {
+  try {
+    return JSON.parse(localStorage.getItem(USER_PRESETS_KEY) ?? '{}');
+  } catch (e) {
+    console.error('Failed to load user presets:', e);
+    return {};
+  }
+}
+
+/** Saves `preset` and returns its id. */
+export function saveUserPreset(preset: Preset): string {
+  const id = `user-${Date.now()}`;
+  const presets = { ...loadUserPresets(), [id]: preset };
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets));
+  return id;
+}
+
+export function deleteUserPreset(id: string) {
+  const presets = loadUserPresets();
+  delete presets[id];
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets));
+}
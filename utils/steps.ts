@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A hit on one step of a sequencer track. */
+export interface Step {
+  /** From 0 to 1. */
+  velocity: number;
+  /** In cents. */
+  pitch: number;
+  /** Chance it plays each time round, in percent. */
+  probability: number;
+  /** How many hits it's split into, evenly over the step. */
+  ratchets: number;
+  /** How early (negative) or late it plays, as a fraction of a step. */
+  offset: number;
+}
+
+export type TimeSignature = [beats: number, noteValue: number];
+
+export const TIME_SIGNATURES: TimeSignature[] = [[4, 4], [3, 4], [5, 4], [6, 8], [7, 8], [12, 8]];
+
+export type StepResolution = '1/8' | '1/8T' | '1/16' | '1/16T' | '1/32';
+
+export const STEP_RESOLUTIONS: { id: StepResolution; label: string; perQuarter: number; triplet: boolean }[] = [
+  { id: '1/8', label: '1/8', perQuarter: 2, triplet: false },
+  { id: '1/8T', label: '1/8 triplets', perQuarter: 3, triplet: true },
+  { id: '1/16', label: '1/16', perQuarter: 4, triplet: false },
+  { id: '1/16T', label: '1/16 triplets', perQuarter: 6, triplet: true },
+  { id: '1/32', label: '1/32', perQuarter: 8, triplet: false },
+];
+
+export interface Pattern {
+  /** Steps before it repeats, for tracks without a length of their own. */
+  length: number;
+  timeSignature: TimeSignature;
+  resolution: StepResolution;
+  /** Each track's steps, with null where nothing plays. MAX_STEPS each, so shortening the pattern keeps what's past its end. */
+  tracks: (Step | null)[][];
+  /** Each track's own length, so it can run against the others in polymeter, or null to follow the pattern. */
+  trackLengths: (number | null)[];
+}
+
+export const MAX_STEPS = 64;
+export const DEFAULT_LENGTH = 16;
+/** Most steps an exported polymeter runs to before the tracks come back round together. */
+const MAX_CYCLE = MAX_STEPS * 4;
+
+export const MAX_PITCH = 2400;
+export const MAX_RATCHETS = 4;
+/** Nudging further would put a step nearer the next one than its own. */
+export const MAX_OFFSET = 0.5;
+
+export function createStep(pitch = 0): Step {
+  return { velocity: 1, pitch, probability: 100, ratchets: 1, offset: 0 };
+}
+
+/**
+ * A step from a pattern stored before steps were records, when each was just
+ * its pitch in cents, or null.
+ */
+export function migrateStep(value: Step | number | null | undefined): Step | null {
+  if (value == null) return null;
+  if (typeof value === 'number') return createStep(value);
+  return { ...createStep(), ...value };
+}
+
+function padTrack(track: (Step | number | null)[]) {
+  return Array.from({ length: MAX_STEPS }, (_, i) => migrateStep(track[i]));
+}
+
+export function createPattern(trackCount: number): Pattern {
+  return {
+    length: DEFAULT_LENGTH,
+    timeSignature: [4, 4],
+    resolution: '1/16',
+    tracks: Array.from({ length: trackCount }, () => Array(MAX_STEPS).fill(null)),
+    trackLengths: Array(trackCount).fill(null),
+  };
+}
+
+/**
+ * A pattern stored before patterns had settings, when it was just a 4/4 bar
+ * of sixteenths per track, or from before steps were records.
+ */
+export function migratePattern(pattern: Pattern | (Step | number | null)[][]): Pattern {
+  if (Array.isArray(pattern)) {
+    return {
+      ...createPattern(pattern.length),
+      length: Math.min(MAX_STEPS, Math.max(1, ...pattern.map((track) => track.length))),
+      tracks: pattern.map(padTrack),
+    };
+  }
+  return {
+    ...createPattern(pattern.tracks.length),
+    ...pattern,
+    tracks: pattern.tracks.map(padTrack),
+    trackLengths: pattern.tracks.map((_, i) => pattern.trackLengths?.[i] ?? null),
+  };
+}
+
+export function clonePattern(pattern: Pattern): Pattern {
+  return {
+    ...pattern,
+    tracks: pattern.tracks.map((track) => [...track]),
+    trackLengths: [...pattern.trackLengths],
+  };
+}
+
+export function trackLength(pattern: Pattern, track: number) {
+  return pattern.trackLengths[track] ?? pattern.length;
+}
+
+export function stepResolution(id: StepResolution) {
+  return STEP_RESOLUTIONS.find((resolution) => resolution.id === id) ?? STEP_RESOLUTIONS[2];
+}
+
+/** Quarter notes in a bar of the time signature, which tempo counts. */
+export function quartersPerBar([beats, noteValue]: TimeSignature) {
+  return (beats * 4) / noteValue;
+}
+
+/** Steps in a bar, which isn't whole for some signatures in triplets. */
+export function stepsPerBar(pattern: Pattern) {
+  return quartersPerBar(pattern.timeSignature) * stepResolution(pattern.resolution).perQuarter;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Steps until every track with something on it comes back round together, or
+ * the pattern's length if that'd be longer than MAX_CYCLE.
+ */
+export function cycleLength(pattern: Pattern) {
+  let cycle = pattern.length;
+  for (const [track, steps] of pattern.tracks.entries()) {
+    const length = trackLength(pattern, track);
+    if (!steps.slice(0, length).some(Boolean)) continue;
+    cycle = (cycle * length) / gcd(cycle, length);
+    if (cycle > MAX_CYCLE) return pattern.length;
+  }
+  return cycle;
+}
+
+export interface Hit {
+  time: number;
+  velocity: number;
+  pitch: number;
+}
+
+/**
+ * When a step starting at `time` plays this time round, if at all, given how
+ * long a step lasts.
+ */
+export function stepHits(step: Step, time: number, stepDuration: number): Hit[] {
+  if (Math.random() * 100 >= step.probability) return [];
+  const start = time + step.offset * stepDuration;
+  return Array.from({ length: step.ratchets }, (_, i) => ({
+    time: start + (i * stepDuration) / step.ratchets,
+    velocity: step.velocity,
+    pitch: step.pitch,
+  }));
+}
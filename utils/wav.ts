@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The parts of an AudioBuffer the encoders need, so captured PCM can be encoded without one. */
+export type PcmAudio = Pick<AudioBuffer, 'numberOfChannels' | 'length' | 'sampleRate' | 'getChannelData'>;
+
+/** 16 and 24 are integer PCM, 32 is float. */
+export type WavBitDepth = 16 | 24 | 32;
+
+/** A labelled point in the audio, written as a cue point. */
+export interface WavCue {
+  frame: number;
+  label: string;
+}
+
+export interface WavOptions {
+  bitDepth?: WavBitDepth;
+  /** Written to a LIST/INFO chunk, keyed by four-character ids (e.g. ICMT for a comment). */
+  info?: Record<string, string>;
+  /** Written to a cue chunk, with their labels in a LIST/adtl chunk. */
+  cues?: WavCue[];
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+/** Largest size a RIFF chunk can give. Bigger files are RF64, whose ds64 chunk has the real sizes. */
+const MAX_CHUNK_SIZE = 0xffffffff;
+/** The ds64 chunk: the RIFF and data sizes, the frame count and an empty table of other chunks' sizes. */
+const DS64_LENGTH = 28;
+
+/** Null-terminated and padded to an even length. */
+function encodeText(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  const data = new Uint8Array((bytes.length + 2) & ~1);
+  data.set(bytes);
+  return data;
+}
+
+/**
+ * The RIFF header, fmt, INFO and cue chunks and the data chunk's header, for
+ * `length` frames that follow as written by encodeWavFrames. Files over 4 GiB,
+ * e.g. takes of several hours, are written as RF64 (EBU Tech 3306).
+ */
+export function createWavHeader(
+  numOfChan: number,
+  sampleRate: number,
+  length: number,
+  { bitDepth = 16, info = {}, cues = [] }: WavOptions = {},
+) {
+  const infoEntries = Object.entries(info).map(([id, text]) => ({ id, data: encodeText(text) }));
+  const infoLength = infoEntries.length
+    ? 4 + infoEntries.reduce((sum, { data }) => sum + 8 + data.length, 0)
+    : 0;
+  const labels = cues.map(({ label }) => encodeText(label));
+  const cueLength = cues.length ? 4 + cues.length * 24 : 0;
+  // Each label is a labl chunk of the cue's id and its text.
+  const labelsLength = cues.length ? 4 + labels.reduce((sum, data) => sum + 12 + data.length, 0) : 0;
+
+  const bytesPerSample = bitDepth / 8;
+  const dataLength = length * numOfChan * bytesPerSample;
+  const riffHeaderLength = 44
+    + (infoLength ? 8 + infoLength : 0)
+    + (cueLength ? 8 + cueLength + 8 + labelsLength : 0);
+  const isRf64 = riffHeaderLength + dataLength - 8 > MAX_CHUNK_SIZE;
+  const headerLength = riffHeaderLength + (isRf64 ? 8 + DS64_LENGTH : 0);
+  const view = new DataView(new ArrayBuffer(headerLength));
+  let pos = 0;
+
+  const setUint16 = (val: number) => { view.setUint16(pos, val, true); pos += 2; };
+  const setUint32 = (val: number) => { view.setUint32(pos, val, true); pos += 4; };
+  const setUint64 = (val: number) => { setUint32(val % 2 ** 32); setUint32(Math.floor(val / 2 ** 32)); };
+  const setId = (id: string) => { for (let i = 0; i < 4; i++) view.setUint8(pos++, id.charCodeAt(i)); };
+
+  if (isRf64) {
+    // The 32-bit sizes are all ones, and readers take the real ones from ds64.
+    setId('RF64');
+    setUint32(MAX_CHUNK_SIZE);
+    setId('WAVE');
+    setId('ds64');
+    setUint32(DS64_LENGTH);
+    setUint64(headerLength + dataLength - 8);
+    setUint64(dataLength);
+    setUint64(length);
+    setUint32(0);
+  } else {
+    setId('RIFF');
+    setUint32(headerLength + dataLength - 8);
+    setId('WAVE');
+  }
+  setId('fmt ');
+  setUint32(16);
+  setUint16(bitDepth === 32 ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM);
+  setUint16(numOfChan);
+  setUint32(sampleRate);
+  setUint32(sampleRate * bytesPerSample * numOfChan); // byte rate
+  setUint16(numOfChan * bytesPerSample); // block align
+  setUint16(bitDepth);
+
+  if (infoLength) {
+    setId('LIST');
+    setUint32(infoLength);
+    setId('INFO');
+    for (const { id, data } of infoEntries) {
+      setId(id);
+      setUint32(data.length);
+      new Uint8Array(view.buffer, pos, data.length).set(data);
+      pos += data.length;
+    }
+  }
+
+  if (cueLength) {
+    setId('cue ');
+    setUint32(cueLength);
+    setUint32(cues.length);
+    cues.forEach(({ frame }, i) => {
+      setUint32(i + 1); // id
+      setUint32(frame); // position in play order
+      setId('data');
+      setUint32(0); // chunk start
+      setUint32(0); // block start
+      setUint32(frame); // sample offset
+    });
+    setId('LIST');
+    setUint32(labelsLength);
+    setId('adtl');
+    labels.forEach((data, i) => {
+      setId('labl');
+      setUint32(4 + data.length);
+      setUint32(i + 1);
+      new Uint8Array(view.buffer, pos, data.length).set(data);
+      pos += data.length;
+    });
+  }
+
+  setId('data');
+  setUint32(isRf64 ? MAX_CHUNK_SIZE : dataLength);
+  return new Uint8Array(view.buffer);
+}
+
+/** Interleaves channels into WAV sample data. */
+export function encodeWavFrames(channels: Float32Array[], bitDepth: WavBitDepth = 16) {
+  const length = channels[0]?.length ?? 0;
+  const view = new DataView(new ArrayBuffer(length * channels.length * (bitDepth / 8)));
+  let pos = 0;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      if (bitDepth === 32) {
+        view.setFloat32(pos, channel[i], true);
+        pos += 4;
+        continue;
+      }
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      if (bitDepth === 16) {
+        view.setInt16(pos, sample < 0 ? sample * 32768 : sample * 32767, true);
+        pos += 2;
+      } else {
+        const value = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607);
+        view.setUint8(pos++, value & 0xff);
+        view.setUint8(pos++, (value >> 8) & 0xff);
+        view.setUint8(pos++, (value >> 16) & 0xff);
+      }
+    }
+  }
+  return new Uint8Array(view.buffer);
+}
+
+/** Encodes audio as a WAV file, 16-bit PCM unless told otherwise. */
+export function encodeWav(buffer: PcmAudio, options: WavOptions = {}) {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return new Blob([
+    createWavHeader(buffer.numberOfChannels, buffer.sampleRate, buffer.length, options),
+    encodeWavFrames(channels, options.bitDepth),
+  ], { type: 'audio/wav' });
+}
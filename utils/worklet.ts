@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const loadedModules = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+/**
+ * Registers an AudioWorklet processor once per context. `processorModule` is
+ * stringified and loaded from a blob URL, so no bundler setup is needed, but
+ * it must not reference anything outside its own body: module constants it
+ * needs are mirrored inside it. The worklet scope's globals it can use are
+ * declared in workletScope.d.ts.
+ */
+export function loadWorkletProcessor(
+  context: BaseAudioContext,
+  name: string,
+  processorModule: () => void,
+): Promise<void> {
+  let modules = loadedModules.get(context);
+  if (!modules) {
+    modules = new Map();
+    loadedModules.set(context, modules);
+  }
+  let promise = modules.get(name);
+  if (!promise) {
+    const source = `(${processorModule.toString()})();`;
+    const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    promise = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    modules.set(name, promise);
+  }
+  return promise;
+}
@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Globals of the AudioWorkletGlobalScope, which TypeScript's DOM lib doesn't
+// include, for the processors loaded by loadWorkletProcessor.
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}